@@ -3,6 +3,9 @@
  * 用于搜索和获取 Bilibili 番剧信息
  */
 
+import { bangumiCache } from '../../utils/cache-manager';
+import { bilibiliJson } from '../../services/bilibili-client';
+
 interface BangumiSearchResult {
     season_id: number;
     title: string;
@@ -39,35 +42,69 @@ interface BangumiEpisodeDetail {
     duration: number;
 }
 
+/** 番剧搜索接口返回的 data 中的一项 */
+interface BangumiSearchItem {
+    season_id: number;
+    title?: string;
+    cover?: string;
+    areas?: string;
+    styles?: string;
+    cv?: string;
+    desc?: string;
+    pubtime?: string;
+    media_id?: number;
+}
+
+/** pgc 接口返回的剧集 */
+interface SeasonEpisode {
+    id: number;
+    cid: number;
+    aid: number;
+    bvid?: string;
+    title: string;
+    index?: string;
+    index_title?: string;
+    long_title?: string;
+    cover?: string;
+    duration?: number;
+}
+
+/** 剧集列表接口（pgc/web/season/section）返回的 result */
+interface SeasonSectionResult {
+    main_section?: { episodes?: SeasonEpisode[] };
+    section?: { episodes?: SeasonEpisode[] }[];
+}
+
+/** 番剧详情接口（pgc/view/web/season）返回的 result */
+interface SeasonViewResult {
+    season_id: number;
+    title?: string;
+    cover?: string;
+    episodes?: SeasonEpisode[];
+}
+
 /**
- * 搜索番剧
+ * 搜索番剧（结果缓存 30 分钟）
  * @param keyword - 搜索关键词
  * @returns 番剧搜索结果数组
  */
 export async function searchBilibiliBangumi(keyword: string): Promise<BangumiSearchResult[]> {
-    try {
-        const url = `https://api.bilibili.com/x/web-interface/search/type?search_type=media_bangumi&keyword=${encodeURIComponent(keyword)}`;
+    return bangumiCache.getOrFetch(`search:${keyword}`, () => fetchBangumiSearch(keyword));
+}
 
-        const response = await fetch(url, {
-            headers: {
-                'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-                Referer: 'https://www.bilibili.com/'
+async function fetchBangumiSearch(keyword: string): Promise<BangumiSearchResult[]> {
+    try {
+        const data = await bilibiliJson<{ result?: BangumiSearchItem[] }>(
+            'https://api.bilibili.com/x/web-interface/search/type',
+            {
+                params: { search_type: 'media_bangumi', keyword },
+                label: '搜索番剧'
             }
-        });
-
-        if (!response.ok) {
-            throw new Error(`HTTP ${response.status}`);
-        }
-
-        const data = await response.json();
-
-        if (data.code !== 0) {
-            throw new Error(data.message || '搜索失败');
-        }
+        );
 
         const results = data.data?.result || [];
 
-        return results.map((item: any) => ({
+        return results.map((item) => ({
             season_id: item.season_id,
             title: item.title?.replace(/<[^>]*>/g, '') || '', // 移除HTML标签
             cover: item.cover || '',
@@ -95,30 +132,15 @@ export async function findEpisodeByNumber(
     episodeNumber: string
 ): Promise<BangumiEpisode | null> {
     try {
-        const url = `https://api.bilibili.com/pgc/web/season/section?season_id=${seasonId}`;
-
-        const response = await fetch(url, {
-            headers: {
-                'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-                Referer: 'https://www.bilibili.com/'
-            }
-        });
-
-        if (!response.ok) {
-            throw new Error(`HTTP ${response.status}`);
-        }
-
-        const data = await response.json();
-
-        if (data.code !== 0) {
-            throw new Error(data.message || '获取剧集列表失败');
-        }
+        const result = await bangumiCache.getOrFetch(`section:${seasonId}`, () =>
+            fetchSeasonSections(seasonId)
+        );
 
         // 从主剧集列表中查找
-        const mainSection = data.result?.main_section;
+        const mainSection = result?.main_section;
         if (mainSection?.episodes) {
             const episode = mainSection.episodes.find(
-                (ep: any) => ep.title === episodeNumber || ep.index === episodeNumber
+                (ep) => ep.title === episodeNumber || ep.index === episodeNumber
             );
             if (episode) {
                 return {
@@ -136,11 +158,11 @@ export async function findEpisodeByNumber(
         }
 
         // 从其他section中查找
-        const sections = data.result?.section || [];
+        const sections = result?.section || [];
         for (const section of sections) {
             if (section.episodes) {
                 const episode = section.episodes.find(
-                    (ep: any) => ep.title === episodeNumber || ep.index === episodeNumber
+                    (ep) => ep.title === episodeNumber || ep.index === episodeNumber
                 );
                 if (episode) {
                     return {
@@ -166,36 +188,44 @@ export async function findEpisodeByNumber(
 }
 
 /**
- * 获取番剧剧集详细信息
+ * 获取番剧的剧集列表（正片与其他分区的原始数据）
+ * @param seasonId - 番剧 season_id
+ */
+async function fetchSeasonSections(seasonId: number): Promise<SeasonSectionResult | undefined> {
+    const data = await bilibiliJson<SeasonSectionResult>(
+        'https://api.bilibili.com/pgc/web/season/section',
+        {
+            params: { season_id: seasonId },
+            label: '获取剧集列表'
+        }
+    );
+
+    return data.result;
+}
+
+/**
+ * 获取番剧剧集详细信息（缓存 30 分钟）
  * @param epId - 剧集 ep_id
  * @returns 剧集详细信息
  */
 export async function getBangumiEpisodeDetail(epId: number): Promise<BangumiEpisodeDetail> {
-    try {
-        const url = `https://api.bilibili.com/pgc/view/web/season?ep_id=${epId}`;
+    return bangumiCache.getOrFetch(`episode:${epId}`, () => fetchEpisodeDetail(epId));
+}
 
-        const response = await fetch(url, {
-            headers: {
-                'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-                Referer: 'https://www.bilibili.com/'
+async function fetchEpisodeDetail(epId: number): Promise<BangumiEpisodeDetail> {
+    try {
+        const data = await bilibiliJson<SeasonViewResult>(
+            'https://api.bilibili.com/pgc/view/web/season',
+            {
+                params: { ep_id: epId },
+                label: '获取剧集详情'
             }
-        });
-
-        if (!response.ok) {
-            throw new Error(`HTTP ${response.status}`);
-        }
-
-        const data = await response.json();
-
-        if (data.code !== 0) {
-            throw new Error(data.message || '获取剧集详情失败');
-        }
+        );
 
         const result = data.result;
-        const episodes = result.episodes || [];
-        const currentEpisode = episodes.find((ep: any) => ep.id === epId);
+        const currentEpisode = result?.episodes?.find((ep) => ep.id === epId);
 
-        if (!currentEpisode) {
+        if (!result || !currentEpisode) {
             throw new Error('未找到当前剧集信息');
         }
 
@@ -6,67 +6,126 @@
 // 导入番剧处理模块
 import { searchBilibiliBangumi, findEpisodeByNumber, getBangumiEpisodeDetail } from './bangumi';
 // 导入服务层
-import { downloadAllDanmaku } from '../../services/bilibili-api';
+import {
+    downloadAllDanmaku,
+    getHistoryDanmakuDates,
+    getVideoInfo
+} from '../../services/bilibili-api';
 import {
     traditionalToSimplifiedChinese,
     cleanVideoTitle,
     getBestTitlePart,
     removeTrailingEnglish
 } from '../../utils/title-matcher';
-import { getWbiKeys, encWbi } from '../../utils/wbi';
+import {
+    enforceStoreBudget,
+    getStoreStats,
+    getVideoDanmaku,
+    getVideoMeta,
+    putVideoDanmaku,
+    setStoreBudget,
+    updateVideoDanmaku
+} from '../../services/danmaku-store';
+import { runStorageMigrations } from '../../services/storage-migrations';
+import { SessionState } from '../../services/session-state';
+import { bilibiliJson } from '../../services/bilibili-client';
+import { searchResultsCache } from '../../utils/cache-manager';
+import {
+    createMessageRouter,
+    sendPopupMessage,
+    type BackgroundProtocol,
+    type DownloadSummary,
+    type MessageResult
+} from '../../utils/messaging';
 // 引入第三方库
-import '../../lib/protobuf-parser.js';
 import '../../lib/opencc.min.js';
 
 // 类型定义
-import type { PageInfo, BilibiliSearchResult } from '../../types';
+import type {
+    PageInfo,
+    BilibiliSearchResult,
+    BilibiliGlobalSearchResult,
+    BilibiliUserSearchResult,
+    DanmakuDownloadOptions,
+    NoMatchInfo,
+    PendingSearchResults,
+    StoredVideoDanmaku
+} from '../../types';
 
 interface TabPageState extends PageInfo {
     lastUpdate: number;
 }
 
-interface PendingSearchResults {
-    results: BilibiliSearchResult[];
-    youtubeVideoId: string;
-    channelInfo?: { channelId: string; channelName: string };
-    videoTitle: string;
-    timestamp: number;
+/** 搜索接口（x/web-interface/wbi/search/type）返回的 data */
+interface SearchTypeData<T> {
+    result?: T[];
+}
+
+/** UP主搜索结果中的一项 */
+interface UserSearchItem {
+    mid?: number;
+    uname?: string;
+    upic?: string;
+    fans?: number;
+    videos?: number;
+    usign?: string;
+}
+
+/** 视频搜索结果中的一项 */
+interface VideoSearchItem {
+    bvid?: string;
+    title?: string;
+    author?: string;
+    mid?: number;
+    pic?: string;
+    pubdate?: number;
 }
 
 export default defineBackground(() => {
     // ==================== 页面状态管理 ====================
-    const tabPageStates = new Map<number, TabPageState>();
+    // 保存在 storage.session 中，worker 挂起后重新启动时恢复
+    const tabPageStates = new SessionState<Record<number, TabPageState>>('tabPageStates', {});
 
-    function getTabPageState(tabId: number): TabPageState | null {
-        return tabPageStates.get(tabId) || null;
+    async function getTabPageState(tabId: number): Promise<TabPageState | null> {
+        const states = await tabPageStates.get();
+        return states[tabId] || null;
     }
 
-    function setTabPageState(tabId: number, pageInfo: PageInfo): void {
-        tabPageStates.set(tabId, {
-            ...pageInfo,
-            lastUpdate: Date.now()
-        });
+    async function setTabPageState(tabId: number, pageInfo: PageInfo): Promise<void> {
+        await tabPageStates.update((states) => ({
+            ...states,
+            [tabId]: { ...pageInfo, lastUpdate: Date.now() }
+        }));
         console.log(`更新标签页${tabId}状态:`, pageInfo.videoId);
     }
 
-    function clearTabPageState(tabId: number): void {
-        if (tabPageStates.has(tabId)) {
+    async function clearTabPageState(tabId: number): Promise<void> {
+        const states = await tabPageStates.get();
+        if (states[tabId]) {
             console.log(`清除标签页${tabId}状态`);
-            tabPageStates.delete(tabId);
+            await tabPageStates.update(({ [tabId]: _removed, ...rest }) => rest);
         }
     }
 
     // 清理过期的页面状态（30秒过期）
-    function cleanupExpiredPageStates(): void {
+    async function cleanupExpiredPageStates(): Promise<void> {
         const now = Date.now();
         const expireTime = 30000; // 30秒
 
-        for (const [tabId, state] of tabPageStates.entries()) {
-            if (now - state.lastUpdate > expireTime) {
-                tabPageStates.delete(tabId);
+        const states = await tabPageStates.get();
+        const expired = Object.keys(states).filter(
+            (tabId) => now - states[Number(tabId)].lastUpdate > expireTime
+        );
+        if (expired.length === 0) return;
+
+        await tabPageStates.update((current) => {
+            const rest = { ...current };
+            for (const tabId of expired) {
+                delete rest[Number(tabId)];
                 console.log(`清理过期页面状态: 标签页${tabId}`);
             }
-        }
+            return rest;
+        });
     }
 
     // 定期清理过期状态
@@ -82,12 +141,7 @@ export default defineBackground(() => {
     async function searchBilibiliVideo(
         bilibiliUID: string,
         videoTitle: string
-    ): Promise<{
-        success: boolean;
-        results?: BilibiliSearchResult[];
-        error?: string;
-        searchUrl?: string;
-    }> {
+    ): Promise<BackgroundProtocol['searchBilibiliVideo']['response']> {
         try {
             // 繁体转简体
             const simplifiedTitle = traditionalToSimplifiedChinese(videoTitle);
@@ -97,50 +151,10 @@ export default defineBackground(() => {
             const cleanedTitle = cleanVideoTitle(bestPart);
             console.log(`搜索标题: ${videoTitle} → ${cleanedTitle}`);
 
-            // 获取WBI Keys
-            const wbiKeys = await getWbiKeys();
-
-            // 构建API参数
-            const params = {
-                mid: bilibiliUID,
-                ps: 30,
-                tid: 0,
-                pn: 1,
-                keyword: cleanedTitle,
-                order: 'pubdate',
-                web_location: 1550101,
-                wts: Math.round(Date.now() / 1000)
-            };
-
-            // 生成签名
-            const query = encWbi(params, wbiKeys.img_key, wbiKeys.sub_key);
-            const apiUrl = `https://api.bilibili.com/x/space/wbi/arc/search?${query}`;
-
-            console.log(`API搜索URL: ${apiUrl}`);
-
-            // 发起API请求
-            const response = await fetch(apiUrl, {
-                headers: {
-                    'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-                    Referer: 'https://www.bilibili.com/',
-                    Origin: 'https://www.bilibili.com'
-                }
-            });
-
-            if (!response.ok) {
-                throw new Error(`API请求失败: ${response.status}`);
-            }
-
-            const data = await response.json();
-
-            if (data.code !== 0) {
-                throw new Error(`API返回错误: ${data.message || '未知错误'}`);
-            }
-
-            // 解析API响应数据
-            const results = parseBilibiliApiResults(data);
-
-            console.log(`搜索到 ${results.length} 个结果`);
+            const { results, searchUrl } = await searchResultsCache.getOrFetch(
+                `space:${bilibiliUID}:${cleanedTitle}`,
+                () => fetchSpaceSearch(bilibiliUID, cleanedTitle)
+            );
 
             // 优先寻找标题完全包含简化标题的结果
             let finalResults = results;
@@ -156,7 +170,7 @@ export default defineBackground(() => {
             return {
                 success: true,
                 results: finalResults,
-                searchUrl: apiUrl
+                searchUrl
             };
         } catch (error) {
             console.error('B站搜索失败:', error);
@@ -167,6 +181,38 @@ export default defineBackground(() => {
         }
     }
 
+    // 在UP主空间中搜索视频（结果缓存 10 分钟）
+    async function fetchSpaceSearch(
+        bilibiliUID: string,
+        keyword: string
+    ): Promise<{ results: BilibiliSearchResult[]; searchUrl: string }> {
+        const apiUrl = 'https://api.bilibili.com/x/space/wbi/arc/search';
+        const searchUrl = `${apiUrl}?mid=${bilibiliUID}&keyword=${encodeURIComponent(keyword)}`;
+        console.log(`API搜索URL: ${searchUrl}`);
+
+        const data = await bilibiliJson(apiUrl, {
+            params: {
+                mid: bilibiliUID,
+                ps: 30,
+                tid: 0,
+                pn: 1,
+                keyword,
+                order: 'pubdate',
+                web_location: 1550101
+            },
+            wbi: true,
+            headers: { Origin: 'https://www.bilibili.com' },
+            label: 'B站空间搜索'
+        });
+
+        // 解析API响应数据
+        const results = parseBilibiliApiResults(data);
+
+        console.log(`搜索到 ${results.length} 个结果`);
+
+        return { results, searchUrl };
+    }
+
     // 解析 Bilibili API 结果
     function parseBilibiliApiResults(data: any): BilibiliSearchResult[] {
         const results: BilibiliSearchResult[] = [];
@@ -186,6 +232,7 @@ export default defineBackground(() => {
                         title: video.title,
                         author: video.author || '',
                         duration: video.length || 0,
+                        pic: video.pic?.startsWith('//') ? `https:${video.pic}` : video.pic || '',
                         pubdate: video.created || 0,
                         play: video.play || 0
                     });
@@ -206,67 +253,81 @@ export default defineBackground(() => {
     // 搜索B站UP主
     async function searchBilibiliUser(
         keyword: string
-    ): Promise<{ success: boolean; results?: any[]; error?: string }> {
+    ): Promise<BackgroundProtocol['searchBilibiliUser']['response']> {
         try {
             // 繁体转简体
             const simplifiedKeyword = traditionalToSimplifiedChinese(keyword);
             console.log(`搜索UP主: ${keyword} → ${simplifiedKeyword}`);
             const finalKeyword = removeTrailingEnglish(simplifiedKeyword);
 
-            // 获取WBI Keys
-            const wbiKeys = await getWbiKeys();
-
-            // 构建API参数
-            const params = {
-                search_type: 'bili_user',
-                keyword: finalKeyword,
-                page: 1,
-                order: '',
-                order_sort: '',
-                user_type: '',
-                web_location: 1430654,
-                wts: Math.round(Date.now() / 1000)
-            };
-
-            // 生成签名
-            const query = encWbi(params, wbiKeys.img_key, wbiKeys.sub_key);
-            const apiUrl = `https://api.bilibili.com/x/web-interface/wbi/search/type?${query}`;
+            const results = await searchResultsCache.getOrFetch(`user:${finalKeyword}`, () =>
+                fetchUserSearch(finalKeyword)
+            );
 
-            console.log(`搜索UP主API URL: ${apiUrl}`);
-
-            const response = await fetch(apiUrl, {
-                headers: {
-                    'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-                    Referer: 'https://www.bilibili.com/'
-                }
-            });
+            return {
+                success: true,
+                results
+            };
+        } catch (error) {
+            console.error('搜索UP主失败:', error);
+            return {
+                success: false,
+                error: (error as Error).message
+            };
+        }
+    }
 
-            if (!response.ok) {
-                throw new Error(`HTTP ${response.status}`);
+    // 按关键词搜索UP主（结果缓存 10 分钟）
+    async function fetchUserSearch(keyword: string): Promise<BilibiliUserSearchResult[]> {
+        const data = await bilibiliJson<SearchTypeData<UserSearchItem>>(
+            'https://api.bilibili.com/x/web-interface/wbi/search/type',
+            {
+                params: {
+                    search_type: 'bili_user',
+                    keyword,
+                    page: 1,
+                    order: '',
+                    order_sort: '',
+                    user_type: '',
+                    web_location: 1430654
+                },
+                wbi: true,
+                label: '搜索UP主'
             }
+        );
+
+        const userList = data.data?.result || [];
+        return userList.slice(0, 10).map((user) => ({
+            mid: user.mid?.toString() || '',
+            uname: user.uname || '',
+            face: user.upic || '',
+            fans: user.fans || 0,
+            videos: user.videos || 0,
+            usign: user.usign || '',
+            spaceUrl: `https://space.bilibili.com/${user.mid}`
+        }));
+    }
 
-            const data = await response.json();
-
-            if (data.code !== 0) {
-                throw new Error(data.message || '搜索失败');
-            }
+    // 全站搜索B站视频
+    async function searchBilibiliVideoGlobal(
+        keyword: string
+    ): Promise<BackgroundProtocol['searchBilibiliVideoGlobal']['response']> {
+        try {
+            // 繁体转简体
+            const simplifiedKeyword = traditionalToSimplifiedChinese(keyword);
+            const cleanedKeyword = cleanVideoTitle(getBestTitlePart(simplifiedKeyword));
+            console.log(`全站搜索视频: ${keyword} → ${cleanedKeyword}`);
 
-            const userList = data.data?.result || [];
-            const results = userList.slice(0, 10).map((user: any) => ({
-                uid: user.mid?.toString() || '',
-                name: user.uname || '',
-                face: user.upic || '',
-                fans: user.fans || 0,
-                videos: user.videos || 0,
-                sign: user.usign || ''
-            }));
+            const results = await searchResultsCache.getOrFetch(`video:${cleanedKeyword}`, () =>
+                fetchGlobalVideoSearch(cleanedKeyword)
+            );
 
             return {
                 success: true,
                 results
             };
         } catch (error) {
-            console.error('搜索UP主失败:', error);
+            console.error('全站搜索视频失败:', error);
             return {
                 success: false,
                 error: (error as Error).message
@@ -274,24 +335,134 @@ export default defineBackground(() => {
         }
     }
 
+    // 全站搜索视频（结果缓存 10 分钟）
+    async function fetchGlobalVideoSearch(keyword: string): Promise<BilibiliGlobalSearchResult[]> {
+        const data = await bilibiliJson<SearchTypeData<VideoSearchItem>>(
+            'https://api.bilibili.com/x/web-interface/wbi/search/type',
+            {
+                params: {
+                    search_type: 'video',
+                    keyword,
+                    page: 1,
+                    web_location: 1430654
+                },
+                wbi: true,
+                label: '全站搜索视频'
+            }
+        );
+
+        const videoList = data.data?.result || [];
+        return videoList
+            .slice(0, 10)
+            .filter((video): video is VideoSearchItem & { bvid: string } => !!video.bvid)
+            .map((video) => ({
+                bvid: video.bvid,
+                title: video.title?.replace(/<[^>]*>/g, '') || '', // 移除HTML标签
+                author: video.author || '',
+                mid: video.mid?.toString() || '',
+                pic: video.pic?.startsWith('//') ? `https:${video.pic}` : video.pic || '',
+                pubdate: video.pubdate || 0
+            }));
+    }
+
+    // ==================== 弹幕下载与存储 ====================
+
+    // 下载弹幕并按 YouTube 视频 ID 保存
+    async function downloadAndStoreDanmaku(
+        bvid: string,
+        youtubeVideoId: string,
+        bilibiliUrl: string,
+        youtubeVideoDuration?: number | null,
+        options?: DanmakuDownloadOptions
+    ): Promise<DownloadSummary> {
+        const result = await downloadAllDanmaku(bvid, youtubeVideoDuration ?? undefined, options);
+        const missingSegments = Object.values(result.segments).filter((ok) => !ok).length;
+
+        const record: StoredVideoDanmaku = {
+            danmakus: result.danmakus,
+            bilibili_url: bilibiliUrl,
+            title: result.title,
+            duration: result.duration,
+            timestamp: Date.now()
+        };
+        await putVideoDanmaku(youtubeVideoId, record);
+
+        console.log(`弹幕已保存: ${youtubeVideoId} ← ${bvid}, ${result.danmakus.length} 条`);
+        return { count: result.danmakus.length, missingSegments };
+    }
+
+    // 下载番剧弹幕
+    async function downloadBangumiDanmaku(
+        title: string,
+        episodeNumber: number,
+        youtubeVideoId: string
+    ): Promise<DownloadSummary> {
+        const seasons = await searchBilibiliBangumi(title);
+        if (seasons.length === 0) {
+            throw new Error('未找到对应番剧');
+        }
+
+        const episode = await findEpisodeByNumber(seasons[0].season_id, String(episodeNumber));
+        if (!episode) {
+            throw new Error('未找到对应集数');
+        }
+
+        const detail = await getBangumiEpisodeDetail(episode.ep_id);
+        if (!detail.bvid) {
+            throw new Error('无法获取剧集视频信息');
+        }
+
+        return downloadAndStoreDanmaku(
+            detail.bvid,
+            youtubeVideoId,
+            `https://www.bilibili.com/bangumi/play/ep${detail.ep_id}`
+        );
+    }
+
+    // 通过 oEmbed 获取视频原始标题（不受界面语言影响）
+    async function fetchOriginalTitle(videoId: string): Promise<string> {
+        const videoUrl = `https://www.youtube.com/watch?v=${videoId}`;
+        const response = await fetch(
+            `https://www.youtube.com/oembed?url=${encodeURIComponent(videoUrl)}&format=json`
+        );
+        if (!response.ok) {
+            throw new Error(`oEmbed请求失败: ${response.status}`);
+        }
+
+        const data = await response.json();
+        if (!data.title) {
+            throw new Error('oEmbed未返回标题');
+        }
+        return data.title;
+    }
+
     // ==================== 弹窗结果管理 ====================
 
-    let pendingSearchResults: PendingSearchResults | null = null;
-    let pendingNoMatchResults: any = null;
+    // 等待 popup 打开后显示的结果，worker 在 popup 打开前挂起也不会丢失
+    const pendingSearchResults = new SessionState<PendingSearchResults | null>(
+        'pendingSearchResults',
+        null
+    );
+    const pendingNoMatchResults = new SessionState<NoMatchInfo | null>(
+        'pendingNoMatchResults',
+        null
+    );
 
     // 处理多个搜索结果的弹窗显示
-    async function handleMultipleResults(request: any): Promise<void> {
+    async function handleMultipleResults(
+        request: BackgroundProtocol['showMultipleResults']['request']
+    ): Promise<void> {
         try {
             console.log('处理多个搜索结果弹窗:', request.results.length);
 
             // 暂存搜索结果，等待popup准备好接收
-            pendingSearchResults = {
+            await pendingSearchResults.set({
                 results: request.results,
                 youtubeVideoId: request.youtubeVideoId,
                 channelInfo: request.channelInfo,
                 videoTitle: request.videoTitle,
                 timestamp: Date.now()
-            };
+            });
 
             // 打开popup
             await browser.action.openPopup();
@@ -300,110 +471,188 @@ export default defineBackground(() => {
         }
     }
 
+    // popup 就绪后推送暂存的结果，popup 确认收到后才清除，发送失败时保留给下次打开
+    async function flushPendingResults(): Promise<boolean> {
+        const searchResults = await pendingSearchResults.get();
+        if (searchResults) {
+            const { results, youtubeVideoId } = searchResults;
+            const delivered = await deliverToPopup(() =>
+                sendPopupMessage('displayMultipleResults', { results, youtubeVideoId })
+            );
+            if (delivered) {
+                await pendingSearchResults.set(null);
+            }
+            return delivered;
+        }
+
+        const noMatch = await pendingNoMatchResults.get();
+        if (noMatch) {
+            const delivered = await deliverToPopup(() =>
+                sendPopupMessage('displayNoMatchResults', noMatch)
+            );
+            if (delivered) {
+                await pendingNoMatchResults.set(null);
+            }
+            return delivered;
+        }
+
+        return false;
+    }
+
+    async function deliverToPopup(send: () => Promise<MessageResult>): Promise<boolean> {
+        try {
+            const response = await send();
+            if (!response.success) {
+                console.error('popup 处理暂存结果失败:', response.error);
+            }
+            return response.success;
+        } catch (error) {
+            console.error('向 popup 推送暂存结果失败:', error);
+            return false;
+        }
+    }
+
+    // 获取当前活动标签页
+    async function getActiveTabId(): Promise<number | undefined> {
+        const [tab] = await browser.tabs.query({ active: true, currentWindow: true });
+        return tab?.id;
+    }
+
     // ==================== 消息处理 ====================
 
-    browser.runtime.onMessage.addListener((request, sender, sendResponse) => {
-        console.log('Background收到消息:', request.type);
-
-        // 异步处理消息
-        (async () => {
-            try {
-                switch (request.type) {
-                    case 'GET_DANMAKU': {
-                        const { bvid, youtubeVideoDuration } = request.data;
-                        const result = await downloadAllDanmaku(bvid, youtubeVideoDuration);
-                        sendResponse({ success: true, data: result });
-                        break;
-                    }
-
-                    case 'SEARCH_VIDEO': {
-                        const { bilibiliUID, videoTitle } = request.data;
-                        const result = await searchBilibiliVideo(bilibiliUID, videoTitle);
-                        sendResponse(result);
-                        break;
-                    }
-
-                    case 'SEARCH_USER': {
-                        const { keyword } = request.data;
-                        const result = await searchBilibiliUser(keyword);
-                        sendResponse(result);
-                        break;
-                    }
-
-                    case 'SEARCH_BANGUMI': {
-                        const { keyword } = request.data;
-                        const result = await searchBilibiliBangumi(keyword);
-                        sendResponse({ success: true, data: result });
-                        break;
-                    }
-
-                    case 'GET_BANGUMI_EPISODE': {
-                        const { seasonId, episodeNumber } = request.data;
-                        const episode = await findEpisodeByNumber(seasonId, episodeNumber);
-                        if (episode) {
-                            const detail = await getBangumiEpisodeDetail(episode.ep_id);
-                            sendResponse({ success: true, data: detail });
-                        } else {
-                            sendResponse({ success: false, error: '未找到对应集数' });
-                        }
-                        break;
-                    }
-
-                    case 'UPDATE_PAGE_INFO': {
-                        if (sender.tab?.id) {
-                            setTabPageState(sender.tab.id, request.data);
-                            sendResponse({ success: true });
-                        }
-                        break;
-                    }
-
-                    case 'GET_PAGE_INFO': {
-                        if (sender.tab?.id) {
-                            const pageInfo = getTabPageState(sender.tab.id);
-                            sendResponse({ success: true, data: pageInfo });
-                        }
-                        break;
-                    }
-
-                    case 'SHOW_MULTIPLE_RESULTS': {
-                        await handleMultipleResults(request.data);
-                        sendResponse({ success: true });
-                        break;
-                    }
-
-                    case 'GET_PENDING_RESULTS': {
-                        sendResponse({
-                            success: true,
-                            data: pendingSearchResults
-                        });
-                        // 清除已发送的结果
-                        pendingSearchResults = null;
-                        break;
-                    }
-
-                    case 'GET_PENDING_NO_MATCH': {
-                        sendResponse({
-                            success: true,
-                            data: pendingNoMatchResults
-                        });
-                        pendingNoMatchResults = null;
-                        break;
-                    }
-
-                    default:
-                        sendResponse({ success: false, error: '未知的消息类型' });
+    const ok: MessageResult = { success: true };
+
+    browser.runtime.onMessage.addListener(
+        createMessageRouter<BackgroundProtocol>({
+            downloadDanmaku: async ({
+                bvid,
+                youtubeVideoId,
+                youtubeVideoDuration,
+                pages,
+                historyDates
+            }) => {
+                // 单独下载某一P时链接指向该P
+                const pageQuery = pages?.length === 1 && pages[0] > 1 ? `?p=${pages[0]}` : '';
+                const summary = await downloadAndStoreDanmaku(
+                    bvid,
+                    youtubeVideoId,
+                    `https://www.bilibili.com/video/${bvid}${pageQuery}`,
+                    youtubeVideoDuration,
+                    { pages, historyDates }
+                );
+                return { success: true, ...summary };
+            },
+
+            getVideoPages: async ({ bvid }) => {
+                const { pages } = await getVideoInfo(bvid);
+                return { success: true, pages };
+            },
+
+            getHistoryDates: async ({ bvid, month, page = 1 }) => {
+                const { pages } = await getVideoInfo(bvid);
+                const videoPage = pages.find((p) => p.page === page);
+                if (!videoPage) {
+                    throw new Error(`视频没有第 ${page}P`);
+                }
+                const dates = await getHistoryDanmakuDates(videoPage.cid, month);
+                return { success: true, dates };
+            },
+
+            downloadBangumiDanmaku: async ({ title, episodeNumber, youtubeVideoId }) => {
+                const summary = await downloadBangumiDanmaku(title, episodeNumber, youtubeVideoId);
+                return { success: true, ...summary };
+            },
+
+            searchBilibiliVideo: ({ bilibiliUID, videoTitle }) =>
+                searchBilibiliVideo(bilibiliUID, videoTitle),
+
+            searchBilibiliVideoGlobal: ({ keyword }) => searchBilibiliVideoGlobal(keyword),
+
+            searchBilibiliUser: ({ keyword }) => searchBilibiliUser(keyword),
+
+            fetchOriginalTitle: async ({ videoId }) => ({
+                success: true,
+                title: await fetchOriginalTitle(videoId)
+            }),
+
+            getVideoDanmaku: async ({ youtubeVideoId }) => ({
+                success: true,
+                record: await getVideoDanmaku(youtubeVideoId)
+            }),
+
+            getVideoMeta: async ({ youtubeVideoId }) => ({
+                success: true,
+                meta: await getVideoMeta(youtubeVideoId)
+            }),
+
+            updateVideoDanmaku: async ({ youtubeVideoId, patch }) => ({
+                success: true,
+                meta: await updateVideoDanmaku(youtubeVideoId, patch)
+            }),
+
+            cleanupExpiredDanmaku: async () => {
+                const removed = await enforceStoreBudget();
+                return { success: true, removed };
+            },
+
+            getDanmakuStoreStats: async () => ({ success: true, stats: await getStoreStats() }),
+
+            setDanmakuStoreBudget: async ({ budget }) => ({
+                success: true,
+                stats: await setStoreBudget(budget)
+            }),
+
+            showMultipleResults: async (request) => {
+                await handleMultipleResults(request);
+                return ok;
+            },
+
+            showNoMatchResults: async (request) => {
+                await pendingNoMatchResults.set(request);
+                return ok;
+            },
+
+            popupReady: async () => {
+                const hasPending = await flushPendingResults();
+                return { success: true, hasPending };
+            },
+
+            getPageInfoFromBackground: async () => {
+                const tabId = await getActiveTabId();
+                const pageInfo = tabId !== undefined ? await getTabPageState(tabId) : null;
+                if (!pageInfo) {
+                    return { success: false, error: '没有缓存的页面信息' };
+                }
+                return { success: true, data: pageInfo, fromCache: true };
+            },
+
+            pageInfoUpdated: async ({ pageInfo }, sender) => {
+                if (sender.tab?.id) {
+                    await setTabPageState(sender.tab.id, pageInfo);
+                }
+                return ok;
+            },
+
+            pageChanged: async (_request, sender) => {
+                if (sender.tab?.id) {
+                    await clearTabPageState(sender.tab.id);
                 }
-            } catch (error) {
-                console.error('处理消息时出错:', error);
-                sendResponse({
-                    success: false,
-                    error: (error as Error).message
-                });
+                return ok;
+            },
+
+            clearSearchResults: async () => {
+                await Promise.all([
+                    pendingSearchResults.set(null),
+                    pendingNoMatchResults.set(null)
+                ]);
+                return ok;
             }
-        })();
+        })
+    );
 
-        // 返回true表示异步发送响应
-        return true;
+    // 安装或更新后升级本地存储结构
+    browser.runtime.onInstalled.addListener(() => {
+        runStorageMigrations().catch((error) => console.error('存储结构迁移失败:', error));
     });
 
     console.log('Background script loaded');
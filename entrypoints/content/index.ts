@@ -8,28 +8,14 @@ import {
     parseBangumiTitle,
     findVideoContainer,
     getVideoDuration,
-    type ChannelInfo
+    getTimestampMarkers
 } from '../../utils/youtube-dom';
 import { AdMonitor } from '../../utils/ad-detector';
-
-interface PageInfo {
-    channel: ChannelInfo;
-    videoTitle: string;
-    videoId: string;
-    timestamp: number;
-    url: string;
-}
-
-interface DanmakuSettings {
-    enabled: boolean;
-    timeOffset: number;
-    opacity: number;
-    fontSize: number;
-    speed?: number;
-    trackSpacing?: number;
-    displayAreaPercentage?: number;
-    weightThreshold?: number;
-}
+import { createMessageRouter, sendMessage, type ContentProtocol } from '../../utils/messaging';
+import { alignTimeline, MIN_ALIGNMENT_CONFIDENCE } from '../../services/timeline-alignment';
+import { upsertTimeAnchor } from '../../utils/time-map';
+import { getStorageItem, getStorageItems } from '../../utils/storage';
+import type { PageInfo, StoredVideoDanmaku, StoredVideoMeta, TimeAnchor } from '../../types';
 
 export default defineContentScript({
     matches: ['*://*.youtube.com/*'],
@@ -77,12 +63,9 @@ export default defineContentScript({
                     currentPageInfo = pageInfo;
                     pageInfoCache.set(videoId, pageInfo);
 
-                    browser.runtime
-                        .sendMessage({
-                            type: 'pageInfoUpdated',
-                            pageInfo
-                        })
-                        .catch((error) => console.log('通知页面信息更新失败:', error));
+                    sendMessage('pageInfoUpdated', { pageInfo }).catch((error) =>
+                        console.log('通知页面信息更新失败:', error)
+                    );
 
                     console.log('页面信息更新完成:', {
                         videoId,
@@ -144,32 +127,33 @@ export default defineContentScript({
 
         // 加载设置
         async function loadSettings(): Promise<void> {
-            const result = await browser.storage.local.get('danmakuSettings');
-            const settings: DanmakuSettings = (result.danmakuSettings as
-                | DanmakuSettings
-                | undefined) || {
-                enabled: true,
-                timeOffset: 0,
-                opacity: 100,
-                fontSize: 24
-            };
+            const { danmakuSettings, blockRules } = await getStorageItems([
+                'danmakuSettings',
+                'blockRules'
+            ]);
 
             if (danmakuEngine) {
-                danmakuEngine.updateSettings(settings);
+                danmakuEngine.updateSettings(danmakuSettings);
+                danmakuEngine.setBlockRules(blockRules);
             }
         }
 
         // 加载视频弹幕
         async function loadDanmakuForVideo(videoId: string): Promise<boolean> {
             try {
-                const result = await browser.storage.local.get(videoId);
-                const videoData = result[videoId] as { danmakus?: any[] } | undefined;
-                if (videoData?.danmakus) {
+                const response = await sendMessage('getVideoDanmaku', { youtubeVideoId: videoId });
+                if (!response.success) {
+                    throw new Error(response.error);
+                }
+
+                const videoData = response.record;
+                if (videoData) {
                     console.log(`加载弹幕数据: ${videoData.danmakus.length} 条`);
 
                     if (danmakuEngine) {
                         danmakuEngine.loadDanmakus(videoData.danmakus);
                     }
+                    await applyTimelineAlignment(videoId, videoData);
                     return true;
                 } else {
                     console.log('没有找到弹幕数据');
@@ -181,6 +165,73 @@ export default defineContentScript({
             }
         }
 
+        // 自动对齐时间轴：优先使用已保存的结果，否则根据页面上的时间标记计算
+        async function applyTimelineAlignment(
+            videoId: string,
+            videoData: StoredVideoDanmaku
+        ): Promise<void> {
+            let alignment = videoData.alignment;
+
+            if (!alignment) {
+                alignment = alignTimeline({
+                    danmakus: videoData.danmakus,
+                    bilibiliDuration: videoData.duration,
+                    youtubeDuration: getVideoDuration(),
+                    youtubeMarkers: getTimestampMarkers()
+                });
+
+                // 页面上的章节与评论可能尚未加载，只保存可信的结果，其余情况下次加载时重新计算
+                if (alignment.confidence >= MIN_ALIGNMENT_CONFIDENCE) {
+                    await sendMessage('updateVideoDanmaku', {
+                        youtubeVideoId: videoId,
+                        patch: { alignment }
+                    });
+                }
+            }
+
+            const confident = alignment.confidence >= MIN_ALIGNMENT_CONFIDENCE;
+            console.log('时间轴对齐:', {
+                分段: alignment.segments,
+                置信度: alignment.confidence,
+                时间标记: alignment.markerCount,
+                应用: confident
+            });
+
+            danmakuEngine?.updateSettings({
+                alignment: confident ? alignment : null,
+                timeMap: videoData.timeMap ?? []
+            });
+        }
+
+        // 读取当前视频的弹幕元数据，用于修改时间映射
+        async function getCurrentVideoMeta(): Promise<{
+            videoId: string;
+            meta: StoredVideoMeta;
+        }> {
+            const videoId = getVideoId();
+            const response = videoId
+                ? await sendMessage('getVideoMeta', { youtubeVideoId: videoId })
+                : null;
+            if (response && !response.success) {
+                throw new Error(response.error);
+            }
+            if (!videoId || !response?.meta) {
+                throw new Error('当前视频没有弹幕数据');
+            }
+            return { videoId, meta: response.meta };
+        }
+
+        // 保存当前视频的时间映射锚点，空数组表示清除
+        async function saveTimeMap(videoId: string, timeMap: TimeAnchor[]): Promise<void> {
+            const response = await sendMessage('updateVideoDanmaku', {
+                youtubeVideoId: videoId,
+                patch: { timeMap }
+            });
+            if (!response.success) {
+                throw new Error(response.error);
+            }
+        }
+
         // 自动检测并下载弹幕
         async function autoCheckAndDownloadDanmaku(): Promise<void> {
             try {
@@ -221,8 +272,7 @@ export default defineContentScript({
                         });
 
                         try {
-                            const response = await browser.runtime.sendMessage({
-                                type: 'downloadBangumiDanmaku',
+                            const response = await sendMessage('downloadBangumiDanmaku', {
                                 title: parseResult.title,
                                 episodeNumber: parseResult.episode,
                                 youtubeVideoId: videoId
@@ -231,11 +281,6 @@ export default defineContentScript({
                             if (response.success) {
                                 console.log(`番剧弹幕自动下载成功: ${response.count} 条`);
 
-                                browser.runtime
-                                    .sendMessage({ type: 'cleanupExpiredDanmaku' })
-                                    .then(() => console.log('清理成功'))
-                                    .catch((error) => console.log('触发清理失败:', error));
-
                                 if (danmakuEngine) {
                                     await loadDanmakuForVideo(videoId);
                                 }
@@ -273,8 +318,7 @@ export default defineContentScript({
                     youtubeVideoDuration
                 });
 
-                const searchResponse = await browser.runtime.sendMessage({
-                    type: 'searchBilibiliVideo',
+                const searchResponse = await sendMessage('searchBilibiliVideo', {
                     bilibiliUID: association.bilibiliUID,
                     videoTitle,
                     youtubeVideoId: videoId,
@@ -288,8 +332,7 @@ export default defineContentScript({
                         const bvid = searchResponse.results[0].bvid;
                         console.log('只有一个匹配结果，自动下载弹幕:', bvid);
 
-                        const downloadResponse = await browser.runtime.sendMessage({
-                            type: 'downloadDanmaku',
+                        const downloadResponse = await sendMessage('downloadDanmaku', {
                             bvid,
                             youtubeVideoId: videoId,
                             youtubeVideoDuration
@@ -298,11 +341,6 @@ export default defineContentScript({
                         if (downloadResponse.success) {
                             console.log(`自动下载弹幕成功: ${downloadResponse.count} 条`);
 
-                            browser.runtime
-                                .sendMessage({ type: 'cleanupExpiredDanmaku' })
-                                .then(() => console.log('清理成功'))
-                                .catch((error) => console.log('触发清理失败:', error));
-
                             if (danmakuEngine) {
                                 await loadDanmakuForVideo(videoId);
                             }
@@ -312,23 +350,21 @@ export default defineContentScript({
                     } else {
                         console.log('找到多个匹配结果，需要用户手动选择');
 
-                        browser.runtime.sendMessage({
-                            type: 'showMultipleResults',
+                        sendMessage('showMultipleResults', {
                             results: searchResponse.results,
                             youtubeVideoId: videoId,
                             channelInfo,
                             videoTitle
-                        });
+                        }).catch((error) => console.log('通知多个搜索结果失败:', error));
                     }
                 } else {
                     console.log('未找到匹配的B站视频');
 
-                    browser.runtime.sendMessage({
-                        type: 'showNoMatchResults',
+                    sendMessage('showNoMatchResults', {
                         youtubeVideoId: videoId,
                         channelInfo,
                         videoTitle
-                    });
+                    }).catch((error) => console.log('通知未匹配结果失败:', error));
                 }
             } catch (error) {
                 console.error('自动检测弹幕失败:', error);
@@ -359,14 +395,11 @@ export default defineContentScript({
                     pageInfoCache.delete(oldVideoId);
                 }
 
-                browser.runtime
-                    .sendMessage({
-                        type: 'pageChanged',
-                        videoId,
-                        oldVideoId,
-                        url: window.location.href
-                    })
-                    .catch((error) => console.log('通知页面切换失败:', error));
+                sendMessage('pageChanged', {
+                    videoId,
+                    oldVideoId,
+                    url: window.location.href
+                }).catch((error) => console.log('通知页面切换失败:', error));
 
                 setTimeout(async () => {
                     await initDanmakuEngine();
@@ -387,9 +420,8 @@ export default defineContentScript({
                 onAdStart: () => {
                     if (danmakuEngine) {
                         // 保存当前透明度（从storage读取）
-                        browser.storage.local.get('danmakuSettings').then((result) => {
-                            const settings = result.danmakuSettings as DanmakuSettings | undefined;
-                            savedOpacity = settings?.opacity || 100;
+                        getStorageItem('danmakuSettings').then((settings) => {
+                            savedOpacity = settings.opacity;
                         });
                         danmakuEngine.updateSettings({ opacity: 0 });
                         console.log('💫 隐藏弹幕');
@@ -407,62 +439,86 @@ export default defineContentScript({
         }
 
         // 监听来自popup的消息
-        browser.runtime.onMessage.addListener((request, _sender, sendResponse) => {
-            if (request.type === 'updateSettings') {
-                if (danmakuEngine) {
-                    danmakuEngine.updateSettings(request.settings);
-                }
-            } else if (request.type === 'getVideoDuration') {
-                const duration = getVideoDuration();
-                sendResponse({ duration });
-                return true;
-            } else if (request.type === 'loadDanmaku') {
-                loadDanmakuForVideo(request.youtubeVideoId);
-            } else if (request.type === 'seekToTime') {
-                const video = document.querySelector<HTMLVideoElement>('video');
-                if (video) {
-                    video.currentTime = request.time;
-                }
-            } else if (request.type === 'getPageInfo') {
-                (async () => {
-                    try {
-                        const videoId = getVideoId();
-
-                        if (currentPageInfo && currentPageInfo.videoId === videoId) {
-                            console.log('使用缓存的页面信息');
-                            sendResponse({
-                                success: true,
-                                data: currentPageInfo
-                            });
-                            return;
-                        }
+        browser.runtime.onMessage.addListener(
+            createMessageRouter<ContentProtocol>({
+                updateSettings: ({ settings }) => {
+                    if (danmakuEngine) {
+                        danmakuEngine.updateSettings(settings);
+                    }
+                    return { success: true };
+                },
 
-                        console.log('重新获取页面信息...');
-                        await updateCurrentPageInfo();
+                getVideoDuration: () => ({ success: true, duration: getVideoDuration() }),
 
-                        if (currentPageInfo) {
-                            sendResponse({
-                                success: true,
-                                data: currentPageInfo
-                            });
-                        } else {
-                            sendResponse({
-                                success: false,
-                                error: '无法获取页面信息'
-                            });
-                        }
-                    } catch (error) {
-                        console.error('获取页面信息失败:', error);
-                        sendResponse({
-                            success: false,
-                            error: (error as Error).message
-                        });
+                loadDanmaku: async ({ youtubeVideoId }) => {
+                    const loaded = await loadDanmakuForVideo(youtubeVideoId);
+                    return { success: true, loaded };
+                },
+
+                seekToTime: ({ time }) => {
+                    const video = document.querySelector<HTMLVideoElement>('video');
+                    if (video) {
+                        video.currentTime = danmakuEngine ? danmakuEngine.toVideoTime(time) : time;
                     }
-                })();
-            }
+                    return { success: true };
+                },
+
+                addTimeAnchor: async ({ bilibiliTime }) => {
+                    const anchor = danmakuEngine?.createTimeAnchor(bilibiliTime);
+                    if (!danmakuEngine || !anchor) {
+                        throw new Error('未找到视频播放器');
+                    }
+
+                    const { videoId, meta } = await getCurrentVideoMeta();
+                    // 首次添加时以当前生效的映射（如自动对齐结果）为基础
+                    const base = meta.timeMap?.length
+                        ? meta.timeMap
+                        : danmakuEngine.getTimeAnchors();
+                    const anchors = upsertTimeAnchor(base, anchor);
 
-            return true;
-        });
+                    await saveTimeMap(videoId, anchors);
+                    danmakuEngine.updateSettings({ timeMap: anchors });
+                    return { success: true, anchors };
+                },
+
+                updateBlockRules: ({ rules }) => {
+                    danmakuEngine?.setBlockRules(rules);
+                    return { success: true, hits: danmakuEngine?.getBlockHits() ?? {} };
+                },
+
+                getBlockHits: () => ({ success: true, hits: danmakuEngine?.getBlockHits() ?? {} }),
+
+                getDensityStats: () => ({
+                    success: true,
+                    stats: danmakuEngine?.getDensityStats() ?? null
+                }),
+
+                clearTimeAnchors: async () => {
+                    const { videoId } = await getCurrentVideoMeta();
+
+                    await saveTimeMap(videoId, []);
+                    danmakuEngine?.updateSettings({ timeMap: [] });
+                    return { success: true };
+                },
+
+                getPageInfo: async () => {
+                    const videoId = getVideoId();
+
+                    if (currentPageInfo && currentPageInfo.videoId === videoId) {
+                        console.log('使用缓存的页面信息');
+                        return { success: true, data: currentPageInfo };
+                    }
+
+                    console.log('重新获取页面信息...');
+                    await updateCurrentPageInfo();
+
+                    if (currentPageInfo) {
+                        return { success: true, data: currentPageInfo };
+                    }
+                    return { success: false, error: '无法获取页面信息' };
+                }
+            })
+        );
 
         // 初始化
         const videoId = getVideoId();
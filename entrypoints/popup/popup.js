@@ -1,25 +1,108 @@
+// @ts-check
 // 引入频道关联管理工具
-import { channelAssociation, ChannelAssociationManager } from '../../utils/channelAssociation.js';
+import { channelAssociation } from '../../utils/channelAssociation.js';
+// 引入消息协议
+import { createMessageRouter, sendMessage, sendTabMessage } from '../../utils/messaging';
+import { validateBlockRule } from '../../utils/danmaku-filter';
+import { getCssTextShadow, getFontFamily, getFontWeight } from '../../utils/danmaku-style';
+import { getStorageItem, setStorageItems } from '../../utils/storage';
+
+/** @typedef {import('../../utils/messaging').PopupProtocol} PopupProtocol */
+/** @typedef {import('../../utils/messaging').MessageHandlers<PopupProtocol>} PopupMessageHandlers */
+/** @typedef {import('../../utils/messaging').DownloadSummary} DownloadSummary */
+/** @typedef {import('../../types').BilibiliSearchResult} BilibiliSearchResult */
+/** @typedef {import('../../types').BilibiliUserSearchResult} BilibiliUserSearchResult */
+/** @typedef {import('../../types').BlockRule} BlockRule */
+/** @typedef {import('../../types').BlockRuleType} BlockRuleType */
+/** @typedef {import('../../types').Danmaku} Danmaku */
+/** @typedef {import('../../types').DanmakuRendererType} DanmakuRendererType */
+/** @typedef {import('../../types').DanmakuShadowStyle} DanmakuShadowStyle */
+/** @typedef {import('../../types').DanmakuStoreStats} DanmakuStoreStats */
+/** @typedef {import('../../types').DensityDropStrategy} DensityDropStrategy */
+/** @typedef {import('../../types').DanmakuTextStyle} DanmakuTextStyle */
+/** @typedef {import('../../types').NoMatchInfo} NoMatchInfo */
+/** @typedef {import('../../types').PageInfo} PageInfo */
+/** @typedef {import('../../types').VideoPage} VideoPage */
+/** @typedef {import('../../types').BilibiliGlobalSearchResult} BilibiliGlobalSearchResult */
+/** @typedef {chrome.tabs.Tab & { id: number; url: string }} ActiveTab */
+
+// 按 id 获取页面中固定存在的元素
+/**
+ * @param {string} id
+ * @returns {HTMLElement}
+ */
+function getElement(id) {
+    return /** @type {HTMLElement} */ (document.getElementById(id));
+}
+
+/**
+ * @param {string} id
+ * @returns {HTMLInputElement}
+ */
+function getInput(id) {
+    return /** @type {HTMLInputElement} */ (document.getElementById(id));
+}
+
+/**
+ * @param {string} id
+ * @returns {HTMLSelectElement}
+ */
+function getSelect(id) {
+    return /** @type {HTMLSelectElement} */ (document.getElementById(id));
+}
 
-// 获取当前标签页信息
+/**
+ * @param {string} id
+ * @returns {HTMLButtonElement}
+ */
+function getButton(id) {
+    return /** @type {HTMLButtonElement} */ (document.getElementById(id));
+}
+
+// 获取当前标签页信息，没有 id 或 url 的标签页（如浏览器内部页面）视为不存在
+/** @returns {Promise<ActiveTab | undefined>} */
 async function getCurrentTab() {
     const [tab] = await browser.tabs.query({ active: true, currentWindow: true });
-    return tab;
+    return tab?.id !== undefined && tab.url ? /** @type {ActiveTab} */ (tab) : undefined;
 }
 
 // 解析B站视频ID
+/** @param {string} url */
 function parseBilibiliUrl(url) {
     const match = url.match(/bilibili\.com\/video\/(BV\w+)/);
     return match ? match[1] : null;
 }
 
+// 解析B站视频链接中的分P序号
+/** @param {string} url */
+function parseBilibiliPage(url) {
+    const match = url.match(/[?&]p=(\d+)/);
+    return match ? parseInt(match[1]) : 1;
+}
+
+// 格式化时间（分:秒）
+/** @param {number} seconds */
+function formatTime(seconds) {
+    const mins = Math.floor(seconds / 60);
+    const secs = Math.floor(seconds % 60);
+    return `${mins}:${secs.toString().padStart(2, '0')}`;
+}
+
 // 获取YouTube视频ID
+/** @param {string} url */
 function getYouTubeVideoId(url) {
     const match = url.match(/[?&]v=([^&]+)/);
     return match ? match[1] : null;
 }
 
+/**
+ * @typedef {object} SocialIconsConfig
+ * @property {boolean} enableGrayscaleFilter
+ * @property {{ name: string; icon: string; url?: string; tooltip?: string }[]} socialLinks
+ */
+
 // 加载社交图标配置
+/** @returns {Promise<SocialIconsConfig>} */
 async function loadSocialIconsConfig() {
     try {
         // 默认配置（作为fallback）
@@ -52,9 +135,10 @@ async function loadSocialIconsConfig() {
 }
 
 // 渲染社交图标
+/** @param {SocialIconsConfig} config */
 function renderSocialIcons(config) {
-    const socialIconsContainer = document.getElementById('social-icons');
-    const socialIconsSimpleContainer = document.getElementById('social-icons-simple');
+    const socialIconsContainer = getElement('social-icons');
+    const socialIconsSimpleContainer = getElement('social-icons-simple');
 
     const containers = [socialIconsContainer, socialIconsSimpleContainer].filter(Boolean);
 
@@ -119,8 +203,12 @@ async function initSocialIcons() {
 }
 
 // 显示状态信息
+/**
+ * @param {string} message
+ * @param {'loading' | 'info' | 'success' | 'error'} [type]
+ */
 function showStatus(message, type = 'loading') {
-    const statusBar = document.getElementById('status-bar');
+    const statusBar = getElement('status-bar');
     statusBar.textContent = message;
     statusBar.className = `status-bar show ${type}`;
 
@@ -131,9 +219,19 @@ function showStatus(message, type = 'loading') {
     }
 }
 
+// 生成下载结果提示，有分段失败时提示可重新下载补全
+/** @param {DownloadSummary} response */
+function formatDownloadStatus(response) {
+    if (response.missingSegments > 0) {
+        return `已下载 ${response.count} 条弹幕，${response.missingSegments} 个分段失败，重新下载可补全`;
+    }
+    return `成功下载 ${response.count} 条弹幕`;
+}
+
 // 更新弹幕信息
+/** @param {number} count */
 function updateDanmakuInfo(count) {
-    const info = document.getElementById('danmaku-info');
+    const info = getElement('danmaku-info');
     if (count > 0) {
         info.textContent = `已加载 ${count} 条弹幕`;
         info.classList.add('show');
@@ -142,53 +240,214 @@ function updateDanmakuInfo(count) {
     }
 }
 
+// 获取按钮组中选中按钮的值
+/**
+ * @param {string} selector - 按钮组中按钮的选择器
+ * @returns {string | undefined}
+ */
+function getActiveButtonValue(selector) {
+    const activeBtn = /** @type {HTMLElement | null} */ (
+        document.querySelector(`${selector}.active`)
+    );
+    return activeBtn?.dataset.value;
+}
+
+// 选中按钮组中值对应的按钮
+/**
+ * @param {string} selector - 按钮组中按钮的选择器
+ * @param {string | number} value
+ */
+function setActiveButtonValue(selector, value) {
+    /** @type {NodeListOf<HTMLElement>} */ (document.querySelectorAll(selector)).forEach((btn) => {
+        btn.classList.toggle('active', btn.dataset.value === String(value));
+    });
+}
+
 // 获取显示区域按钮组的值
 function getDisplayAreaValue() {
-    const activeBtn = document.querySelector('.display-area-btn.active');
-    return parseInt(activeBtn ? activeBtn.dataset.value : '100');
+    return parseInt(getActiveButtonValue('.display-area-btn') ?? '100');
 }
 
 // 设置显示区域按钮组的值
+/** @param {number} value */
 function setDisplayAreaValue(value) {
-    // 移除所有按钮的选中状态
-    document.querySelectorAll('.display-area-btn').forEach((btn) => {
-        btn.classList.remove('active');
-    });
+    setActiveButtonValue('.display-area-btn', value);
+}
+
+// 获取渲染方式按钮组的值
+/** @returns {DanmakuRendererType} */
+function getRendererValue() {
+    return /** @type {DanmakuRendererType} */ (getActiveButtonValue('.renderer-btn') ?? 'dom');
+}
+
+// 设置渲染方式按钮组的值
+/** @param {string} value */
+function setRendererValue(value) {
+    setActiveButtonValue('.renderer-btn', value);
+}
+
+// 获取超出同屏上限时的丢弃策略
+/** @returns {DensityDropStrategy} */
+function getDropStrategyValue() {
+    return /** @type {DensityDropStrategy} */ (
+        getActiveButtonValue('.drop-strategy-btn') ?? 'lowest-weight'
+    );
+}
+
+// 设置丢弃策略按钮组的值
+/** @param {string} value */
+function setDropStrategyValue(value) {
+    setActiveButtonValue('.drop-strategy-btn', value);
+}
+
+// 获取阴影样式按钮组的值
+/** @returns {DanmakuShadowStyle} */
+function getShadowStyleValue() {
+    return /** @type {DanmakuShadowStyle} */ (
+        getActiveButtonValue('.shadow-style-btn') ?? 'bilibili'
+    );
+}
 
-    // 设置对应按钮为选中状态
-    const targetBtn = document.querySelector(`.display-area-btn[data-value="${value}"]`);
-    if (targetBtn) {
-        targetBtn.classList.add('active');
+// 设置阴影样式按钮组的值
+/** @param {string} value */
+function setShadowStyleValue(value) {
+    setActiveButtonValue('.shadow-style-btn', value);
+}
+
+// 读取弹幕文字样式控件
+/** @returns {DanmakuTextStyle} */
+function getTextStyleValue() {
+    return {
+        strokeWidth: parseFloat(getInput('stroke-width').value),
+        strokeColor: getInput('stroke-color').value,
+        shadow: getShadowStyleValue(),
+        fontFamily: getSelect('font-family').value,
+        bold: getInput('font-bold').checked,
+        scrollScale: parseInt(getInput('scroll-scale').value) / 100,
+        fixedScale: parseInt(getInput('fixed-scale').value) / 100
+    };
+}
+
+// 设置弹幕文字样式控件
+/** @param {DanmakuTextStyle} style */
+function setTextStyleValue(style) {
+    getInput('stroke-width').value = String(style.strokeWidth);
+    getInput('stroke-color').value = style.strokeColor;
+    setShadowStyleValue(style.shadow);
+    getSelect('font-family').value = style.fontFamily;
+    getInput('font-bold').checked = style.bold;
+    getInput('scroll-scale').value = String(Math.round(style.scrollScale * 100));
+    getInput('fixed-scale').value = String(Math.round(style.fixedScale * 100));
+}
+
+// 按当前设置刷新弹幕样式预览
+function updateStylePreview() {
+    const textStyle = getTextStyleValue();
+    const fontSize = parseInt(getInput('font-size').value);
+    const opacity = parseInt(getInput('opacity').value) / 100;
+
+    const preview = getElement('danmaku-style-preview');
+    preview.style.fontFamily = getFontFamily(textStyle);
+    preview.style.fontWeight = getFontWeight(textStyle);
+    preview.style.textShadow = getCssTextShadow(textStyle);
+    preview.style.opacity = String(opacity);
+
+    /** @type {HTMLElement} */ (preview.querySelector('.preview-scroll')).style.fontSize =
+        `${fontSize * textStyle.scrollScale}px`;
+    /** @type {HTMLElement} */ (preview.querySelector('.preview-fixed')).style.fontSize =
+        `${fontSize * textStyle.fixedScale}px`;
+}
+
+// 显示当前视频的弹幕显示/丢弃统计
+async function loadDensityStats() {
+    const tab = await getCurrentTab();
+    if (!tab || !tab.url.includes('youtube.com')) return;
+
+    try {
+        const response = await sendTabMessage(tab.id, 'getDensityStats', {});
+        const stats = response.success && response.stats;
+        if (!stats || stats.shown + stats.dropped === 0) return;
+
+        const merged = stats.merged > 0 ? `，合并 ${stats.merged} 条` : '';
+        getElement('density-stats').textContent =
+            `已显示 ${stats.shown} 条，丢弃 ${stats.dropped} 条${merged}`;
+    } catch (error) {
+        console.log('获取弹幕密度统计失败:', /** @type {Error} */ (error).message);
+    }
+}
+
+const MB = 1024 * 1024;
+
+// 显示弹幕缓存用量与上限
+/** @param {DanmakuStoreStats} stats */
+function renderStoreStats(stats) {
+    const budgetMb = Math.round(stats.budget / MB);
+    getInput('store-budget').value = String(budgetMb);
+    getElement('store-budget-value').textContent = `${budgetMb}MB`;
+    getElement('store-usage').textContent =
+        `已缓存 ${stats.videos} 个视频，约 ${(stats.bytes / MB).toFixed(1)}MB，超出上限时清理最久未看的视频`;
+}
+
+// 加载弹幕缓存用量
+async function loadStoreStats() {
+    try {
+        const response = await sendMessage('getDanmakuStoreStats', {});
+        if (response.success) renderStoreStats(response.stats);
+    } catch (error) {
+        console.log('获取弹幕缓存用量失败:', /** @type {Error} */ (error).message);
+    }
+}
+
+// 保存弹幕缓存上限，超出部分立即清理
+async function saveStoreBudget() {
+    const budget = parseInt(getInput('store-budget').value, 10) * MB;
+    try {
+        const response = await sendMessage('setDanmakuStoreBudget', { budget });
+        if (response.success) {
+            renderStoreStats(response.stats);
+        } else {
+            showStatus(response.error, 'error');
+        }
+    } catch (error) {
+        showStatus('保存缓存上限失败: ' + /** @type {Error} */ (error).message, 'error');
     }
 }
 
 // 保存设置
 async function saveSettings() {
     // 优先使用输入框的值，如果没有则使用滑块的值
-    const timeOffsetInput = document.getElementById('time-offset-input');
+    const timeOffsetInput = getInput('time-offset-input');
     const timeOffset =
         timeOffsetInput && timeOffsetInput.value !== ''
             ? parseFloat(timeOffsetInput.value) || 0
-            : parseFloat(document.getElementById('time-offset').value);
+            : parseFloat(getInput('time-offset').value);
 
     const settings = {
-        enabled: document.getElementById('enable-danmaku').checked,
+        enabled: getInput('enable-danmaku').checked,
         timeOffset: timeOffset,
-        opacity: parseInt(document.getElementById('opacity').value),
-        fontSize: parseInt(document.getElementById('font-size').value),
-        speed: parseFloat(document.getElementById('speed').value),
-        trackSpacing: parseInt(document.getElementById('track-spacing').value),
+        opacity: parseInt(getInput('opacity').value),
+        fontSize: parseInt(getInput('font-size').value),
+        speed: parseFloat(getInput('speed').value),
+        velocityMix: parseInt(getInput('velocity-mix').value) / 100,
+        trackSpacing: parseInt(getInput('track-spacing').value),
         displayAreaPercentage: getDisplayAreaValue(),
-        weightThreshold: parseInt(document.getElementById('weight-threshold').value)
+        maxOnScreen: parseInt(getInput('max-on-screen').value),
+        dropStrategy: getDropStrategyValue(),
+        weightThreshold: parseInt(getInput('weight-threshold').value),
+        mergeRepeats: getInput('merge-repeats').checked,
+        renderer: getRendererValue(),
+        textStyle: getTextStyleValue(),
+        autoScale: getInput('auto-scale').checked,
+        autoAlign: getInput('auto-align').checked,
+        avoidOverlays: getInput('avoid-overlays').checked
     };
 
-    await browser.storage.local.set({ danmakuSettings: settings });
+    await setStorageItems({ danmakuSettings: settings });
 
     // 通知content script更新设置
     const tab = await getCurrentTab();
     if (tab && tab.url.includes('youtube.com')) {
-        browser.tabs.sendMessage(tab.id, {
-            type: 'updateSettings',
+        sendTabMessage(tab.id, 'updateSettings', {
             settings: settings
         });
     }
@@ -196,41 +455,172 @@ async function saveSettings() {
 
 // 加载设置
 async function loadSettings() {
-    const result = await browser.storage.local.get('danmakuSettings');
-    const settings = result.danmakuSettings || {
-        enabled: true,
-        timeOffset: 0,
-        opacity: 100,
-        fontSize: 24,
-        speed: 1.0,
-        trackSpacing: 8,
-        displayAreaPercentage: 100,
-        weightThreshold: 5
-    };
+    const settings = await getStorageItem('danmakuSettings');
 
-    document.getElementById('enable-danmaku').checked = settings.enabled;
-    document.getElementById('time-offset').value = settings.timeOffset;
+    getInput('enable-danmaku').checked = settings.enabled;
+    getInput('auto-align').checked = settings.autoAlign;
+    getInput('avoid-overlays').checked = settings.avoidOverlays;
+    getInput('time-offset').value = String(settings.timeOffset);
 
     // 同步手动输入框
-    const timeOffsetInput = document.getElementById('time-offset-input');
+    const timeOffsetInput = getInput('time-offset-input');
     if (timeOffsetInput) {
-        timeOffsetInput.value = settings.timeOffset;
+        timeOffsetInput.value = String(settings.timeOffset);
     }
 
-    document.getElementById('opacity').value = settings.opacity;
-    document.getElementById('font-size').value = settings.fontSize;
-    document.getElementById('speed').value = settings.speed || 1.0;
-    document.getElementById('track-spacing').value = settings.trackSpacing || 8;
-    setDisplayAreaValue(settings.displayAreaPercentage || 100);
-    document.getElementById('weight-threshold').value = settings.weightThreshold ?? 5;
+    getInput('opacity').value = String(settings.opacity);
+    getInput('font-size').value = String(settings.fontSize);
+    getInput('auto-scale').checked = settings.autoScale;
+    getInput('speed').value = String(settings.speed);
+    getInput('velocity-mix').value = String(Math.round(settings.velocityMix * 100));
+    getInput('track-spacing').value = String(settings.trackSpacing);
+    setDisplayAreaValue(settings.displayAreaPercentage);
+    getInput('max-on-screen').value = String(settings.maxOnScreen);
+    setDropStrategyValue(settings.dropStrategy);
+    getInput('weight-threshold').value = String(settings.weightThreshold);
+    getInput('merge-repeats').checked = settings.mergeRepeats;
+    setRendererValue(settings.renderer);
+    setTextStyleValue(settings.textStyle);
 
     updateSliderValues();
 }
 
+/** @type {Record<BlockRuleType, string>} */
+const BLOCK_RULE_TYPE_LABELS = {
+    keyword: '关键词',
+    regex: '正则',
+    user: '用户'
+};
+
+// 加载屏蔽规则并显示当前视频的命中次数
+async function loadBlockRules() {
+    const rules = await getStorageItem('blockRules');
+
+    /** @type {Record<string, number>} */
+    let hits = {};
+    const tab = await getCurrentTab();
+    if (tab && tab.url.includes('youtube.com')) {
+        try {
+            const response = await sendTabMessage(tab.id, 'getBlockHits', {});
+            if (response.success) hits = response.hits;
+        } catch (error) {
+            console.log('获取屏蔽命中次数失败:', /** @type {Error} */ (error).message);
+        }
+    }
+
+    renderBlockRules(rules, hits);
+}
+
+// 保存屏蔽规则并通知content script重新过滤
+/** @param {BlockRule[]} rules */
+async function saveBlockRules(rules) {
+    await setStorageItems({ blockRules: rules });
+
+    /** @type {Record<string, number>} */
+    let hits = {};
+    const tab = await getCurrentTab();
+    if (tab && tab.url.includes('youtube.com')) {
+        try {
+            const response = await sendTabMessage(tab.id, 'updateBlockRules', { rules });
+            if (response.success) hits = response.hits;
+        } catch (error) {
+            console.log('通知屏蔽规则更新失败:', /** @type {Error} */ (error).message);
+        }
+    }
+
+    renderBlockRules(rules, hits);
+}
+
+// 添加屏蔽规则
+/**
+ * @param {BlockRuleType} type
+ * @param {string} pattern
+ */
+async function addBlockRule(type, pattern) {
+    const error = validateBlockRule({ type, pattern });
+    if (error) {
+        showStatus(error, 'error');
+        return false;
+    }
+
+    const rules = await getStorageItem('blockRules');
+    if (rules.some((rule) => rule.type === type && rule.pattern === pattern)) {
+        showStatus('该规则已存在', 'info');
+        return false;
+    }
+
+    rules.push({ id: crypto.randomUUID(), type, pattern, enabled: true });
+    await saveBlockRules(rules);
+    showStatus(`已添加${BLOCK_RULE_TYPE_LABELS[type]}屏蔽规则`, 'success');
+    return true;
+}
+
+// 启用或停用屏蔽规则
+/**
+ * @param {string} id
+ * @param {boolean} enabled
+ */
+async function toggleBlockRule(id, enabled) {
+    const rules = (await getStorageItem('blockRules')).map((rule) =>
+        rule.id === id ? { ...rule, enabled } : rule
+    );
+    await saveBlockRules(rules);
+}
+
+// 删除屏蔽规则
+/** @param {string} id */
+async function removeBlockRule(id) {
+    const rules = (await getStorageItem('blockRules')).filter((rule) => rule.id !== id);
+    await saveBlockRules(rules);
+}
+
+// 显示屏蔽规则列表
+/**
+ * @param {BlockRule[]} rules
+ * @param {Record<string, number>} hits
+ */
+function renderBlockRules(rules, hits) {
+    const list = getElement('block-rule-list');
+    list.innerHTML = '';
+
+    rules.forEach((rule) => {
+        const item = document.createElement('div');
+        item.className = 'block-rule-item';
+        item.dataset.id = rule.id;
+
+        const toggle = document.createElement('input');
+        toggle.type = 'checkbox';
+        toggle.className = 'block-rule-toggle';
+        toggle.checked = rule.enabled;
+
+        const type = document.createElement('span');
+        type.className = 'block-rule-type';
+        type.textContent = BLOCK_RULE_TYPE_LABELS[rule.type] || rule.type;
+
+        const pattern = document.createElement('span');
+        pattern.className = 'block-rule-pattern';
+        pattern.textContent = rule.pattern;
+        pattern.title = rule.pattern;
+
+        const count = document.createElement('span');
+        count.className = 'block-rule-hits';
+        count.textContent = rule.enabled ? `命中 ${hits[rule.id] ?? 0}` : '已停用';
+
+        const remove = document.createElement('button');
+        remove.type = 'button';
+        remove.className = 'block-rule-remove-btn';
+        remove.title = '删除规则';
+        remove.textContent = '×';
+
+        item.append(toggle, type, pattern, count, remove);
+        list.appendChild(item);
+    });
+}
+
 // 更新重置按钮显示状态
 function updateResetButtonVisibility() {
-    const timeOffsetValue = parseFloat(document.getElementById('time-offset').value) || 0;
-    const resetBtn = document.getElementById('time-offset-reset');
+    const timeOffsetValue = parseFloat(getInput('time-offset').value) || 0;
+    const resetBtn = getElement('time-offset-reset');
 
     if (resetBtn) {
         resetBtn.style.display = timeOffsetValue !== 0 ? 'inline-block' : 'none';
@@ -239,10 +629,10 @@ function updateResetButtonVisibility() {
 
 // 更新滑块显示值
 function updateSliderValues() {
-    const timeOffsetValue = document.getElementById('time-offset').value;
+    const timeOffsetValue = getInput('time-offset').value;
 
     // 更新手动输入框
-    const timeOffsetInput = document.getElementById('time-offset-input');
+    const timeOffsetInput = getInput('time-offset-input');
     if (timeOffsetInput) {
         timeOffsetInput.value = timeOffsetValue;
     }
@@ -250,23 +640,164 @@ function updateSliderValues() {
     // 更新重置按钮显示状态
     updateResetButtonVisibility();
 
-    document.getElementById('opacity-value').textContent =
-        document.getElementById('opacity').value + '%';
-    document.getElementById('font-size-value').textContent =
-        document.getElementById('font-size').value + 'px';
-    document.getElementById('speed-value').textContent =
-        document.getElementById('speed').value + 'x';
-    document.getElementById('track-spacing-value').textContent =
-        document.getElementById('track-spacing').value + 'px';
-
-    const weightValue = document.getElementById('weight-threshold').value;
-    document.getElementById('weight-threshold-value').textContent =
+    getElement('opacity-value').textContent = getInput('opacity').value + '%';
+    getElement('font-size-value').textContent = getInput('font-size').value + 'px';
+    getElement('speed-value').textContent = getInput('speed').value + 'x';
+
+    const velocityMix = getInput('velocity-mix').value;
+    getElement('velocity-mix-value').textContent =
+        velocityMix === '100'
+            ? '恒定速度'
+            : velocityMix === '0'
+              ? '固定时长'
+              : `恒定速度 ${velocityMix}%`;
+    getElement('track-spacing-value').textContent = getInput('track-spacing').value + 'px';
+
+    const maxOnScreen = getInput('max-on-screen').value;
+    getElement('max-on-screen-value').textContent =
+        maxOnScreen === '0' ? '不限制' : `${maxOnScreen} 条`;
+
+    const strokeWidth = getInput('stroke-width').value;
+    getElement('stroke-width-value').textContent =
+        strokeWidth === '0' ? '无描边' : `${strokeWidth}px`;
+    getElement('scroll-scale-value').textContent = getInput('scroll-scale').value + '%';
+    getElement('fixed-scale-value').textContent = getInput('fixed-scale').value + '%';
+    updateStylePreview();
+
+    const weightValue = getInput('weight-threshold').value;
+    getElement('weight-threshold-value').textContent =
         weightValue === '0' ? '0（显示全部）' : `不显示${weightValue}级以下`;
 }
 
+// 隐藏分P选择列表
+function resetPartPicker() {
+    const picker = getElement('part-picker');
+    picker.style.display = 'none';
+    delete picker.dataset.bvid;
+    getElement('part-list').innerHTML = '';
+}
+
+// 确定要下载的分P
+// 多P视频首次匹配时显示分P列表并返回 null，等待用户选择后再次点击
+/**
+ * @param {string} bvid
+ * @param {string} url
+ * @returns {Promise<number[] | null>}
+ */
+async function resolvePartSelection(bvid, url) {
+    const picker = getElement('part-picker');
+
+    if (picker.dataset.bvid === bvid) {
+        const checked = /** @type {NodeListOf<HTMLInputElement>} */ (
+            picker.querySelectorAll('input:checked')
+        );
+        const selected = Array.from(checked).map((input) => Number(input.value));
+        if (selected.length === 0) {
+            showStatus('请至少选择一个分P', 'error');
+            return null;
+        }
+        return selected;
+    }
+
+    /** @type {VideoPage[]} */
+    let pages = [];
+    try {
+        const response = await sendMessage('getVideoPages', { bvid });
+        if (response.success) pages = response.pages;
+    } catch (error) {
+        console.log('获取分P列表失败:', error);
+    }
+
+    const currentPage = parseBilibiliPage(url);
+    if (pages.length <= 1) {
+        return [currentPage];
+    }
+
+    getElement('part-list').innerHTML = pages
+        .map(
+            (page) => `
+            <label class="part-item">
+                <input type="checkbox" value="${page.page}" ${page.page === currentPage ? 'checked' : ''} />
+                <span>P${page.page} ${page.part}</span>
+                <span class="part-duration">${formatTime(page.duration)}</span>
+            </label>
+        `
+        )
+        .join('');
+    picker.dataset.bvid = bvid;
+    picker.style.display = 'block';
+
+    showStatus(`该视频共有 ${pages.length} 个分P，请选择后再次点击手动匹配`, 'info');
+    return null;
+}
+
+// 查询指定月份有历史弹幕的日期
+async function queryHistoryDates() {
+    const url = getInput('bilibili-url').value.trim();
+    const bvid = parseBilibiliUrl(url);
+    if (!bvid) {
+        showStatus('请先输入B站视频链接', 'error');
+        return;
+    }
+
+    const month = getInput('history-month').value;
+    if (!month) {
+        showStatus('请选择月份', 'error');
+        return;
+    }
+
+    // 多P视频以选中的第一个分P为准
+    const checkedPart = /** @type {HTMLInputElement | null} */ (
+        document.querySelector('#part-list input:checked')
+    );
+    const page = checkedPart ? Number(checkedPart.value) : parseBilibiliPage(url);
+
+    const dateList = getElement('history-date-list');
+    showStatus('正在查询历史弹幕日期...', 'loading');
+
+    try {
+        const response = await sendMessage('getHistoryDates', { bvid, month, page });
+        if (!response.success) {
+            showStatus(response.error || '查询失败', 'error');
+            return;
+        }
+
+        if (response.dates.length === 0) {
+            dateList.innerHTML = '';
+            showStatus('该月没有历史弹幕', 'info');
+            return;
+        }
+
+        dateList.innerHTML = response.dates
+            .map(
+                (date) => `
+            <label class="part-item">
+                <input type="checkbox" value="${date}" />
+                <span>${date}</span>
+            </label>
+        `
+            )
+            .join('');
+        showStatus(`找到 ${response.dates.length} 天的历史弹幕，请选择`, 'info');
+    } catch (error) {
+        showStatus('查询出错：' + /** @type {Error} */ (error).message, 'error');
+    }
+}
+
+// 获取选中的历史弹幕日期
+function getSelectedHistoryDates() {
+    if (!getInput('history-enabled').checked) {
+        return [];
+    }
+    const checked = /** @type {NodeListOf<HTMLInputElement>} */ (
+        document.querySelectorAll('#history-date-list input:checked')
+    );
+    return Array.from(checked).map((input) => input.value);
+}
+
 // 下载弹幕
 async function downloadDanmaku() {
-    const url = document.getElementById('bilibili-url').value.trim();
+    const url = getInput('bilibili-url').value.trim();
     if (!url) {
         showStatus('请输入B站视频链接', 'error');
         return;
@@ -290,50 +821,55 @@ async function downloadDanmaku() {
         return;
     }
 
-    const downloadBtn = document.getElementById('download-btn');
+    const downloadBtn = getButton('download-btn');
     downloadBtn.disabled = true;
+
+    const pages = await resolvePartSelection(bvid, url);
+    if (!pages) {
+        downloadBtn.disabled = false;
+        return;
+    }
+
     showStatus('正在获取弹幕数据...', 'loading');
 
     try {
         // 获取YouTube视频长度
         let youtubeVideoDuration = null;
         try {
-            const tabs = await browser.tabs.query({ active: true, currentWindow: true });
-            if (tabs[0]) {
-                const response = await browser.tabs.sendMessage(tabs[0].id, {
-                    type: 'getVideoDuration'
-                });
-                youtubeVideoDuration = response?.duration;
-            }
+            const response = await sendTabMessage(tab.id, 'getVideoDuration', {});
+            if (response.success) youtubeVideoDuration = response.duration;
         } catch (error) {
             console.log('获取YouTube视频长度失败:', error);
         }
 
         // 发送消息给background script下载弹幕
-        const response = await browser.runtime.sendMessage({
-            type: 'downloadDanmaku',
+        const response = await sendMessage('downloadDanmaku', {
             bvid: bvid,
             youtubeVideoId: youtubeVideoId,
-            youtubeVideoDuration: youtubeVideoDuration
+            youtubeVideoDuration: youtubeVideoDuration,
+            pages: pages,
+            historyDates: getSelectedHistoryDates()
         });
 
         if (response.success) {
-            showStatus(`成功下载 ${response.count} 条弹幕`, 'success');
+            showStatus(
+                formatDownloadStatus(response),
+                response.missingSegments ? 'info' : 'success'
+            );
             updateDanmakuInfo(response.count);
 
             // 重新加载当前页面的弹幕数据
             await checkCurrentPageDanmaku();
 
             // 通知content script加载弹幕
-            browser.tabs.sendMessage(tab.id, {
-                type: 'loadDanmaku',
+            sendTabMessage(tab.id, 'loadDanmaku', {
                 youtubeVideoId: youtubeVideoId
             });
         } else {
             showStatus(response.error || '下载失败', 'error');
         }
     } catch (error) {
-        showStatus('下载出错：' + error.message, 'error');
+        showStatus('下载出错：' + /** @type {Error} */ (error).message, 'error');
     } finally {
         downloadBtn.disabled = false;
     }
@@ -354,26 +890,34 @@ async function checkCurrentPageDanmaku() {
     }
 
     // 检查是否已有弹幕数据
-    const result = await browser.storage.local.get(youtubeVideoId);
-    if (result[youtubeVideoId] && result[youtubeVideoId].danmakus) {
-        const data = result[youtubeVideoId];
-        document.getElementById('bilibili-url').value = data.bilibili_url || '';
+    const response = await sendMessage('getVideoDanmaku', { youtubeVideoId });
+    if (response.success && response.record) {
+        const data = response.record;
+        getInput('bilibili-url').value = data.bilibili_url || '';
         updateDanmakuInfo(data.danmakus.length);
         displayDanmakuList(data.danmakus);
+        updateTimeMapStatus((data.timeMap || []).length);
         updateManualInputUI(true, data.bilibili_url);
 
-        // 当检测到有弹幕数据时，清理可能残留的未匹配状态数据
-        await browser.storage.local.remove(['pendingNoMatchResults', 'pendingSearchResults']);
+        // 当检测到有弹幕数据时，清理后台可能残留的待显示结果
+        sendMessage('clearSearchResults', {}).catch((error) =>
+            console.log('清理搜索结果失败:', error)
+        );
     } else {
         updateManualInputUI(false);
     }
 }
 
 // 更新手动输入区域UI状态
+/**
+ * @param {boolean} hasData
+ * @param {string} [bilibiliUrl]
+ * @param {NoMatchInfo | null} [noMatchData]
+ */
 function updateManualInputUI(hasData, bilibiliUrl = '', noMatchData = null) {
-    const label = document.getElementById('bilibili-url-label');
-    const viewBtn = document.getElementById('view-bilibili-btn');
-    const spaceBtn = document.getElementById('view-bilibili-space-btn');
+    const label = getElement('bilibili-url-label');
+    const viewBtn = getElement('view-bilibili-btn');
+    const spaceBtn = getElement('view-bilibili-space-btn');
 
     if (noMatchData) {
         // 未匹配状态：显示提示和B站空间按钮
@@ -401,6 +945,7 @@ function updateManualInputUI(hasData, bilibiliUrl = '', noMatchData = null) {
 }
 
 // 打开B站视频页面
+/** @param {string} url */
 function openBilibiliVideo(url) {
     if (url) {
         browser.tabs.create({ url: url });
@@ -408,6 +953,7 @@ function openBilibiliVideo(url) {
 }
 
 // 打开B站空间页面
+/** @param {NoMatchInfo} noMatchData */
 async function openBilibiliSpace(noMatchData) {
     try {
         // 获取频道映射信息
@@ -429,9 +975,10 @@ async function openBilibiliSpace(noMatchData) {
 }
 
 // 显示弹幕列表
+/** @param {Danmaku[]} danmakus */
 function displayDanmakuList(danmakus) {
-    const container = document.getElementById('danmaku-list-container');
-    const list = document.getElementById('danmaku-list');
+    const container = getElement('danmaku-list-container');
+    const list = getElement('danmaku-list');
 
     if (!danmakus || danmakus.length === 0) {
         container.classList.remove('show');
@@ -440,13 +987,6 @@ function displayDanmakuList(danmakus) {
 
     container.classList.add('show');
 
-    // 格式化时间
-    const formatTime = (seconds) => {
-        const mins = Math.floor(seconds / 60);
-        const secs = Math.floor(seconds % 60);
-        return `${mins}:${secs.toString().padStart(2, '0')}`;
-    };
-
     // 渲染弹幕列表
     const renderList = (filterText = '') => {
         const filtered = filterText
@@ -459,6 +999,12 @@ function displayDanmakuList(danmakus) {
             <div class="danmaku-item" data-time="${danmaku.time}">
                 <span class="danmaku-time">${formatTime(danmaku.time)}</span>
                 <span class="danmaku-text">${danmaku.text}</span>
+                <button class="danmaku-anchor-btn" title="让这条弹幕在当前播放位置出现">对齐</button>
+                ${
+                    danmaku.midHash
+                        ? `<button class="danmaku-block-btn" data-mid-hash="${danmaku.midHash}" title="屏蔽该用户的所有弹幕">屏蔽</button>`
+                        : ''
+                }
             </div>
         `
             )
@@ -468,28 +1014,86 @@ function displayDanmakuList(danmakus) {
     renderList();
 
     // 搜索功能
-    const searchInput = document.getElementById('danmaku-search');
-    searchInput.addEventListener('input', (e) => {
-        renderList(e.target.value);
+    const searchInput = getInput('danmaku-search');
+    searchInput.addEventListener('input', () => {
+        renderList(searchInput.value);
     });
 
-    // 点击跳转功能
+    // 点击跳转功能，点击"对齐"按钮则添加时间映射锚点
     list.addEventListener('click', async (e) => {
-        const item = e.target.closest('.danmaku-item');
+        const target = /** @type {HTMLElement} */ (e.target);
+        const item = /** @type {HTMLElement | null} */ (target.closest('.danmaku-item'));
         if (!item) return;
 
-        const time = parseFloat(item.dataset.time);
+        const blockBtn = /** @type {HTMLElement | null} */ (target.closest('.danmaku-block-btn'));
+        if (blockBtn?.dataset.midHash) {
+            await addBlockRule('user', blockBtn.dataset.midHash);
+            return;
+        }
+
+        const time = parseFloat(item.dataset.time ?? '');
         const tab = await getCurrentTab();
 
-        if (tab && tab.url.includes('youtube.com')) {
-            browser.tabs.sendMessage(tab.id, {
-                type: 'seekToTime',
-                time: time
-            });
+        if (!tab || !tab.url.includes('youtube.com')) return;
+
+        if (target.closest('.danmaku-anchor-btn')) {
+            await addTimeAnchor(tab.id, time);
+            return;
         }
+
+        sendTabMessage(tab.id, 'seekToTime', {
+            time: time
+        });
     });
 }
 
+// 添加时间映射锚点：让指定时间的弹幕在当前播放位置出现
+/**
+ * @param {number} tabId
+ * @param {number} bilibiliTime
+ */
+async function addTimeAnchor(tabId, bilibiliTime) {
+    try {
+        const response = await sendTabMessage(tabId, 'addTimeAnchor', { bilibiliTime });
+        if (!response.success) {
+            showStatus(response.error || '添加锚点失败', 'error');
+            return;
+        }
+
+        updateTimeMapStatus(response.anchors.length);
+        showStatus(`已将 ${formatTime(bilibiliTime)} 的弹幕对齐到当前位置`, 'success');
+    } catch (error) {
+        showStatus('添加锚点失败: ' + /** @type {Error} */ (error).message, 'error');
+    }
+}
+
+// 清除当前视频的时间映射锚点
+async function clearTimeAnchors() {
+    const tab = await getCurrentTab();
+    if (!tab || !tab.url.includes('youtube.com')) return;
+
+    try {
+        const response = await sendTabMessage(tab.id, 'clearTimeAnchors', {});
+        if (!response.success) {
+            showStatus(response.error || '清除锚点失败', 'error');
+            return;
+        }
+
+        updateTimeMapStatus(0);
+        showStatus('已清除时间映射锚点', 'success');
+    } catch (error) {
+        showStatus('清除锚点失败: ' + /** @type {Error} */ (error).message, 'error');
+    }
+}
+
+// 更新时间映射锚点数量显示
+/** @param {number} anchorCount */
+function updateTimeMapStatus(anchorCount) {
+    const status = getElement('time-map-status');
+    getElement('time-map-count').textContent = `${anchorCount} 个时间锚点`;
+    status.classList.toggle('show', anchorCount > 0);
+}
+
 // 获取YouTube页面信息（增强版）
 async function getPageInfo(useCache = true) {
     try {
@@ -501,9 +1105,7 @@ async function getPageInfo(useCache = true) {
         // 优先从background获取缓存的准确信息
         if (useCache) {
             try {
-                const backgroundResponse = await browser.runtime.sendMessage({
-                    type: 'getPageInfoFromBackground'
-                });
+                const backgroundResponse = await sendMessage('getPageInfoFromBackground', {});
 
                 if (backgroundResponse && backgroundResponse.success) {
                     console.log('从background获取页面信息成功:', {
@@ -526,9 +1128,7 @@ async function getPageInfo(useCache = true) {
 
         // fallback：直接从content script获取
         console.log('直接从content script获取页面信息');
-        const response = await browser.tabs.sendMessage(tab.id, {
-            type: 'getPageInfo'
-        });
+        const response = await sendTabMessage(tab.id, 'getPageInfo', {});
 
         if (response && response.success) {
             // 验证获取到的信息
@@ -571,8 +1171,7 @@ async function smartSearchAndAssociate() {
         showStatus('正在搜索B站UP主...', 'loading');
 
         // 第一步：搜索UP主
-        const userSearchResponse = await browser.runtime.sendMessage({
-            type: 'searchBilibiliUser',
+        const userSearchResponse = await sendMessage('searchBilibiliUser', {
             keyword: channelName
         });
 
@@ -583,8 +1182,7 @@ async function smartSearchAndAssociate() {
             // 没找到UP主，进行视频全站搜索
             showStatus('未找到对应UP主，正在搜索相关视频...', 'loading');
 
-            const videoSearchResponse = await browser.runtime.sendMessage({
-                type: 'searchBilibiliVideoGlobal',
+            const videoSearchResponse = await sendMessage('searchBilibiliVideoGlobal', {
                 keyword: videoTitle
             });
 
@@ -596,15 +1194,19 @@ async function smartSearchAndAssociate() {
         }
     } catch (error) {
         console.error('智能搜索失败:', error);
-        showStatus('智能搜索失败：' + error.message, 'error');
+        showStatus('智能搜索失败：' + /** @type {Error} */ (error).message, 'error');
     }
 }
 
 // 显示UP主搜索结果
+/**
+ * @param {BilibiliUserSearchResult[]} users
+ * @param {PageInfo} pageInfo
+ */
 function displayUserSearchResults(users, pageInfo) {
-    const searchResults = document.getElementById('search-results');
-    const searchStatus = document.getElementById('search-status');
-    const searchList = document.getElementById('search-list');
+    const searchResults = getElement('search-results');
+    const searchStatus = getElement('search-status');
+    const searchList = getElement('search-list');
 
     searchResults.style.display = 'block';
     searchStatus.textContent = `找到${users.length}个可能的UP主，请选择：`;
@@ -629,43 +1231,49 @@ function displayUserSearchResults(users, pageInfo) {
         .join('');
 
     // 绑定点击事件
-    searchList.querySelectorAll('.user-item').forEach((item) => {
-        item.addEventListener('click', async () => {
-            const mid = item.dataset.mid;
-            const spaceUrl = item.dataset.spaceUrl;
-
-            // 关联UP主
-            const associationData = {
-                bilibiliUID: mid,
-                bilibiliName: item.querySelector('.search-item-title').textContent,
-                bilibiliSpaceUrl: spaceUrl
-            };
+    /** @type {NodeListOf<HTMLElement>} */ (searchList.querySelectorAll('.user-item')).forEach(
+        (item) => {
+            item.addEventListener('click', async () => {
+                const mid = item.dataset.mid ?? '';
+                const spaceUrl = item.dataset.spaceUrl;
 
-            const success = await channelAssociation.saveChannelAssociation(
-                pageInfo.channel.channelId,
-                associationData
-            );
-            if (success) {
-                showStatus('关联成功', 'success');
-                searchResults.style.display = 'none';
-                checkAssociation(pageInfo.channel.channelId);
-
-                // 关联成功后自动搜索弹幕
-                setTimeout(() => {
-                    autoSearchDanmaku(true);
-                }, 500);
-            } else {
-                showStatus('关联失败', 'error');
-            }
-        });
-    });
+                // 关联UP主
+                const associationData = {
+                    bilibiliUID: mid,
+                    bilibiliName: item.querySelector('.search-item-title')?.textContent ?? '',
+                    bilibiliSpaceUrl: spaceUrl
+                };
+
+                const success = await channelAssociation.saveChannelAssociation(
+                    pageInfo.channel.channelId,
+                    associationData
+                );
+                if (success) {
+                    showStatus('关联成功', 'success');
+                    searchResults.style.display = 'none';
+                    checkAssociation(pageInfo.channel.channelId);
+
+                    // 关联成功后自动搜索弹幕
+                    setTimeout(() => {
+                        autoSearchDanmaku(true);
+                    }, 500);
+                } else {
+                    showStatus('关联失败', 'error');
+                }
+            });
+        }
+    );
 }
 
 // 显示全站视频搜索结果
+/**
+ * @param {BilibiliGlobalSearchResult[]} videos
+ * @param {string} youtubeVideoId
+ */
 function displayVideoSearchResults(videos, youtubeVideoId) {
-    const searchResults = document.getElementById('search-results');
-    const searchStatus = document.getElementById('search-status');
-    const searchList = document.getElementById('search-list');
+    const searchResults = getElement('search-results');
+    const searchStatus = getElement('search-status');
+    const searchList = getElement('search-list');
 
     searchResults.style.display = 'block';
     searchStatus.textContent = `找到${videos.length}个相关视频：`;
@@ -687,51 +1295,54 @@ function displayVideoSearchResults(videos, youtubeVideoId) {
         .join('');
 
     // 绑定点击事件
-    searchList.querySelectorAll('.video-item').forEach((item) => {
-        item.addEventListener('click', () => {
-            const bvid = item.dataset.bvid;
-            const mid = item.dataset.mid;
-            const author = item.dataset.author;
-
-            // 显示选项：直接下载弹幕或关联UP主
-            if (
-                confirm(
-                    `是否关联UP主 "${author}"？\n\n点击"确定"将关联此UP主，方便后续自动搜索。\n点击"取消"仅下载本视频弹幕。`
-                )
-            ) {
-                // 关联UP主
-                (async () => {
-                    const pageInfo = await getPageInfo();
-                    if (pageInfo && pageInfo.channel.success) {
-                        const associationData = {
-                            bilibiliUID: mid,
-                            bilibiliName: author,
-                            bilibiliSpaceUrl: `https://space.bilibili.com/${mid}`
-                        };
-
-                        const success = await channelAssociation.saveChannelAssociation(
-                            pageInfo.channel.channelId,
-                            associationData
-                        );
-                        if (success) {
-                            showStatus('关联成功，正在下载弹幕...', 'loading');
-                            downloadDanmakuFromBV(bvid, youtubeVideoId);
+    /** @type {NodeListOf<HTMLElement>} */ (searchList.querySelectorAll('.video-item')).forEach(
+        (item) => {
+            item.addEventListener('click', () => {
+                const bvid = item.dataset.bvid ?? '';
+                const mid = item.dataset.mid ?? '';
+                const author = item.dataset.author;
+
+                // 显示选项：直接下载弹幕或关联UP主
+                if (
+                    confirm(
+                        `是否关联UP主 "${author}"？\n\n点击"确定"将关联此UP主，方便后续自动搜索。\n点击"取消"仅下载本视频弹幕。`
+                    )
+                ) {
+                    // 关联UP主
+                    (async () => {
+                        const pageInfo = await getPageInfo();
+                        if (pageInfo && pageInfo.channel.success) {
+                            const associationData = {
+                                bilibiliUID: mid,
+                                bilibiliName: author,
+                                bilibiliSpaceUrl: `https://space.bilibili.com/${mid}`
+                            };
+
+                            const success = await channelAssociation.saveChannelAssociation(
+                                pageInfo.channel.channelId,
+                                associationData
+                            );
+                            if (success) {
+                                showStatus('关联成功，正在下载弹幕...', 'loading');
+                                downloadDanmakuFromBV(bvid, youtubeVideoId);
+                            }
                         }
-                    }
-                })();
-            } else {
-                // 仅下载弹幕
-                downloadDanmakuFromBV(bvid, youtubeVideoId);
-            }
-        });
-    });
+                    })();
+                } else {
+                    // 仅下载弹幕
+                    downloadDanmakuFromBV(bvid, youtubeVideoId);
+                }
+            });
+        }
+    );
 }
 
 // 显示频道信息
+/** @param {PageInfo | null} pageInfo */
 function displayChannelInfo(pageInfo) {
-    const channelInfoDiv = document.getElementById('channel-info');
-    const associationSection = document.getElementById('association-section');
-    const manualInputSection = document.getElementById('manual-input');
+    const channelInfoDiv = getElement('channel-info');
+    const associationSection = getElement('association-section');
+    const manualInputSection = getElement('manual-input');
 
     if (!pageInfo || !pageInfo.channel.success) {
         channelInfoDiv.style.display = 'none';
@@ -746,12 +1357,13 @@ function displayChannelInfo(pageInfo) {
         channel.channelId === '@MadeByBilibili' || channel.channelName === 'MadeByBilibili';
 
     // 显示频道信息
-    document.getElementById('channel-avatar').src = channel.channelAvatar || '';
+    /** @type {HTMLImageElement} */ (getElement('channel-avatar')).src =
+        channel.channelAvatar || '';
     // 番剧频道显示特殊名称
-    document.getElementById('channel-name').textContent = isBangumiChannel
+    getElement('channel-name').textContent = isBangumiChannel
         ? '哔哩哔哩动画'
         : channel.channelName || '未知频道';
-    document.getElementById('channel-id').textContent = `ID: ${channel.channelId || '未知'}`;
+    getElement('channel-id').textContent = `ID: ${channel.channelId || '未知'}`;
 
     channelInfoDiv.style.display = 'block';
 
@@ -761,7 +1373,7 @@ function displayChannelInfo(pageInfo) {
         manualInputSection.style.display = 'none';
 
         // 隐藏关联状态（未关联按钮等）
-        const associationStatus = document.getElementById('association-status');
+        const associationStatus = getElement('association-status');
         if (associationStatus) {
             associationStatus.style.display = 'none';
         }
@@ -773,7 +1385,7 @@ function displayChannelInfo(pageInfo) {
         manualInputSection.style.display = 'block';
 
         // 显示关联状态
-        const associationStatus = document.getElementById('association-status');
+        const associationStatus = getElement('association-status');
         if (associationStatus) {
             associationStatus.style.display = 'block';
         }
@@ -784,14 +1396,15 @@ function displayChannelInfo(pageInfo) {
 }
 
 // 检查关联状态
+/** @param {string} channelId */
 async function checkAssociation(channelId) {
     try {
         const association = await channelAssociation.getChannelAssociation(channelId);
 
-        const statusText = document.querySelector('.status-text');
-        const associationSection = document.getElementById('association-section');
-        const associatedInfoDiv = document.getElementById('associated-info');
-        const associatedUid = document.getElementById('associated-uid');
+        const statusText = /** @type {HTMLElement} */ (document.querySelector('.status-text'));
+        const associationSection = getElement('association-section');
+        const associatedInfoDiv = getElement('associated-info');
+        const associatedUid = getElement('associated-uid');
 
         if (association) {
             // 已关联 - 隐藏关联卡片，显示UID信息
@@ -830,6 +1443,7 @@ async function checkAssociation(channelId) {
 }
 
 // 解析B站空间链接 - 现在使用工具类方法
+/** @param {string} url */
 function parseBilibiliSpaceUrl(url) {
     if (typeof channelAssociation !== 'undefined') {
         return channelAssociation.parseBilibiliSpaceUrl(url);
@@ -841,7 +1455,7 @@ function parseBilibiliSpaceUrl(url) {
 
 // 关联UP主
 async function associateUploader() {
-    const spaceUrl = document.getElementById('bilibili-space-url').value.trim();
+    const spaceUrl = getInput('bilibili-space-url').value.trim();
     if (!spaceUrl) {
         showStatus('请输入B站UP主空间链接', 'error');
         return;
@@ -884,7 +1498,7 @@ async function associateUploader() {
         checkAssociation(channelId);
     } catch (error) {
         console.error('关联失败:', error);
-        showStatus('关联失败：' + error.message, 'error');
+        showStatus('关联失败：' + /** @type {Error} */ (error).message, 'error');
     }
 }
 
@@ -910,7 +1524,7 @@ async function unassociateUploader() {
         checkAssociation(channelId);
     } catch (error) {
         console.error('取消关联失败:', error);
-        showStatus('取消关联失败：' + error.message, 'error');
+        showStatus('取消关联失败：' + /** @type {Error} */ (error).message, 'error');
     }
 }
 
@@ -942,8 +1556,7 @@ async function autoSearchDanmaku(silent = false) {
         if (!silent) showStatus('正在搜索B站视频...', 'loading');
 
         // 发送搜索请求到background script
-        const searchResponse = await browser.runtime.sendMessage({
-            type: 'searchBilibiliVideo',
+        const searchResponse = await sendMessage('searchBilibiliVideo', {
             bilibiliUID: association.bilibiliUID,
             videoTitle: videoTitle,
             youtubeVideoId: pageInfo.videoId
@@ -958,16 +1571,20 @@ async function autoSearchDanmaku(silent = false) {
         }
     } catch (error) {
         console.error('自动搜索失败:', error);
-        if (!silent) showStatus('搜索失败：' + error.message, 'error');
+        if (!silent) showStatus('搜索失败：' + /** @type {Error} */ (error).message, 'error');
         return false;
     }
 }
 
 // 显示搜索结果
+/**
+ * @param {BilibiliSearchResult[]} results
+ * @param {string} youtubeVideoId
+ */
 function displaySearchResults(results, youtubeVideoId) {
-    const searchResults = document.getElementById('search-results');
-    const searchStatus = document.getElementById('search-status');
-    const searchList = document.getElementById('search-list');
+    const searchResults = getElement('search-results');
+    const searchStatus = getElement('search-status');
+    const searchList = getElement('search-list');
 
     searchResults.style.display = 'block';
 
@@ -983,7 +1600,7 @@ function displaySearchResults(results, youtubeVideoId) {
         searchStatus.textContent = `找到${results.length}个匹配视频，请选择：`;
         searchList.innerHTML = results
             .map(
-                (video, index) => `
+                (video) => `
             <div class="search-item" data-bvid="${video.bvid}">
                 <div class="search-item-cover">
                     <img src="${video.pic || ''}" alt="视频封面" onerror="this.style.display='none'">
@@ -998,15 +1615,18 @@ function displaySearchResults(results, youtubeVideoId) {
             .join('');
 
         // 绑定点击事件
-        searchList.querySelectorAll('.search-item').forEach((item) => {
+        const items = /** @type {NodeListOf<HTMLElement>} */ (
+            searchList.querySelectorAll('.search-item')
+        );
+        items.forEach((item) => {
             item.addEventListener('click', () => {
-                const bvid = item.dataset.bvid;
+                const bvid = item.dataset.bvid ?? '';
 
                 // 立即显示loading状态
                 item.classList.add('loading');
 
                 // 禁用其他选项
-                searchList.querySelectorAll('.search-item').forEach((otherItem) => {
+                items.forEach((otherItem) => {
                     if (otherItem !== item) {
                         otherItem.style.opacity = '0.3';
                         otherItem.style.pointerEvents = 'none';
@@ -1023,53 +1643,11 @@ function displaySearchResults(results, youtubeVideoId) {
     }
 }
 
-// 检查待显示的搜索结果（作为备用方案）
-async function checkPendingSearchResults() {
-    try {
-        const result = await browser.storage.local.get('pendingSearchResults');
-        const pendingResults = result.pendingSearchResults;
-
-        if (pendingResults && pendingResults.results && pendingResults.results.length > 0) {
-            console.log('发现待显示的搜索结果:', pendingResults.results.length);
-
-            // 显示搜索结果
-            displaySearchResults(pendingResults.results, pendingResults.youtubeVideoId);
-
-            // 显示相关信息
-            showStatus(`找到 ${pendingResults.results.length} 个匹配的B站视频，请选择：`, 'info');
-
-            // 清理已显示的结果
-            await browser.storage.local.remove('pendingSearchResults');
-        }
-    } catch (error) {
-        console.error('检查待显示搜索结果失败:', error);
-    }
-}
-
-// 检查待显示的未匹配结果（作为备用方案）
-async function checkPendingNoMatchResults() {
-    try {
-        const result = await browser.storage.local.get('pendingNoMatchResults');
-        const pendingNoMatchResults = result.pendingNoMatchResults;
-
-        if (pendingNoMatchResults) {
-            console.log('发现待显示的未匹配结果:', pendingNoMatchResults.channelInfo);
-
-            // 更新手动输入UI显示未匹配状态
-            updateManualInputUI(false, '', pendingNoMatchResults);
-
-            // 显示相关信息
-            showStatus('未找到匹配的B站视频，请手动输入或查看B站空间', 'info');
-
-            // 清理已显示的结果
-            await browser.storage.local.remove('pendingNoMatchResults');
-        }
-    } catch (error) {
-        console.error('检查待显示未匹配结果失败:', error);
-    }
-}
-
 // 解析番剧标题和集数
+/**
+ * @param {string} videoTitle
+ * @returns {{ isValid: true; title: string; episode: number } | { isValid: false }}
+ */
 function parseBangumiTitle(videoTitle) {
     // 匹配 《标题》第x话：格式，确保"话"后面有冒号
     const match = videoTitle.match(/《(.+?)》第(\d+)话：/);
@@ -1084,10 +1662,8 @@ function parseBangumiTitle(videoTitle) {
 }
 
 // 显示番剧界面
+/** @param {PageInfo} pageInfo */
 function displayBangumiInterface(pageInfo) {
-    // 保存当前页面信息供其他函数使用
-    currentPageInfo = pageInfo;
-
     // 创建番剧专用的界面元素
     const existingBangumiSection = document.getElementById('bangumi-section');
     if (existingBangumiSection) {
@@ -1116,11 +1692,11 @@ function displayBangumiInterface(pageInfo) {
         `;
 
         // 插入到频道信息后面
-        const channelInfo = document.getElementById('channel-info');
-        channelInfo.parentNode.insertBefore(bangumiSection, channelInfo.nextSibling);
+        const channelInfo = getElement('channel-info');
+        channelInfo.after(bangumiSection);
 
         // 绑定按钮事件和悬停效果
-        const updateButton = document.getElementById('update-bangumi-btn');
+        const updateButton = getButton('update-bangumi-btn');
         updateButton.onclick = () =>
             downloadBangumiDanmakuFromUI(parseResult.title, parseResult.episode, pageInfo.videoId);
 
@@ -1140,26 +1716,24 @@ function displayBangumiInterface(pageInfo) {
         `;
 
         // 插入到频道信息后面
-        const channelInfo = document.getElementById('channel-info');
-        channelInfo.parentNode.insertBefore(bangumiSection, channelInfo.nextSibling);
+        const channelInfo = getElement('channel-info');
+        channelInfo.after(bangumiSection);
     }
 }
 
-// 获取当前页面信息（简化版本）
-let currentPageInfo = null;
-function getCurrentPageInfo() {
-    return currentPageInfo;
-}
-
 // 从UI下载番剧弹幕
+/**
+ * @param {string} title
+ * @param {number} episodeNumber
+ * @param {string} youtubeVideoId
+ */
 async function downloadBangumiDanmakuFromUI(title, episodeNumber, youtubeVideoId) {
     try {
-        const updateButton = document.getElementById('update-bangumi-btn');
+        const updateButton = getButton('update-bangumi-btn');
         updateButton.disabled = true;
         updateButton.textContent = '更新中...';
 
-        const response = await browser.runtime.sendMessage({
-            type: 'downloadBangumiDanmaku',
+        const response = await sendMessage('downloadBangumiDanmaku', {
             title: title,
             episodeNumber: episodeNumber,
             youtubeVideoId: youtubeVideoId
@@ -1174,8 +1748,7 @@ async function downloadBangumiDanmakuFromUI(title, episodeNumber, youtubeVideoId
             // 通知content script加载弹幕
             const tab = await getCurrentTab();
             if (tab && tab.url.includes('youtube.com')) {
-                browser.tabs.sendMessage(tab.id, {
-                    type: 'loadDanmaku',
+                sendTabMessage(tab.id, 'loadDanmaku', {
                     youtubeVideoId: youtubeVideoId
                 });
             }
@@ -1193,17 +1766,21 @@ async function downloadBangumiDanmakuFromUI(title, episodeNumber, youtubeVideoId
         }
     } catch (error) {
         console.error('下载番剧弹幕失败:', error);
-        showStatus('下载失败：' + error.message, 'error');
+        showStatus('下载失败：' + /** @type {Error} */ (error).message, 'error');
 
-        const updateButton = document.getElementById('update-bangumi-btn');
+        const updateButton = getButton('update-bangumi-btn');
         updateButton.textContent = '重试更新';
     } finally {
-        const updateButton = document.getElementById('update-bangumi-btn');
+        const updateButton = getButton('update-bangumi-btn');
         updateButton.disabled = false;
     }
 }
 
 // 从BVID下载弹幕
+/**
+ * @param {string} bvid
+ * @param {string | null} [youtubeVideoId]
+ */
 async function downloadDanmakuFromBV(bvid, youtubeVideoId = null) {
     try {
         // 总是需要获取tab对象，因为后续需要tab.id发送消息给content script
@@ -1235,10 +1812,8 @@ async function downloadDanmakuFromBV(bvid, youtubeVideoId = null) {
         // 获取YouTube视频长度
         let youtubeVideoDuration = null;
         try {
-            const response = await browser.tabs.sendMessage(tab.id, {
-                type: 'getVideoDuration'
-            });
-            youtubeVideoDuration = response?.duration;
+            const response = await sendTabMessage(tab.id, 'getVideoDuration', {});
+            if (response.success) youtubeVideoDuration = response.duration;
         } catch (error) {
             console.log('获取YouTube视频长度失败:', error);
         }
@@ -1254,33 +1829,34 @@ async function downloadDanmakuFromBV(bvid, youtubeVideoId = null) {
 
         showStatus('正在下载弹幕...', 'loading');
 
-        const response = await browser.runtime.sendMessage({
-            type: 'downloadDanmaku',
+        const response = await sendMessage('downloadDanmaku', {
             bvid: bvid,
             youtubeVideoId: youtubeVideoId,
             youtubeVideoDuration: youtubeVideoDuration
         });
 
         if (response.success) {
-            showStatus(`成功下载 ${response.count} 条弹幕，正在加载...`, 'success');
+            showStatus(
+                `${formatDownloadStatus(response)}，正在加载...`,
+                response.missingSegments ? 'info' : 'success'
+            );
             updateDanmakuInfo(response.count);
 
             // 重新加载当前页面的弹幕数据
             await checkCurrentPageDanmaku();
 
             // 通知content script加载弹幕
-            browser.tabs.sendMessage(tab.id, {
-                type: 'loadDanmaku',
+            sendTabMessage(tab.id, 'loadDanmaku', {
                 youtubeVideoId: youtubeVideoId
             });
 
             // 隐藏搜索结果
-            document.getElementById('search-results').style.display = 'none';
+            getElement('search-results').style.display = 'none';
 
             // 清理后台的搜索结果数据
-            browser.runtime
-                .sendMessage({ type: 'clearSearchResults' })
-                .catch((error) => console.log('清理搜索结果失败:', error));
+            sendMessage('clearSearchResults', {}).catch((error) =>
+                console.log('清理搜索结果失败:', error)
+            );
 
             // 显示完成状态，然后自动关闭popup
             setTimeout(() => {
@@ -1295,55 +1871,59 @@ async function downloadDanmakuFromBV(bvid, youtubeVideoId = null) {
         }
     } catch (error) {
         console.error('下载弹幕失败:', error);
-        showStatus('下载失败：' + error.message, 'error');
+        showStatus('下载失败：' + /** @type {Error} */ (error).message, 'error');
     }
 }
 
 // 立即设置消息监听器，不等待DOM加载
-browser.runtime.onMessage.addListener((request, sender, sendResponse) => {
-    if (request.type === 'displayMultipleResults') {
-        console.log('收到搜索结果消息:', request.data.results.length);
+/** @type {PopupMessageHandlers} */
+const popupMessageHandlers = {
+    displayMultipleResults: ({ results, youtubeVideoId }) => {
+        console.log('收到搜索结果消息:', results.length);
+
+        const show = () => {
+            displaySearchResults(results, youtubeVideoId);
+            showStatus(`找到 ${results.length} 个匹配的B站视频，请选择：`, 'info');
+        };
 
         // 如果DOM还未加载完成，等待一下
         if (document.readyState === 'loading') {
-            document.addEventListener('DOMContentLoaded', () => {
-                displaySearchResults(request.data.results, request.data.youtubeVideoId);
-                showStatus(`找到 ${request.data.results.length} 个匹配的B站视频，请选择：`, 'info');
-            });
+            document.addEventListener('DOMContentLoaded', show);
         } else {
             // DOM已就绪，直接显示
-            displaySearchResults(request.data.results, request.data.youtubeVideoId);
-            showStatus(`找到 ${request.data.results.length} 个匹配的B站视频，请选择：`, 'info');
+            show();
         }
 
-        sendResponse({ success: true });
-    } else if (request.type === 'displayNoMatchResults') {
-        console.log('收到未匹配结果消息:', request.data);
+        return { success: true };
+    },
+
+    displayNoMatchResults: (noMatchData) => {
+        console.log('收到未匹配结果消息:', noMatchData);
+
+        const show = () => {
+            updateManualInputUI(false, '', noMatchData);
+            showStatus('未找到匹配的B站视频，请手动输入或查看B站空间', 'info');
+        };
 
         // 如果DOM还未加载完成，等待一下
         if (document.readyState === 'loading') {
-            document.addEventListener('DOMContentLoaded', () => {
-                updateManualInputUI(false, '', request.data);
-                showStatus('未找到匹配的B站视频，请手动输入或查看B站空间', 'info');
-            });
+            document.addEventListener('DOMContentLoaded', show);
         } else {
             // DOM已就绪，直接显示
-            updateManualInputUI(false, '', request.data);
-            showStatus('未找到匹配的B站视频，请手动输入或查看B站空间', 'info');
+            show();
         }
 
-        sendResponse({ success: true });
+        return { success: true };
     }
+};
 
-    return true; // 保持消息通道开启
-});
+browser.runtime.onMessage.addListener(createMessageRouter(popupMessageHandlers));
 
 // 消息监听器设置完成后，立即通知background popup已准备好
 console.log('消息监听器已设置，通知background popup准备完成');
-browser.runtime
-    .sendMessage({ type: 'popupReady' })
+sendMessage('popupReady', {})
     .then((response) => {
-        if (response && response.success) {
+        if (response.success && response.hasPending) {
             console.log('成功通知background popup已准备完成');
         } else {
             console.log('background暂无待显示的搜索结果');
@@ -1358,8 +1938,8 @@ async function checkPageTypeAndToggleUI() {
     const tab = await getCurrentTab();
     const isYouTubePage = tab && tab.url && tab.url.includes('youtube.com');
 
-    const simpleContainer = document.getElementById('simple-container');
-    const mainContainer = document.getElementById('main-container');
+    const simpleContainer = getElement('simple-container');
+    const mainContainer = getElement('main-container');
 
     if (isYouTubePage) {
         // 是YouTube页面，显示完整功能界面
@@ -1376,7 +1956,7 @@ async function checkPageTypeAndToggleUI() {
 
 // 显示页面信息刷新按钮
 function showPageInfoRefreshButton() {
-    const channelInfoDiv = document.getElementById('channel-info');
+    const channelInfoDiv = getElement('channel-info');
     if (!channelInfoDiv) return;
 
     // 检查是否已经有刷新按钮
@@ -1397,8 +1977,8 @@ function showPageInfoRefreshButton() {
     `;
 
     // 绑定刷新事件
-    document.getElementById('refresh-page-info-btn').addEventListener('click', async () => {
-        const button = document.getElementById('refresh-page-info-btn');
+    getButton('refresh-page-info-btn').addEventListener('click', async () => {
+        const button = getButton('refresh-page-info-btn');
         const originalText = button.textContent;
 
         button.textContent = '刷新中...';
@@ -1418,7 +1998,7 @@ function showPageInfoRefreshButton() {
             }
         } catch (error) {
             console.error('刷新页面信息失败:', error);
-            showStatus('刷新失败: ' + error.message, 'error');
+            showStatus('刷新失败: ' + /** @type {Error} */ (error).message, 'error');
             button.textContent = originalText;
             button.disabled = false;
         }
@@ -1441,7 +2021,7 @@ document.addEventListener('DOMContentLoaded', async () => {
     await initSocialIcons();
 
     // 绑定YouTube按钮事件
-    document.getElementById('open-youtube-btn').addEventListener('click', openYouTube);
+    getElement('open-youtube-btn').addEventListener('click', openYouTube);
 
     // 如果不是YouTube页面，不需要执行后续的初始化逻辑
     if (!isYouTubePage) {
@@ -1449,6 +2029,9 @@ document.addEventListener('DOMContentLoaded', async () => {
     }
 
     await loadSettings();
+    await loadBlockRules();
+    await loadDensityStats();
+    await loadStoreStats();
     await checkCurrentPageDanmaku();
 
     // 获取并显示页面信息
@@ -1460,33 +2043,44 @@ document.addEventListener('DOMContentLoaded', async () => {
         showPageInfoRefreshButton();
     }
 
-    // 检查storage中的备用数据（防止遗漏）
-    await checkPendingSearchResults();
-    await checkPendingNoMatchResults();
-
     // 绑定事件
-    document.getElementById('download-btn').addEventListener('click', downloadDanmaku);
-    document.getElementById('associate-btn').addEventListener('click', associateUploader);
-    document.getElementById('unassociate-btn').addEventListener('click', unassociateUploader);
-    document.getElementById('auto-search-btn').addEventListener('click', autoSearchDanmaku);
-    document.getElementById('smart-search-btn').addEventListener('click', smartSearchAndAssociate);
+    getButton('download-btn').addEventListener('click', downloadDanmaku);
+    getInput('bilibili-url').addEventListener('input', () => {
+        resetPartPicker();
+        getElement('history-date-list').innerHTML = '';
+    });
+    getInput('history-enabled').addEventListener('change', () => {
+        getElement('history-options').style.display = getInput('history-enabled').checked
+            ? 'block'
+            : 'none';
+    });
+    getElement('history-query-btn').addEventListener('click', queryHistoryDates);
+    getElement('time-map-clear-btn').addEventListener('click', clearTimeAnchors);
+    getElement('associate-btn').addEventListener('click', associateUploader);
+    getElement('unassociate-btn').addEventListener('click', unassociateUploader);
+    getElement('auto-search-btn').addEventListener('click', () => autoSearchDanmaku());
+    getElement('smart-search-btn').addEventListener('click', smartSearchAndAssociate);
 
     // 设置变更事件
-    document.getElementById('enable-danmaku').addEventListener('change', saveSettings);
-    document.getElementById('time-offset').addEventListener('input', () => {
+    getInput('enable-danmaku').addEventListener('change', saveSettings);
+    getInput('auto-align').addEventListener('change', saveSettings);
+    getInput('avoid-overlays').addEventListener('change', saveSettings);
+    getInput('auto-scale').addEventListener('change', saveSettings);
+    getInput('merge-repeats').addEventListener('change', saveSettings);
+    getInput('time-offset').addEventListener('input', () => {
         updateSliderValues();
         saveSettings();
     });
 
     // 手动输入框事件监听器
-    const timeOffsetInput = document.getElementById('time-offset-input');
+    const timeOffsetInput = getInput('time-offset-input');
     if (timeOffsetInput) {
         timeOffsetInput.addEventListener('input', () => {
             let value = parseFloat(timeOffsetInput.value) || 0;
 
             // 同步滑块（滑块有范围限制-60到60）
             const sliderValue = Math.max(-60, Math.min(60, value));
-            document.getElementById('time-offset').value = sliderValue;
+            getInput('time-offset').value = String(sliderValue);
 
             // 更新重置按钮显示状态
             updateResetButtonVisibility();
@@ -1500,7 +2094,7 @@ document.addEventListener('DOMContentLoaded', async () => {
 
             // 同步滑块（滑块有范围限制-60到60）
             const sliderValue = Math.max(-60, Math.min(60, value));
-            document.getElementById('time-offset').value = sliderValue;
+            getInput('time-offset').value = String(sliderValue);
 
             // 更新重置按钮显示状态
             updateResetButtonVisibility();
@@ -1510,31 +2104,35 @@ document.addEventListener('DOMContentLoaded', async () => {
     }
 
     // 重置按钮事件监听器
-    const timeOffsetResetBtn = document.getElementById('time-offset-reset');
+    const timeOffsetResetBtn = getElement('time-offset-reset');
     if (timeOffsetResetBtn) {
         timeOffsetResetBtn.addEventListener('click', () => {
-            document.getElementById('time-offset').value = 0;
+            getInput('time-offset').value = '0';
             if (timeOffsetInput) {
-                timeOffsetInput.value = 0;
+                timeOffsetInput.value = '0';
             }
             // 重置后隐藏按钮
             updateResetButtonVisibility();
             saveSettings();
         });
     }
-    document.getElementById('opacity').addEventListener('input', () => {
+    getInput('opacity').addEventListener('input', () => {
         updateSliderValues();
         saveSettings();
     });
-    document.getElementById('font-size').addEventListener('input', () => {
+    getInput('font-size').addEventListener('input', () => {
         updateSliderValues();
         saveSettings();
     });
-    document.getElementById('speed').addEventListener('input', () => {
+    getInput('speed').addEventListener('input', () => {
         updateSliderValues();
         saveSettings();
     });
-    document.getElementById('track-spacing').addEventListener('input', () => {
+    getInput('velocity-mix').addEventListener('input', () => {
+        updateSliderValues();
+        saveSettings();
+    });
+    getInput('track-spacing').addEventListener('input', () => {
         updateSliderValues();
         saveSettings();
     });
@@ -1555,8 +2153,91 @@ document.addEventListener('DOMContentLoaded', async () => {
         });
     });
 
-    document.getElementById('weight-threshold').addEventListener('input', () => {
+    getInput('weight-threshold').addEventListener('input', () => {
+        updateSliderValues();
+        saveSettings();
+    });
+
+    // 屏蔽规则事件
+    getElement('block-rule-add-btn').addEventListener('click', async () => {
+        const patternInput = getInput('block-rule-pattern');
+        const type = /** @type {BlockRuleType} */ (getSelect('block-rule-type').value);
+        if (await addBlockRule(type, patternInput.value.trim())) {
+            patternInput.value = '';
+        }
+    });
+    getElement('block-rule-list').addEventListener('change', (e) => {
+        const target = /** @type {HTMLInputElement} */ (e.target);
+        if (!target.classList.contains('block-rule-toggle')) return;
+        const item = /** @type {HTMLElement} */ (target.closest('.block-rule-item'));
+        toggleBlockRule(item.dataset.id ?? '', target.checked);
+    });
+    getElement('block-rule-list').addEventListener('click', (e) => {
+        const target = /** @type {HTMLElement} */ (e.target);
+        if (!target.classList.contains('block-rule-remove-btn')) return;
+        const item = /** @type {HTMLElement} */ (target.closest('.block-rule-item'));
+        removeBlockRule(item.dataset.id ?? '');
+    });
+
+    // 弹幕缓存上限事件
+    getInput('store-budget').addEventListener('input', () => {
+        const budgetMb = getInput('store-budget').value;
+        getElement('store-budget-value').textContent = `${budgetMb}MB`;
+    });
+    getInput('store-budget').addEventListener('change', saveStoreBudget);
+
+    getInput('max-on-screen').addEventListener('input', () => {
         updateSliderValues();
         saveSettings();
     });
+
+    // 丢弃策略按钮组事件
+    /** @type {NodeListOf<HTMLElement>} */ (
+        document.querySelectorAll('.drop-strategy-btn')
+    ).forEach((btn) => {
+        btn.addEventListener('click', () => {
+            setDropStrategyValue(btn.dataset.value ?? '');
+            saveSettings();
+        });
+    });
+
+    // 渲染方式按钮组事件
+    /** @type {NodeListOf<HTMLElement>} */ (document.querySelectorAll('.renderer-btn')).forEach(
+        (btn) => {
+            btn.addEventListener('click', () => {
+                setRendererValue(btn.dataset.value ?? '');
+                saveSettings();
+            });
+        }
+    );
+
+    // 弹幕样式控件事件
+    ['stroke-width', 'scroll-scale', 'fixed-scale'].forEach((id) => {
+        getInput(id).addEventListener('input', () => {
+            updateSliderValues();
+            saveSettings();
+        });
+    });
+
+    getInput('stroke-color').addEventListener('input', () => {
+        updateStylePreview();
+        saveSettings();
+    });
+
+    ['font-family', 'font-bold'].forEach((id) => {
+        getElement(id).addEventListener('change', () => {
+            updateStylePreview();
+            saveSettings();
+        });
+    });
+
+    /** @type {NodeListOf<HTMLElement>} */ (document.querySelectorAll('.shadow-style-btn')).forEach(
+        (btn) => {
+            btn.addEventListener('click', () => {
+                setShadowStyleValue(btn.dataset.value ?? '');
+                updateStylePreview();
+                saveSettings();
+            });
+        }
+    );
 });
@@ -3,119 +3,374 @@
  * 提供视频信息获取、弹幕下载、视频搜索等功能
  */
 
-import { getWbiKeys, encWbi, type WbiKeys } from '../utils/wbi';
+import { BilibiliRequestError, bilibiliBinary, bilibiliJson } from './bilibili-client';
+import { videoInfoCache } from '../utils/cache-manager';
+import { deletePartialSegments, getPartialSegments, putPartialSegments } from './danmaku-store';
 import { parseDanmakuData, formatDanmakus, removeAdSegments } from './danmaku-processor';
-import type { VideoInfo, DanmakuDownloadResult, RawDanmaku } from '../types';
+import { ProtobufDecodeError } from './protobuf-parser';
+import type {
+    VideoInfo,
+    VideoPage,
+    DanmakuDownloadOptions,
+    DanmakuDownloadResult,
+    RawDanmaku
+} from '../types';
+
+/** 视频信息接口返回的 data */
+interface VideoViewData {
+    aid: number;
+    cid: number;
+    duration: number;
+    title: string;
+    pages?: { cid: number; page: number; part?: string; duration: number }[];
+}
 
 /**
- * 获取视频信息
+ * 获取视频信息（缓存 5 分钟）
  * @param bvid - Bilibili 视频 ID
  * @returns 视频信息对象
  */
 export async function getVideoInfo(bvid: string): Promise<VideoInfo> {
-    const response = await fetch(`https://api.bilibili.com/x/web-interface/view?bvid=${bvid}`);
-    const data = await response.json();
+    return videoInfoCache.getOrFetch(bvid, () => fetchVideoInfo(bvid));
+}
+
+async function fetchVideoInfo(bvid: string): Promise<VideoInfo> {
+    const data = await bilibiliJson<VideoViewData>(
+        'https://api.bilibili.com/x/web-interface/view',
+        {
+            params: { bvid },
+            label: '获取视频信息'
+        }
+    );
 
-    if (data.code !== 0) throw new Error(`获取视频信息失败: ${data.message}`);
     if (!data.data?.aid || !data.data?.cid) throw new Error('无法获取视频信息');
 
+    const pages: VideoPage[] = (data.data.pages || []).map((page) => ({
+        cid: page.cid,
+        page: page.page,
+        part: page.part || '',
+        duration: page.duration
+    }));
+
     return {
         aid: data.data.aid,
         cid: data.data.cid,
         duration: data.data.duration,
-        title: data.data.title
+        title: data.data.title,
+        // 部分接口数据不含 pages，此时视为单P视频
+        pages:
+            pages.length > 0
+                ? pages
+                : [{ cid: data.data.cid, page: 1, part: '', duration: data.data.duration }]
     };
 }
 
+// 每个弹幕分段的时长（秒）
+const SEGMENT_DURATION = 360;
+// 同时下载的分段数
+const SEGMENT_CONCURRENCY = 3;
+// 单个分段的最大重试次数
+const SEGMENT_MAX_RETRIES = 3;
+
+/**
+ * 解析 seg.so 分段，数据损坏时抛出解析步骤的 BilibiliRequestError
+ * @param buffer - seg.so 响应的 ArrayBuffer
+ * @param label - 请求描述
+ */
+function parseSegment(buffer: ArrayBuffer, label: string): RawDanmaku[] {
+    try {
+        return parseDanmakuData(buffer);
+    } catch (error) {
+        if (!(error instanceof ProtobufDecodeError)) throw error;
+        throw new BilibiliRequestError('parse', `${label}失败: 弹幕数据损坏（${error.message}）`);
+    }
+}
+
 /**
  * 获取单个分段的弹幕
  * @param cid - 视频 CID
  * @param aid - 视频 AID
  * @param segmentIndex - 分段索引
- * @param wbiKeys - WBI 密钥
  * @returns 原始弹幕数组
  */
 export async function getSegmentDanmaku(
     cid: number,
     aid: number,
-    segmentIndex: number,
-    wbiKeys: WbiKeys
+    segmentIndex: number
 ): Promise<RawDanmaku[]> {
-    const params = {
-        type: 1,
-        oid: cid,
-        segment_index: segmentIndex,
-        pid: aid,
-        web_location: 1315873,
-        wts: Math.round(Date.now() / 1000)
+    const label = `获取第${segmentIndex}段弹幕`;
+    const buffer = await bilibiliBinary('https://api.bilibili.com/x/v2/dm/wbi/web/seg.so', {
+        params: {
+            type: 1,
+            oid: cid,
+            segment_index: segmentIndex,
+            pid: aid,
+            web_location: 1315873
+        },
+        wbi: true,
+        label,
+        maxRetries: SEGMENT_MAX_RETRIES
+    });
+
+    return parseSegment(buffer, label);
+}
+
+/**
+ * 获取有历史弹幕的日期
+ * 需要登录B站账号
+ * @param cid - 视频 CID
+ * @param month - 月份（YYYY-MM）
+ * @returns 该月有历史弹幕的日期（YYYY-MM-DD）
+ */
+export async function getHistoryDanmakuDates(cid: number, month: string): Promise<string[]> {
+    const data = await bilibiliJson<string[] | null>(
+        'https://api.bilibili.com/x/v2/dm/history/index',
+        {
+            params: { type: 1, oid: cid, month },
+            label: '获取历史弹幕日期'
+        }
+    );
+
+    return data.data || [];
+}
+
+/**
+ * 获取指定日期的历史弹幕快照
+ * 需要登录B站账号
+ * @param cid - 视频 CID
+ * @param date - 日期（YYYY-MM-DD）
+ * @returns 原始弹幕数组
+ */
+export async function getHistorySegmentDanmaku(cid: number, date: string): Promise<RawDanmaku[]> {
+    const label = `获取 ${date} 历史弹幕`;
+    const buffer = await bilibiliBinary('https://api.bilibili.com/x/v2/dm/web/history/seg.so', {
+        params: { type: 1, oid: cid, date },
+        label,
+        maxRetries: SEGMENT_MAX_RETRIES
+    });
+
+    return parseSegment(buffer, label);
+}
+
+/**
+ * 合并多份弹幕并去重
+ * 优先按弹幕 ID 去重，缺少 ID 时按时间、内容与发送者判断
+ * @param sources - 弹幕数组列表
+ * @returns 合并后的弹幕数组
+ */
+export function mergeRawDanmakus(...sources: RawDanmaku[][]): RawDanmaku[] {
+    const seen = new Set<string>();
+    const merged: RawDanmaku[] = [];
+
+    for (const danmakus of sources) {
+        for (const danmaku of danmakus) {
+            const key =
+                danmaku.idStr ||
+                danmaku.id ||
+                `${danmaku.progress}|${danmaku.midHash ?? ''}|${danmaku.content}`;
+            if (seen.has(key)) continue;
+
+            seen.add(key);
+            merged.push(danmaku);
+        }
+    }
+
+    return merged;
+}
+
+/**
+ * 以有限并发执行任务
+ * @param tasks - 任务列表
+ * @param concurrency - 最大并发数
+ */
+async function runWithConcurrency(
+    tasks: Array<() => Promise<void>>,
+    concurrency: number
+): Promise<void> {
+    let next = 0;
+    const worker = async () => {
+        while (next < tasks.length) {
+            await tasks[next++]();
+        }
     };
 
-    const query = encWbi(params, wbiKeys.img_key, wbiKeys.sub_key);
-    const url = `https://api.bilibili.com/x/v2/dm/wbi/web/seg.so?${query}`;
+    await Promise.all(Array.from({ length: Math.min(concurrency, tasks.length) }, worker));
+}
+
+/**
+ * 读取上次未下载完整时保存的分段，读取失败时全部重新下载
+ * @param cid - 分P的 CID
+ */
+async function loadPartialSegments(cid: number): Promise<Map<number, RawDanmaku[]>> {
+    try {
+        return await getPartialSegments(cid);
+    } catch (error) {
+        console.warn('读取续传分段失败:', error);
+        return new Map();
+    }
+}
+
+/**
+ * 下载单个分P的弹幕
+ * 分段并发下载；部分分段失败时将已成功的分段保存到 IndexedDB，
+ * 下次下载同一分P时只补全缺失的分段（service worker 挂起后仍有效）
+ * @param aid - 视频 AID
+ * @param page - 分P信息
+ * @param historyDates - 需要合并的历史弹幕日期
+ * @returns 原始弹幕数组与各分段是否下载成功
+ */
+async function downloadPageDanmaku(
+    aid: number,
+    page: VideoPage,
+    historyDates: string[] = []
+): Promise<{ danmakus: RawDanmaku[]; segments: boolean[] }> {
+    const { cid } = page;
+
+    // 计算分段数（每段 6 分钟）
+    const segmentCount = Math.max(1, Math.ceil(page.duration / SEGMENT_DURATION));
+
+    const fetched = await loadPartialSegments(cid);
+    const resumed = fetched.size > 0;
+    const downloaded = new Map<number, RawDanmaku[]>();
+    const missing: number[] = [];
+    for (let i = 1; i <= segmentCount; i++) {
+        if (!fetched.has(i)) missing.push(i);
+    }
+
+    if (resumed) {
+        console.log(`续传P${page.page}弹幕: 已有 ${fetched.size} 段，需下载 ${missing.length} 段`);
+    }
+
+    await runWithConcurrency(
+        missing.map((index) => async () => {
+            try {
+                const danmakus = await getSegmentDanmaku(cid, aid, index);
+                console.log(`P${page.page} 第${index}段弹幕获取成功: ${danmakus.length}条`);
+                fetched.set(index, danmakus);
+                downloaded.set(index, danmakus);
+            } catch (error) {
+                console.error(`获取P${page.page} 第${index}段弹幕失败:`, error);
+            }
+        }),
+        SEGMENT_CONCURRENCY
+    );
+
+    const segments: boolean[] = [];
+    const danmakus: RawDanmaku[] = [];
+    for (let i = 1; i <= segmentCount; i++) {
+        const segmentDanmakus = fetched.get(i);
+        segments.push(!!segmentDanmakus);
+        if (segmentDanmakus) danmakus.push(...segmentDanmakus);
+    }
 
-    const response = await fetch(url);
-    if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+    try {
+        if (fetched.size < segmentCount) {
+            console.warn(
+                `P${page.page} 弹幕下载不完整: ${segmentCount - fetched.size}/${segmentCount} 段失败`
+            );
+            await putPartialSegments(cid, downloaded);
+        } else if (resumed) {
+            await deletePartialSegments(cid);
+        }
+    } catch (error) {
+        console.warn('保存续传分段失败:', error);
     }
 
-    const buffer = await response.arrayBuffer();
-    return parseDanmakuData(buffer);
+    // 历史弹幕快照逐日下载，失败的日期跳过
+    const historySnapshots: RawDanmaku[][] = [];
+    for (const date of historyDates) {
+        try {
+            const snapshot = await getHistorySegmentDanmaku(cid, date);
+            console.log(`P${page.page} ${date} 历史弹幕获取成功: ${snapshot.length}条`);
+            historySnapshots.push(snapshot);
+        } catch (error) {
+            console.error(`获取P${page.page} ${date} 历史弹幕失败:`, error);
+        }
+    }
+
+    if (historySnapshots.length > 0) {
+        const merged = mergeRawDanmakus(danmakus, ...historySnapshots);
+        console.log(`合并历史弹幕后新增 ${merged.length - danmakus.length} 条`);
+        return { danmakus: merged, segments };
+    }
+
+    return { danmakus, segments };
+}
+
+/**
+ * 选取要下载的分P
+ * @param pages - 视频的全部分P
+ * @param pageNumbers - 分P序号，未指定时为第 1P
+ * @returns 按序号排序的分P
+ */
+function selectPages(pages: VideoPage[], pageNumbers?: number[]): VideoPage[] {
+    if (!pageNumbers || pageNumbers.length === 0) {
+        return [pages[0]];
+    }
+
+    return [...new Set(pageNumbers)]
+        .sort((a, b) => a - b)
+        .map((pageNumber) => {
+            const page = pages.find((p) => p.page === pageNumber);
+            if (!page) throw new Error(`视频没有第 ${pageNumber}P`);
+            return page;
+        });
 }
 
 /**
  * 下载所有弹幕
+ * 选择多个分P时，按序号依次拼接为一条连续的时间轴
  * @param bvid - Bilibili 视频 ID
  * @param youtubeVideoDuration - YouTube 视频时长（可选）
+ * @param options - 下载选项（分P、历史弹幕日期）
  * @returns 弹幕下载结果
  */
 export async function downloadAllDanmaku(
     bvid: string,
-    youtubeVideoDuration?: number
+    youtubeVideoDuration?: number,
+    options: DanmakuDownloadOptions = {}
 ): Promise<DanmakuDownloadResult> {
-    try {
-        // 1. 获取 WBI Keys
-        const wbiKeys = await getWbiKeys();
+    // 1. 获取视频信息
+    const { aid, title, pages } = await getVideoInfo(bvid);
+    const selectedPages = selectPages(pages, options.pages);
 
-        // 2. 获取视频信息
-        const { cid, duration, aid, title } = await getVideoInfo(bvid);
+    // 2. 逐个分P下载，后续分P的弹幕按之前分P的总时长后移
+    const allDanmakus: RawDanmaku[] = [];
+    const segments: Record<number, boolean> = {};
+    let segmentNumber = 1;
+    let timelineOffset = 0;
 
-        // 3. 计算分段数（每段 6 分钟）
-        const segmentCount = Math.ceil(duration / 360);
+    for (const page of selectedPages) {
+        const result = await downloadPageDanmaku(aid, page, options.historyDates);
 
-        // 4. 获取所有分段的弹幕
-        const allDanmakus: RawDanmaku[] = [];
-        for (let i = 1; i <= segmentCount; i++) {
-            try {
-                const danmakus = await getSegmentDanmaku(cid, aid, i, wbiKeys);
-                console.log(`第${i}段弹幕获取成功: ${danmakus.length}条`);
-                allDanmakus.push(...danmakus);
-
-                // 延迟避免请求过快
-                if (i < segmentCount) {
-                    await new Promise((resolve) => setTimeout(resolve, 300));
-                }
-            } catch (error) {
-                console.error(`获取第${i}段弹幕失败:`, error);
-            }
-        }
+        const offsetMs = timelineOffset * 1000;
+        allDanmakus.push(
+            ...result.danmakus.map((d) =>
+                offsetMs ? { ...d, progress: d.progress + offsetMs } : d
+            )
+        );
+        result.segments.forEach((success) => (segments[segmentNumber++] = success));
+        timelineOffset += page.duration;
+    }
 
-        // 5. 格式化弹幕数据
-        console.log(`开始处理 ${allDanmakus.length} 条原始弹幕数据`);
-        const formattedDanmakus = formatDanmakus(allDanmakus);
+    // 3. 格式化弹幕数据
+    console.log(`开始处理 ${allDanmakus.length} 条原始弹幕数据`);
+    const formattedDanmakus = formatDanmakus(allDanmakus);
 
-        // 6. 移除广告片段弹幕
-        const processedDanmakus = await removeAdSegments(
-            formattedDanmakus,
-            bvid,
-            youtubeVideoDuration
-        );
+    // 4. 移除广告片段弹幕（广告片段数据只对应第 1P）
+    const isFirstPageOnly = selectedPages.length === 1 && selectedPages[0].page === 1;
+    const processedDanmakus = isFirstPageOnly
+        ? await removeAdSegments(formattedDanmakus, bvid, youtubeVideoDuration)
+        : formattedDanmakus;
 
-        return {
-            danmakus: processedDanmakus,
-            title: title,
-            duration: duration
-        };
-    } catch (error) {
-        throw error;
-    }
+    const partLabel = isFirstPageOnly
+        ? ''
+        : ` (${selectedPages.map((page) => `P${page.page}`).join('+')})`;
+
+    return {
+        danmakus: processedDanmakus,
+        title: title + partLabel,
+        duration: timelineOffset,
+        segments
+    };
 }
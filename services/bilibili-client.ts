@@ -0,0 +1,339 @@
+/**
+ * B站请求客户端
+ * 所有 B站接口请求（包括获取 WBI Keys）统一经过此模块：按需进行 WBI 签名并附带网页端的指纹参数，
+ * 触发风控（-352、-403、HTTP 412）时刷新一次 WBI Keys 重新签名，网络错误、限流与风控按带抖动的指数退避重试，
+ * 最终失败时抛出标明失败步骤的 BilibiliRequestError
+ */
+
+import { encWbi, type WbiKeys, type WbiParams } from '../utils/wbi';
+import { wbiKeysCache } from '../utils/cache-manager';
+
+/** 请求失败的步骤：获取签名密钥 / 网络 / HTTP 状态 / 风控校验 / 接口返回码 / 解析响应 */
+export type BilibiliRequestStep =
+    | 'wbi-keys'
+    | 'network'
+    | 'http'
+    | 'risk-control'
+    | 'api'
+    | 'parse';
+
+/**
+ * B站请求错误
+ * 携带失败的步骤以及 HTTP 状态码或接口返回码
+ */
+export class BilibiliRequestError extends Error {
+    constructor(
+        readonly step: BilibiliRequestStep,
+        message: string,
+        readonly status?: number,
+        readonly code?: number
+    ) {
+        super(message);
+        this.name = 'BilibiliRequestError';
+    }
+}
+
+/** B站接口的 JSON 响应，普通接口的数据在 data 中，番剧（pgc）接口在 result 中 */
+export interface BilibiliResponse<T> {
+    code: number;
+    message?: string;
+    data?: T;
+    result?: T;
+}
+
+/** 请求选项 */
+export interface BilibiliRequestOptions {
+    /** 查询参数 */
+    params?: WbiParams;
+    /** 是否进行 WBI 签名（同时附带指纹参数） */
+    wbi?: boolean;
+    /** 额外的请求头 */
+    headers?: Record<string, string>;
+    /** 最大退避重试次数（不含风控后刷新密钥的那一次），默认 2 */
+    maxRetries?: number;
+    /** 请求描述，用于错误信息与日志 */
+    label?: string;
+}
+
+// 风控返回码：-352 风控校验失败，-403 访问权限不足（签名失效时也会返回），-412 请求被拦截
+const RISK_CONTROL_CODES = new Set([-352, -403, -412]);
+const DEFAULT_MAX_RETRIES = 2;
+// 重试的基础延迟（毫秒），按指数递增
+const RETRY_BASE_DELAY = 500;
+
+// 提供 WBI Keys 的导航栏接口
+const NAV_URL = 'https://api.bilibili.com/x/web-interface/nav';
+const WBI_KEYS_CACHE_KEY = 'nav';
+
+/** 导航栏接口返回的 data 中与 WBI 签名有关的部分 */
+interface NavData {
+    wbi_img?: { img_url?: string; sub_url?: string };
+}
+
+// 网页端随 WBI 请求发送的 WebGL 指纹，值为 WebGL 版本与显卡信息的 base64 去掉末尾两位
+const WEBGL_VERSION = 'WebGL 1.0 (OpenGL ES 2.0 Chromium)';
+const WEBGL_RENDERER =
+    'ANGLE (Intel, Intel(R) UHD Graphics 630 Direct3D11 vs_5_0 ps_5_0, D3D11)Google Inc. (Intel)';
+
+/**
+ * 网页端附带的指纹参数（dm_img_*），缺少时 WBI 接口更容易返回 -352
+ */
+export function getFingerprintParams(): WbiParams {
+    return {
+        dm_img_list: '[]',
+        dm_img_str: btoa(WEBGL_VERSION).slice(0, -2),
+        dm_cover_img_str: btoa(WEBGL_RENDERER).slice(0, -2),
+        dm_img_inter: '{"ds":[],"wh":[0,0,0],"of":[0,0,0]}'
+    };
+}
+
+/**
+ * 计算第 attempt 次重试前的等待时间（指数退避，附加最多 50% 的随机抖动）
+ * @param attempt - 已重试次数（从 0 开始）
+ */
+export function getBackoffDelay(attempt: number): number {
+    return RETRY_BASE_DELAY * Math.pow(2, attempt) * (1 + Math.random() * 0.5);
+}
+
+/**
+ * 生成请求地址，需要签名时附带指纹参数与 WBI 签名
+ */
+async function buildUrl(
+    url: string,
+    options: BilibiliRequestOptions,
+    label: string
+): Promise<string> {
+    const params = options.params ?? {};
+
+    if (!options.wbi) {
+        const query = new URLSearchParams();
+        for (const [key, value] of Object.entries(params)) {
+            if (value !== undefined && value !== null) query.set(key, String(value));
+        }
+        const search = query.toString();
+        return search ? `${url}?${search}` : url;
+    }
+
+    let keys;
+    try {
+        keys = await getWbiKeys();
+    } catch (error) {
+        const cause = error instanceof BilibiliRequestError ? error : undefined;
+        throw new BilibiliRequestError(
+            'wbi-keys',
+            `${label}失败: 无法获取 WBI 签名密钥（${(error as Error).message}）`,
+            cause?.status,
+            cause?.code
+        );
+    }
+
+    const query = encWbi({ ...getFingerprintParams(), ...params }, keys.img_key, keys.sub_key);
+    return `${url}?${query}`;
+}
+
+/** 判断响应 JSON 是否带有数字返回码 */
+function isBilibiliResponse(data: unknown): data is BilibiliResponse<unknown> {
+    return typeof (data as BilibiliResponse<unknown> | null)?.code === 'number';
+}
+
+/**
+ * 检查接口返回码，区分风控与其他接口错误
+ * @param data - 响应 JSON
+ * @param label - 请求描述
+ */
+function checkResponseCode(
+    data: unknown,
+    label: string
+): asserts data is BilibiliResponse<unknown> {
+    if (!isBilibiliResponse(data)) {
+        throw new BilibiliRequestError('parse', `${label}失败: 响应格式异常`);
+    }
+    if (data.code === 0) return;
+
+    if (RISK_CONTROL_CODES.has(data.code)) {
+        throw new BilibiliRequestError(
+            'risk-control',
+            `${label}失败: 触发B站风控校验（${data.code}）`,
+            undefined,
+            data.code
+        );
+    }
+    throw new BilibiliRequestError(
+        'api',
+        `${label}失败: ${data.message || data.code}`,
+        undefined,
+        data.code
+    );
+}
+
+async function readJson(response: Response, label: string): Promise<unknown> {
+    try {
+        return await response.json();
+    } catch {
+        throw new BilibiliRequestError('parse', `${label}失败: 响应不是有效的 JSON`);
+    }
+}
+
+function isRetryable(error: BilibiliRequestError): boolean {
+    switch (error.step) {
+        case 'wbi-keys':
+        case 'network':
+        case 'risk-control':
+            return true;
+        case 'http':
+            return error.status === 429 || (error.status ?? 0) >= 500;
+        default:
+            return false;
+    }
+}
+
+/**
+ * 发送请求并按失败步骤决定是否刷新密钥或重试
+ * @param read - 读取响应，可抛出 BilibiliRequestError
+ */
+async function sendRequest<T>(
+    url: string,
+    options: BilibiliRequestOptions,
+    read: (response: Response, label: string) => Promise<T>
+): Promise<T> {
+    const label = options.label || 'B站请求';
+    const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    let keysRefreshed = false;
+    let retries = 0;
+
+    for (;;) {
+        try {
+            const requestUrl = await buildUrl(url, options, label);
+
+            let response: Response;
+            try {
+                response = await fetch(requestUrl, {
+                    headers: options.headers,
+                    credentials: 'include'
+                });
+            } catch (error) {
+                throw new BilibiliRequestError(
+                    'network',
+                    `${label}失败: 网络错误（${(error as Error).message}）`
+                );
+            }
+
+            if (response.status === 412) {
+                throw new BilibiliRequestError(
+                    'risk-control',
+                    `${label}失败: 触发B站风控校验（HTTP 412）`,
+                    412
+                );
+            }
+            if (!response.ok) {
+                throw new BilibiliRequestError(
+                    'http',
+                    `${label}失败: HTTP ${response.status}`,
+                    response.status
+                );
+            }
+
+            return await read(response, label);
+        } catch (error) {
+            if (!(error instanceof BilibiliRequestError)) throw error;
+
+            // 密钥轮换后旧签名会被当作风控拦截，刷新密钥后立即重试一次
+            if (error.step === 'risk-control' && options.wbi && !keysRefreshed) {
+                keysRefreshed = true;
+                console.warn(`${label}触发风控，刷新 WBI Keys 后重试`);
+                await refreshWbiKeys().catch(() => undefined);
+                continue;
+            }
+
+            if (retries >= maxRetries || !isRetryable(error)) throw error;
+
+            const delay = getBackoffDelay(retries++);
+            console.warn(
+                `${error.message}，${Math.round(delay)}ms 后重试 (${retries}/${maxRetries})`
+            );
+            await new Promise((resolve) => setTimeout(resolve, delay));
+        }
+    }
+}
+
+/**
+ * 获取 img_key 和 sub_key，优先使用缓存（worker 重启后仍有效）
+ * @throws BilibiliRequestError
+ */
+function getWbiKeys(): Promise<WbiKeys> {
+    return wbiKeysCache.getOrFetch(WBI_KEYS_CACHE_KEY, fetchWbiKeys);
+}
+
+/**
+ * 丢弃缓存的 WBI Keys 并重新获取（密钥轮换后旧签名会被拒绝）
+ * @throws BilibiliRequestError
+ */
+function refreshWbiKeys(): Promise<WbiKeys> {
+    wbiKeysCache.delete(WBI_KEYS_CACHE_KEY);
+    return getWbiKeys();
+}
+
+/**
+ * 从 nav 接口获取最新的 img_key 和 sub_key
+ * 不单独重试，失败时由发起签名请求的一方按 'wbi-keys' 步骤退避重试
+ * @throws BilibiliRequestError
+ */
+function fetchWbiKeys(): Promise<WbiKeys> {
+    return sendRequest(
+        NAV_URL,
+        { label: '获取 WBI Keys', maxRetries: 0 },
+        async (response, label) => {
+            const data = await readJson(response, label);
+            const wbiImg = isBilibiliResponse(data)
+                ? (data as BilibiliResponse<NavData>).data?.wbi_img
+                : undefined;
+            // 未登录时 nav 接口返回 -101，但仍包含 wbi_img
+            if (!wbiImg?.img_url || !wbiImg?.sub_url) {
+                checkResponseCode(data, label);
+                throw new BilibiliRequestError('parse', `${label}失败: 响应缺少 wbi_img`);
+            }
+
+            const keyOf = (url: string) =>
+                url.slice(url.lastIndexOf('/') + 1, url.lastIndexOf('.'));
+            return { img_key: keyOf(wbiImg.img_url), sub_key: keyOf(wbiImg.sub_url) };
+        }
+    );
+}
+
+/**
+ * 请求返回 JSON 的 B站接口
+ * @param url - 接口地址（不含查询参数）
+ * @param options - 请求选项
+ * @returns 返回码为 0 的完整响应 JSON，T 为调用方按接口声明的 data（或 result）结构
+ * @throws BilibiliRequestError
+ */
+export async function bilibiliJson<T>(
+    url: string,
+    options: BilibiliRequestOptions = {}
+): Promise<BilibiliResponse<T>> {
+    return sendRequest(url, options, async (response, label) => {
+        const data = await readJson(response, label);
+        checkResponseCode(data, label);
+        return data as BilibiliResponse<T>;
+    });
+}
+
+/**
+ * 请求返回二进制数据的 B站接口（如 seg.so 弹幕分段）
+ * 未登录、风控等错误以 JSON 返回，按返回码处理
+ * @param url - 接口地址（不含查询参数）
+ * @param options - 请求选项
+ * @throws BilibiliRequestError
+ */
+export async function bilibiliBinary(
+    url: string,
+    options: BilibiliRequestOptions = {}
+): Promise<ArrayBuffer> {
+    return sendRequest(url, options, async (response, label) => {
+        if (response.headers.get('content-type')?.includes('application/json')) {
+            checkResponseCode(await readJson(response, label), label);
+            throw new BilibiliRequestError('parse', `${label}失败: 响应不是二进制数据`);
+        }
+        return response.arrayBuffer();
+    });
+}
@@ -0,0 +1,156 @@
+/**
+ * 弹幕列式编码
+ * 将弹幕数组按字段拆分为定长数组与字符串数组，存入 IndexedDB 时体积更小、读写更快
+ */
+
+import type { AdvancedDanmakuPayload, Danmaku, DanmakuPool } from '../types';
+
+/** 按列编码的弹幕 */
+export interface EncodedDanmakus {
+    count: number;
+    /** 时间（秒） */
+    times: Float64Array;
+    /** RGB 颜色值 */
+    colors: Uint32Array;
+    /** 弹幕类型序号，见 MODES */
+    modes: Uint8Array;
+    /** 权重，-1 表示未设置 */
+    weights: Int8Array;
+    /** 以下数值列中 0 表示未设置 */
+    fontSizes: Uint8Array;
+    pools: Uint8Array;
+    counts: Uint32Array;
+    ctimes: Uint32Array;
+    attrs: Uint32Array;
+    texts: string[];
+    /** 以下字符串列中空字符串表示未设置 */
+    ids: string[];
+    midHashes: string[];
+    /** 旧版本缓存没有此列 */
+    simplifiedTexts?: string[];
+    /** 高级弹幕参数（按下标稀疏存储） */
+    advanced: Record<number, AdvancedDanmakuPayload>;
+}
+
+const MODES: Danmaku['mode'][] = ['rtl', 'top', 'bottom', 'advanced'];
+// 序号 0 保留为未设置
+const POOLS: (DanmakuPool | undefined)[] = [undefined, 'normal', 'subtitle', 'special'];
+const DEFAULT_COLOR = 0xffffff;
+
+function parseColor(color: string): number {
+    const value = parseInt(color.replace(/^#/, ''), 16);
+    return Number.isFinite(value) ? value & 0xffffff : DEFAULT_COLOR;
+}
+
+/**
+ * 按列编码弹幕
+ * @param danmakus - 弹幕数组
+ * @returns 列式数据
+ */
+export function encodeDanmakus(danmakus: Danmaku[]): EncodedDanmakus {
+    const count = danmakus.length;
+    const simplifiedTexts = new Array<string>(count);
+    const encoded: EncodedDanmakus = {
+        count,
+        times: new Float64Array(count),
+        colors: new Uint32Array(count),
+        modes: new Uint8Array(count),
+        weights: new Int8Array(count),
+        fontSizes: new Uint8Array(count),
+        pools: new Uint8Array(count),
+        counts: new Uint32Array(count),
+        ctimes: new Uint32Array(count),
+        attrs: new Uint32Array(count),
+        texts: new Array<string>(count),
+        ids: new Array<string>(count),
+        midHashes: new Array<string>(count),
+        simplifiedTexts,
+        advanced: {}
+    };
+
+    danmakus.forEach((d, i) => {
+        encoded.times[i] = d.time;
+        encoded.colors[i] = parseColor(d.color);
+        encoded.modes[i] = Math.max(0, MODES.indexOf(d.mode));
+        encoded.weights[i] = d.weight ?? -1;
+        encoded.fontSizes[i] = d.fontSize ?? 0;
+        encoded.pools[i] = Math.max(0, POOLS.indexOf(d.pool));
+        encoded.counts[i] = d.count ?? 0;
+        encoded.ctimes[i] = d.ctime ?? 0;
+        encoded.attrs[i] = d.attr ?? 0;
+        encoded.texts[i] = d.text;
+        encoded.ids[i] = d.id ?? '';
+        encoded.midHashes[i] = d.midHash ?? '';
+        simplifiedTexts[i] = d.simplifiedText ?? '';
+        if (d.advanced) {
+            encoded.advanced[i] = d.advanced;
+        }
+    });
+
+    return encoded;
+}
+
+/**
+ * 解码列式弹幕，未设置的字段不出现在结果中
+ * @param encoded - 列式数据
+ * @returns 弹幕数组
+ */
+export function decodeDanmakus(encoded: EncodedDanmakus): Danmaku[] {
+    const danmakus = new Array<Danmaku>(encoded.count);
+
+    for (let i = 0; i < encoded.count; i++) {
+        const danmaku: Danmaku = {
+            time: encoded.times[i],
+            text: encoded.texts[i],
+            color: `#${encoded.colors[i].toString(16).padStart(6, '0')}`,
+            mode: MODES[encoded.modes[i]] ?? 'rtl'
+        };
+
+        if (encoded.weights[i] >= 0) danmaku.weight = encoded.weights[i];
+        if (encoded.fontSizes[i]) danmaku.fontSize = encoded.fontSizes[i];
+        const pool = POOLS[encoded.pools[i]];
+        if (pool) danmaku.pool = pool;
+        if (encoded.counts[i]) danmaku.count = encoded.counts[i];
+        if (encoded.ctimes[i]) danmaku.ctime = encoded.ctimes[i];
+        if (encoded.attrs[i]) danmaku.attr = encoded.attrs[i];
+        if (encoded.ids[i]) danmaku.id = encoded.ids[i];
+        if (encoded.midHashes[i]) danmaku.midHash = encoded.midHashes[i];
+        if (encoded.simplifiedTexts?.[i]) danmaku.simplifiedText = encoded.simplifiedTexts[i];
+        if (encoded.advanced[i]) danmaku.advanced = encoded.advanced[i];
+
+        danmakus[i] = danmaku;
+    }
+
+    return danmakus;
+}
+
+/**
+ * 估算列式数据占用的字节数（字符串按 UTF-16 计算）
+ * @param encoded - 列式数据
+ */
+export function getEncodedSize(encoded: EncodedDanmakus): number {
+    const columns = [
+        encoded.times,
+        encoded.colors,
+        encoded.modes,
+        encoded.weights,
+        encoded.fontSizes,
+        encoded.pools,
+        encoded.counts,
+        encoded.ctimes,
+        encoded.attrs
+    ];
+    const numericBytes = columns.reduce((sum, column) => sum + column.byteLength, 0);
+
+    let textLength = 0;
+    for (let i = 0; i < encoded.count; i++) {
+        textLength +=
+            encoded.texts[i].length +
+            encoded.ids[i].length +
+            encoded.midHashes[i].length +
+            (encoded.simplifiedTexts?.[i].length ?? 0);
+    }
+    const advancedLength = JSON.stringify(encoded.advanced).length;
+
+    return numericBytes + (textLength + advancedLength) * 2;
+}
@@ -3,23 +3,20 @@
  * 提供弹幕数据解析、过滤和广告片段移除功能
  */
 
-import type { Danmaku, RawDanmaku, AdSegment } from '../types';
-
-// Protobuf 解析器的类型声明
-declare const ProtobufParser: {
-    new (): {
-        parseDanmakuResponse(buffer: ArrayBuffer): RawDanmaku[];
-    };
-};
+import { decodeDmSegMobileReply } from './protobuf-parser';
+import { parseAdvancedDanmaku } from '../utils/advanced-danmaku';
+import { traditionalToSimplifiedBatch } from '../utils/title-matcher';
+import type { Danmaku, DanmakuPool, RawDanmaku, AdSegment } from '../types';
 
 /**
  * 解析弹幕数据
- * @param buffer - 弹幕数据的 ArrayBuffer
+ * @param buffer - seg.so 响应的 ArrayBuffer
  * @returns 解析后的原始弹幕数组
+ * @throws ProtobufDecodeError 响应数据损坏或被截断时
  */
 export function parseDanmakuData(buffer: ArrayBuffer): RawDanmaku[] {
-    const parser = new ProtobufParser();
-    return parser.parseDanmakuResponse(buffer);
+    // 丢弃内容为空的弹幕（如已删除的弹幕）
+    return decodeDmSegMobileReply(buffer).elems.filter((elem) => elem.content.trim().length > 0);
 }
 
 /**
@@ -125,6 +122,13 @@ export async function removeAdSegments(
     }
 }
 
+// 弹幕池编号映射
+const POOL_TYPES: Record<number, DanmakuPool> = {
+    0: 'normal',
+    1: 'subtitle',
+    2: 'special'
+};
+
 /**
  * 格式化原始弹幕数据
  * @param rawDanmakus - 原始弹幕数组
@@ -149,16 +153,47 @@ export function formatDanmakus(rawDanmakus: RawDanmaku[]): Danmaku[] {
     console.log(`过滤后有效弹幕: ${validDanmakus.length} 条`);
 
     // 格式化弹幕
-    const formattedDanmakus = validDanmakus.map((d) => ({
-        time: d.progress / 1000, // 转换为秒
-        text: d.content,
-        color:
-            d.color && typeof d.color === 'number'
-                ? `#${d.color.toString(16).padStart(6, '0')}`
-                : '#ffffff', // 默认白色
-        mode: (d.mode === 1 ? 'rtl' : d.mode === 4 ? 'bottom' : 'top') as 'rtl' | 'top' | 'bottom',
-        weight: d.weight !== undefined && d.weight !== null ? d.weight : 5 // 添加权重字段，默认 5
-    }));
+    const formattedDanmakus: Danmaku[] = [];
+    for (const d of validDanmakus) {
+        const danmaku: Danmaku = {
+            time: d.progress / 1000, // 转换为秒
+            text: d.content,
+            color:
+                d.color && typeof d.color === 'number'
+                    ? `#${d.color.toString(16).padStart(6, '0')}`
+                    : '#ffffff', // 默认白色
+            mode: d.mode === 1 ? 'rtl' : d.mode === 4 ? 'bottom' : 'top',
+            weight: d.weight !== undefined && d.weight !== null ? d.weight : 5, // 添加权重字段，默认 5
+            id: d.idStr || d.id || undefined,
+            fontSize: d.fontsize || undefined,
+            pool: POOL_TYPES[d.pool ?? 0] ?? 'normal',
+            ctime: d.ctime ? Number(d.ctime) : undefined,
+            midHash: d.midHash || undefined,
+            attr: d.attr || undefined
+        };
+
+        if (d.mode === 7) {
+            // 高级弹幕内容为 JSON，无法解析时丢弃，避免显示原始 JSON
+            const advanced = parseAdvancedDanmaku(d.content);
+            if (!advanced) {
+                console.warn('过滤掉无法解析的高级弹幕:', d.content);
+                continue;
+            }
+            danmaku.mode = 'advanced';
+            danmaku.text = advanced.text;
+            danmaku.advanced = advanced.payload;
+        }
+
+        formattedDanmakus.push(danmaku);
+    }
+
+    // 内容脚本没有 OpenCC，下载时记录繁体弹幕的简体文本，供合并重复弹幕使用
+    const simplifiedTexts = traditionalToSimplifiedBatch(formattedDanmakus.map((d) => d.text));
+    formattedDanmakus.forEach((danmaku, i) => {
+        if (simplifiedTexts[i] !== danmaku.text) {
+            danmaku.simplifiedText = simplifiedTexts[i];
+        }
+    });
 
     // 按时间排序
     formattedDanmakus.sort((a, b) => a.time - b.time);
@@ -0,0 +1,455 @@
+/**
+ * 视频弹幕存储
+ * 基于 IndexedDB 按 YouTube 视频 ID 保存弹幕，元数据与列式编码的弹幕分表存放，
+ * 记录占用与最近访问时间，超出存储上限时按最近最少使用淘汰；
+ * 另存未下载完整的分P已获取的原始分段，service worker 挂起后仍可续传
+ */
+
+import {
+    decodeDanmakus,
+    encodeDanmakus,
+    getEncodedSize,
+    type EncodedDanmakus
+} from './danmaku-codec';
+import { DEFAULT_STORE_BUDGET, getStorageItem, setStorageItems } from '../utils/storage';
+import type {
+    DanmakuStoreStats,
+    StoredVideoDanmaku,
+    StoredVideoMeta,
+    RawDanmaku,
+    VideoDanmakuPatch
+} from '../types';
+
+const DB_NAME = 'danmaku-store';
+const DB_VERSION = 2;
+// 元数据表：体积小，统计与淘汰只需读取此表
+const ENTRY_STORE = 'entries';
+// 弹幕表：列式编码的弹幕
+const COLUMN_STORE = 'danmakus';
+// 续传分段表：以 [cid, 分段序号] 为键的原始弹幕
+const PARTIAL_STORE = 'partials';
+
+/** 超过此时长未访问的记录直接清理（7天） */
+export const DANMAKU_EXPIRE_TIME = 7 * 24 * 60 * 60 * 1000;
+
+/** 续传分段的保留时长（1天） */
+export const PARTIAL_EXPIRE_TIME = 24 * 60 * 60 * 1000;
+
+interface StoreEntry {
+    videoId: string;
+    meta: StoredVideoMeta;
+    /** 估算占用（字节） */
+    size: number;
+    lastAccess: number;
+}
+
+interface ColumnRecord {
+    videoId: string;
+    columns: EncodedDanmakus;
+}
+
+interface PartialSegmentRecord {
+    cid: number;
+    index: number;
+    danmakus: RawDanmaku[];
+    savedAt: number;
+}
+
+/** 淘汰计算所需的记录信息 */
+export interface EvictionCandidate {
+    videoId: string;
+    size: number;
+    lastAccess: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(ENTRY_STORE)) {
+                    db.createObjectStore(ENTRY_STORE, { keyPath: 'videoId' });
+                }
+                if (!db.objectStoreNames.contains(COLUMN_STORE)) {
+                    db.createObjectStore(COLUMN_STORE, { keyPath: 'videoId' });
+                }
+                if (!db.objectStoreNames.contains(PARTIAL_STORE)) {
+                    const partials = db.createObjectStore(PARTIAL_STORE, {
+                        keyPath: ['cid', 'index']
+                    });
+                    partials.createIndex('savedAt', 'savedAt');
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error ?? new Error('打开弹幕数据库失败'));
+        });
+        // 打开失败时下次调用重试
+        dbPromise.catch(() => {
+            dbPromise = null;
+        });
+    }
+    return dbPromise;
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+ * 在事务中执行操作，事务提交后返回结果
+ * 操作内只能等待本事务的请求，否则事务会提前提交
+ */
+async function runTransaction<T>(
+    storeNames: string[],
+    mode: IDBTransactionMode,
+    run: (tx: IDBTransaction) => Promise<T>
+): Promise<T> {
+    const db = await openDatabase();
+    const tx = db.transaction(storeNames, mode);
+    const done = new Promise<void>((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error ?? new Error('弹幕数据库事务已中止'));
+    });
+
+    try {
+        const result = await run(tx);
+        await done;
+        return result;
+    } catch (error) {
+        done.catch(() => {});
+        try {
+            tx.abort();
+        } catch {
+            // 事务已结束
+        }
+        throw error;
+    }
+}
+
+function createRecord(
+    videoId: string,
+    record: StoredVideoDanmaku,
+    lastAccess: number
+): { entry: StoreEntry; columns: ColumnRecord } {
+    const { danmakus, ...rest } = record;
+    const columns = encodeDanmakus(danmakus);
+    const meta: StoredVideoMeta = { ...rest, count: danmakus.length };
+
+    return {
+        entry: {
+            videoId,
+            meta,
+            size: getEncodedSize(columns) + JSON.stringify(meta).length * 2,
+            lastAccess
+        },
+        columns: { videoId, columns }
+    };
+}
+
+async function writeRecords(
+    records: { entry: StoreEntry; columns: ColumnRecord }[]
+): Promise<void> {
+    await runTransaction([ENTRY_STORE, COLUMN_STORE], 'readwrite', async (tx) => {
+        const entries = tx.objectStore(ENTRY_STORE);
+        const columns = tx.objectStore(COLUMN_STORE);
+        for (const record of records) {
+            entries.put(record.entry);
+            columns.put(record.columns);
+        }
+    });
+}
+
+async function deleteRecords(videoIds: string[]): Promise<void> {
+    if (videoIds.length === 0) return;
+
+    await runTransaction([ENTRY_STORE, COLUMN_STORE], 'readwrite', async (tx) => {
+        const entries = tx.objectStore(ENTRY_STORE);
+        const columns = tx.objectStore(COLUMN_STORE);
+        for (const videoId of videoIds) {
+            entries.delete(videoId);
+            columns.delete(videoId);
+        }
+    });
+}
+
+async function getAllEntries(): Promise<StoreEntry[]> {
+    return runTransaction([ENTRY_STORE], 'readonly', (tx) =>
+        requestResult(tx.objectStore(ENTRY_STORE).getAll() as IDBRequest<StoreEntry[]>)
+    );
+}
+
+/**
+ * 读取视频弹幕，并更新最近访问时间
+ * @param videoId - YouTube 视频 ID
+ * @returns 弹幕记录，不存在时为 null
+ */
+export async function getVideoDanmaku(videoId: string): Promise<StoredVideoDanmaku | null> {
+    return runTransaction([ENTRY_STORE, COLUMN_STORE], 'readwrite', async (tx) => {
+        const entries = tx.objectStore(ENTRY_STORE);
+        const [entry, columns] = await Promise.all([
+            requestResult(entries.get(videoId) as IDBRequest<StoreEntry | undefined>),
+            requestResult(
+                tx.objectStore(COLUMN_STORE).get(videoId) as IDBRequest<ColumnRecord | undefined>
+            )
+        ]);
+        if (!entry || !columns) return null;
+
+        entries.put({ ...entry, lastAccess: Date.now() });
+        const { count: _count, ...meta } = entry.meta;
+        return { ...meta, danmakus: decodeDanmakus(columns.columns) };
+    });
+}
+
+/**
+ * 读取视频弹幕的元数据（不解码弹幕，不更新访问时间）
+ * @param videoId - YouTube 视频 ID
+ * @returns 元数据，不存在时为 null
+ */
+export async function getVideoMeta(videoId: string): Promise<StoredVideoMeta | null> {
+    const entry = await runTransaction([ENTRY_STORE], 'readonly', (tx) =>
+        requestResult(
+            tx.objectStore(ENTRY_STORE).get(videoId) as IDBRequest<StoreEntry | undefined>
+        )
+    );
+    return entry?.meta ?? null;
+}
+
+/**
+ * 保存视频弹幕（覆盖已有记录），超出存储上限时淘汰其他视频
+ * @param videoId - YouTube 视频 ID
+ * @param record - 弹幕记录
+ */
+export async function putVideoDanmaku(videoId: string, record: StoredVideoDanmaku): Promise<void> {
+    await writeRecords([createRecord(videoId, record, Date.now())]);
+    await enforceStoreBudget();
+}
+
+/**
+ * 更新视频弹幕记录的对齐结果或时间映射，不重写弹幕
+ * @param videoId - YouTube 视频 ID
+ * @param patch - 要更新的字段
+ * @returns 更新后的元数据
+ */
+export async function updateVideoDanmaku(
+    videoId: string,
+    patch: VideoDanmakuPatch
+): Promise<StoredVideoMeta> {
+    return runTransaction([ENTRY_STORE], 'readwrite', async (tx) => {
+        const entries = tx.objectStore(ENTRY_STORE);
+        const entry = await requestResult(
+            entries.get(videoId) as IDBRequest<StoreEntry | undefined>
+        );
+        if (!entry) {
+            throw new Error('当前视频没有弹幕数据');
+        }
+
+        const meta: StoredVideoMeta = { ...entry.meta };
+        if (patch.alignment) {
+            meta.alignment = patch.alignment;
+        }
+        if (patch.timeMap) {
+            if (patch.timeMap.length > 0) {
+                meta.timeMap = patch.timeMap;
+            } else {
+                delete meta.timeMap;
+            }
+        }
+
+        entries.put({ ...entry, meta });
+        return meta;
+    });
+}
+
+function partialRange(cid: number): IDBKeyRange {
+    return IDBKeyRange.bound([cid, 0], [cid, Infinity]);
+}
+
+/**
+ * 读取分P已保存的分段（超过保留时长的忽略）
+ * @param cid - 分P的 CID
+ * @returns 分段序号 → 原始弹幕
+ */
+export async function getPartialSegments(cid: number): Promise<Map<number, RawDanmaku[]>> {
+    const records = await runTransaction([PARTIAL_STORE], 'readonly', (tx) =>
+        requestResult(
+            tx.objectStore(PARTIAL_STORE).getAll(partialRange(cid)) as IDBRequest<
+                PartialSegmentRecord[]
+            >
+        )
+    );
+    const expireBefore = Date.now() - PARTIAL_EXPIRE_TIME;
+
+    return new Map(
+        records
+            .filter((record) => record.savedAt >= expireBefore)
+            .map((record) => [record.index, record.danmakus])
+    );
+}
+
+/**
+ * 保存分P已获取的分段
+ * @param cid - 分P的 CID
+ * @param segments - 分段序号 → 原始弹幕
+ */
+export async function putPartialSegments(
+    cid: number,
+    segments: Map<number, RawDanmaku[]>
+): Promise<void> {
+    if (segments.size === 0) return;
+
+    const savedAt = Date.now();
+    await runTransaction([PARTIAL_STORE], 'readwrite', async (tx) => {
+        const store = tx.objectStore(PARTIAL_STORE);
+        for (const [index, danmakus] of segments) {
+            store.put({ cid, index, danmakus, savedAt } satisfies PartialSegmentRecord);
+        }
+    });
+}
+
+/**
+ * 删除分P保存的全部分段（下载完整后调用）
+ * @param cid - 分P的 CID
+ */
+export async function deletePartialSegments(cid: number): Promise<void> {
+    await runTransaction([PARTIAL_STORE], 'readwrite', async (tx) => {
+        tx.objectStore(PARTIAL_STORE).delete(partialRange(cid));
+    });
+}
+
+// 删除超过保留时长的续传分段
+async function deleteExpiredPartials(now: number): Promise<void> {
+    await runTransaction([PARTIAL_STORE], 'readwrite', (tx) => {
+        const store = tx.objectStore(PARTIAL_STORE);
+        const request = store
+            .index('savedAt')
+            .openKeyCursor(IDBKeyRange.upperBound(now - PARTIAL_EXPIRE_TIME));
+
+        return new Promise<void>((resolve, reject) => {
+            request.onsuccess = () => {
+                const cursor = request.result;
+                if (!cursor) return resolve();
+                store.delete(cursor.primaryKey);
+                cursor.continue();
+            };
+            request.onerror = () => reject(request.error);
+        });
+    });
+}
+
+/**
+ * 获取存储上限
+ * @returns 上限（字节）
+ */
+export async function getStoreBudget(): Promise<number> {
+    const budget = await getStorageItem('danmakuStoreBudget');
+    return budget > 0 ? budget : DEFAULT_STORE_BUDGET;
+}
+
+/**
+ * 设置存储上限，并立即按新上限淘汰
+ * @param budget - 上限（字节）
+ * @returns 淘汰后的存储用量
+ */
+export async function setStoreBudget(budget: number): Promise<DanmakuStoreStats> {
+    if (!Number.isFinite(budget) || budget <= 0) {
+        throw new Error('无效的存储上限');
+    }
+
+    await setStorageItems({ danmakuStoreBudget: budget });
+    await enforceStoreBudget();
+    return getStoreStats();
+}
+
+/**
+ * 获取存储用量
+ */
+export async function getStoreStats(): Promise<DanmakuStoreStats> {
+    const [entries, budget] = await Promise.all([getAllEntries(), getStoreBudget()]);
+    return {
+        videos: entries.length,
+        bytes: entries.reduce((sum, entry) => sum + entry.size, 0),
+        budget
+    };
+}
+
+/**
+ * 计算需要淘汰的记录
+ * 先清理超过 DANMAKU_EXPIRE_TIME 未访问的记录，再按最近访问时间从旧到新淘汰，直到总占用不超过上限；
+ * 最近访问的一条记录（通常是正在观看的视频）始终保留
+ * @param entries - 全部记录
+ * @param budget - 存储上限（字节）
+ * @param now - 当前时间
+ * @returns 需要淘汰的视频 ID
+ */
+export function planEviction(
+    entries: EvictionCandidate[],
+    budget: number,
+    now: number = Date.now()
+): string[] {
+    const sorted = [...entries].sort((a, b) => a.lastAccess - b.lastAccess);
+    const latest = sorted.pop();
+    if (!latest) return [];
+
+    let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+    const evicted: string[] = [];
+
+    for (const entry of sorted) {
+        if (now - entry.lastAccess > DANMAKU_EXPIRE_TIME || total > budget) {
+            evicted.push(entry.videoId);
+            total -= entry.size;
+        }
+    }
+
+    return evicted;
+}
+
+/**
+ * 按存储上限与过期时间淘汰记录，同时清理过期的续传分段
+ * @returns 淘汰的视频数
+ */
+export async function enforceStoreBudget(): Promise<number> {
+    await deleteExpiredPartials(Date.now());
+
+    const [entries, budget] = await Promise.all([getAllEntries(), getStoreBudget()]);
+    const evicted = planEviction(entries, budget);
+
+    if (evicted.length > 0) {
+        await deleteRecords(evicted);
+        console.log(`清理弹幕缓存: ${evicted.length} 个视频`);
+    }
+    return evicted.length;
+}
+
+function isLegacyRecord(value: unknown): value is StoredVideoDanmaku {
+    const record = value as Partial<StoredVideoDanmaku> | undefined;
+    return Array.isArray(record?.danmakus) && typeof record.timestamp === 'number';
+}
+
+/**
+ * 将旧版保存在 storage.local 中的视频弹幕迁移到 IndexedDB
+ * 迁移的记录以下载时间作为最近访问时间
+ * @returns 迁移的视频数
+ */
+export async function migrateFromStorageLocal(): Promise<number> {
+    const items = await browser.storage.local.get(null);
+    const legacy = Object.entries(items).filter((item): item is [string, StoredVideoDanmaku] =>
+        isLegacyRecord(item[1])
+    );
+    if (legacy.length === 0) return 0;
+
+    await writeRecords(
+        legacy.map(([videoId, record]) => createRecord(videoId, record, record.timestamp))
+    );
+    await browser.storage.local.remove(legacy.map(([videoId]) => videoId));
+    await enforceStoreBudget();
+
+    console.log(`弹幕数据已迁移到 IndexedDB: ${legacy.length} 个视频`);
+    return legacy.length;
+}
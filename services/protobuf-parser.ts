@@ -0,0 +1,249 @@
+/**
+ * B站弹幕 Protobuf 解析模块
+ * 解码 seg.so 返回的 DmSegMobileReply / DanmakuElem 消息
+ */
+
+import type { RawDanmaku } from '../types';
+
+/** Protobuf 线路类型 */
+const WIRE_VARINT = 0;
+const WIRE_FIXED64 = 1;
+const WIRE_LENGTH_DELIMITED = 2;
+const WIRE_FIXED32 = 5;
+
+// varint 最长 10 字节（64 位）
+const MAX_VARINT_BYTES = 10;
+
+/** 解码错误类型 */
+export type ProtobufDecodeErrorCode = 'truncated' | 'malformed_varint' | 'unsupported_wire_type';
+
+/**
+ * Protobuf 解码错误
+ * 携带错误类型与出错位置，便于定位损坏的响应
+ */
+export class ProtobufDecodeError extends Error {
+    constructor(
+        readonly code: ProtobufDecodeErrorCode,
+        readonly offset: number,
+        message: string
+    ) {
+        super(message);
+        this.name = 'ProtobufDecodeError';
+    }
+}
+
+/** DmSegMobileReply 解码结果 */
+export interface DmSegMobileReply {
+    /** 弹幕列表 */
+    elems: RawDanmaku[];
+    /** 分段状态（0 正常，1 关闭） */
+    state: number;
+}
+
+/**
+ * Protobuf 二进制读取器
+ */
+export class ProtobufReader {
+    private offset = 0;
+    private decoder = new TextDecoder();
+
+    constructor(private buffer: Uint8Array) {}
+
+    /** 是否已读取完毕 */
+    get done(): boolean {
+        return this.offset >= this.buffer.length;
+    }
+
+    /** 当前读取位置 */
+    get position(): number {
+        return this.offset;
+    }
+
+    /**
+     * 读取 varint
+     * 超过 32 位时用乘法累加，53 位以内精确
+     */
+    readVarint(): number {
+        let value = 0;
+        let multiplier = 1;
+        const start = this.offset;
+
+        for (let i = 0; i < MAX_VARINT_BYTES; i++) {
+            const byte = this.readByte(start);
+            value += (byte & 0x7f) * multiplier;
+            if ((byte & 0x80) === 0) return value;
+            multiplier *= 128;
+        }
+
+        throw new ProtobufDecodeError('malformed_varint', start, 'varint 超过 10 字节');
+    }
+
+    /**
+     * 读取 varint 并以十进制字符串返回，用于 int64 字段（如弹幕 ID）
+     */
+    readVarintString(): string {
+        let value = BigInt(0);
+        let shift = BigInt(0);
+        const start = this.offset;
+
+        for (let i = 0; i < MAX_VARINT_BYTES; i++) {
+            const byte = this.readByte(start);
+            value |= BigInt(byte & 0x7f) << shift;
+            if ((byte & 0x80) === 0) return BigInt.asIntN(64, value).toString();
+            shift += BigInt(7);
+        }
+
+        throw new ProtobufDecodeError('malformed_varint', start, 'varint 超过 10 字节');
+    }
+
+    /** 读取长度前缀的字节串 */
+    readBytes(): Uint8Array {
+        const start = this.offset;
+        const length = this.readVarint();
+        const end = this.offset + length;
+
+        if (end > this.buffer.length) {
+            throw new ProtobufDecodeError(
+                'truncated',
+                start,
+                `字段长度 ${length} 超出剩余数据 ${this.buffer.length - this.offset}`
+            );
+        }
+
+        const bytes = this.buffer.subarray(this.offset, end);
+        this.offset = end;
+        return bytes;
+    }
+
+    /** 读取 UTF-8 字符串 */
+    readString(): string {
+        return this.decoder.decode(this.readBytes());
+    }
+
+    /**
+     * 读取字段标签
+     * @returns 字段编号与线路类型
+     */
+    readTag(): { fieldNumber: number; wireType: number } {
+        const tag = this.readVarint();
+        return { fieldNumber: Math.floor(tag / 8), wireType: tag & 0x07 };
+    }
+
+    /**
+     * 跳过未知字段
+     * @param wireType - 线路类型
+     */
+    skip(wireType: number): void {
+        const start = this.offset;
+
+        switch (wireType) {
+            case WIRE_VARINT:
+                this.readVarint();
+                break;
+            case WIRE_FIXED64:
+                this.advance(8, start);
+                break;
+            case WIRE_LENGTH_DELIMITED:
+                this.readBytes();
+                break;
+            case WIRE_FIXED32:
+                this.advance(4, start);
+                break;
+            default:
+                throw new ProtobufDecodeError(
+                    'unsupported_wire_type',
+                    start,
+                    `不支持的线路类型: ${wireType}`
+                );
+        }
+    }
+
+    private readByte(start: number): number {
+        if (this.offset >= this.buffer.length) {
+            throw new ProtobufDecodeError('truncated', start, 'varint 数据不完整');
+        }
+        return this.buffer[this.offset++];
+    }
+
+    private advance(length: number, start: number): void {
+        if (this.offset + length > this.buffer.length) {
+            throw new ProtobufDecodeError('truncated', start, '定长字段数据不完整');
+        }
+        this.offset += length;
+    }
+}
+
+/**
+ * 解码单条 DanmakuElem
+ * @param bytes - DanmakuElem 消息字节
+ * @returns 原始弹幕
+ */
+export function decodeDanmakuElem(bytes: Uint8Array): RawDanmaku {
+    const reader = new ProtobufReader(bytes);
+    const elem: RawDanmaku = { progress: 0, content: '' };
+
+    while (!reader.done) {
+        const { fieldNumber, wireType } = reader.readTag();
+
+        // 线路类型与定义不符时按未知字段跳过
+        const isVarint = wireType === WIRE_VARINT;
+        const isBytes = wireType === WIRE_LENGTH_DELIMITED;
+
+        if (fieldNumber === 1 && isVarint) elem.id = reader.readVarintString();
+        else if (fieldNumber === 2 && isVarint) elem.progress = reader.readVarint();
+        else if (fieldNumber === 3 && isVarint) elem.mode = reader.readVarint();
+        else if (fieldNumber === 4 && isVarint) elem.fontsize = reader.readVarint();
+        else if (fieldNumber === 5 && isVarint) elem.color = reader.readVarint();
+        else if (fieldNumber === 6 && isBytes) elem.midHash = reader.readString();
+        else if (fieldNumber === 7 && isBytes) elem.content = reader.readString();
+        else if (fieldNumber === 8 && isVarint) elem.ctime = reader.readVarintString();
+        else if (fieldNumber === 9 && isVarint) elem.weight = reader.readVarint();
+        else if (fieldNumber === 10 && isBytes) elem.action = reader.readString();
+        else if (fieldNumber === 11 && isVarint) elem.pool = reader.readVarint();
+        else if (fieldNumber === 12 && isBytes) elem.idStr = reader.readString();
+        else if (fieldNumber === 13 && isVarint) elem.attr = reader.readVarint();
+        else reader.skip(wireType);
+    }
+
+    return elem;
+}
+
+/**
+ * 解码 seg.so 响应（DmSegMobileReply）
+ * 未知字段会被跳过，数据截断时抛出 ProtobufDecodeError
+ * @param buffer - 响应数据
+ * @returns 解码结果
+ */
+export function decodeDmSegMobileReply(buffer: ArrayBuffer | Uint8Array): DmSegMobileReply {
+    const reader = new ProtobufReader(
+        buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer)
+    );
+    const reply: DmSegMobileReply = { elems: [], state: 0 };
+
+    while (!reader.done) {
+        const { fieldNumber, wireType } = reader.readTag();
+
+        if (fieldNumber === 1 && wireType === WIRE_LENGTH_DELIMITED) {
+            const bytes = reader.readBytes();
+            try {
+                reply.elems.push(decodeDanmakuElem(bytes));
+            } catch (error) {
+                // 嵌套消息内的偏移换算为整个响应中的位置
+                if (error instanceof ProtobufDecodeError) {
+                    throw new ProtobufDecodeError(
+                        error.code,
+                        reader.position - bytes.length + error.offset,
+                        `第 ${reply.elems.length + 1} 条弹幕解析失败: ${error.message}`
+                    );
+                }
+                throw error;
+            }
+        } else if (fieldNumber === 2 && wireType === WIRE_VARINT) {
+            reply.state = reader.readVarint();
+        } else {
+            reader.skip(wireType);
+        }
+    }
+
+    return reply;
+}
@@ -0,0 +1,75 @@
+/**
+ * 后台会话状态
+ * MV3 service worker 空闲时会被挂起，内存中的变量随之丢失；
+ * 状态同时写入 storage.session（浏览器关闭前一直保留），worker 重新启动后自动恢复
+ */
+
+/**
+ * 保存在 storage.session 中的单个状态值
+ * 所有读写都在恢复完成后进行，恢复后的更新按调用顺序生效
+ */
+export class SessionState<T> {
+    private value: T;
+    private readonly restored: Promise<void>;
+
+    /**
+     * @param key - storage.session 中的键
+     * @param initial - 没有已保存状态时的初始值
+     */
+    constructor(
+        private readonly key: string,
+        initial: T
+    ) {
+        this.value = initial;
+        this.restored = this.restore();
+    }
+
+    private async restore(): Promise<void> {
+        try {
+            const result = await browser.storage.session.get(this.key);
+            if (result[this.key] !== undefined) {
+                this.value = result[this.key] as T;
+            }
+        } catch (error) {
+            console.error(`恢复会话状态失败: ${this.key}`, error);
+        }
+    }
+
+    private async persist(): Promise<void> {
+        try {
+            await browser.storage.session.set({ [this.key]: this.value });
+        } catch (error) {
+            console.error(`保存会话状态失败: ${this.key}`, error);
+        }
+    }
+
+    /**
+     * 读取当前值
+     */
+    async get(): Promise<T> {
+        await this.restored;
+        return this.value;
+    }
+
+    /**
+     * 替换当前值
+     * @param value - 新值
+     */
+    async set(value: T): Promise<void> {
+        await this.restored;
+        this.value = value;
+        await this.persist();
+    }
+
+    /**
+     * 基于当前值计算新值
+     * @param updater - 接收当前值并返回新值，不应修改传入的对象
+     * @returns 新值
+     */
+    async update(updater: (value: T) => T): Promise<T> {
+        await this.restored;
+        this.value = updater(this.value);
+        await this.persist();
+        return this.value;
+    }
+}
@@ -0,0 +1,88 @@
+/**
+ * 存储结构迁移
+ * 按版本顺序执行迁移函数，将旧版本的本地存储升级到 STORAGE_SCHEMA_VERSION，
+ * 每完成一步即记录版本，中途失败时下次从失败的一步继续
+ */
+
+import { migrateFromStorageLocal } from './danmaku-store';
+import {
+    normalizeDanmakuSettings,
+    SCHEMA_VERSION_KEY,
+    setStorageItems,
+    type StorageSchema
+} from '../utils/storage';
+
+/** 单步迁移：将存储从 version - 1 升级到 version */
+export interface StorageMigration {
+    version: number;
+    description: string;
+    migrate: () => Promise<void>;
+}
+
+/** 全部迁移，按版本升序排列 */
+export const STORAGE_MIGRATIONS: StorageMigration[] = [
+    {
+        version: 1,
+        description: '补全弹幕设置与频道关联的缺失字段',
+        migrate: async () => {
+            const result = await browser.storage.local.get(['danmakuSettings', 'channelMappings']);
+            const updates: Partial<StorageSchema> = {};
+
+            if (result.danmakuSettings) {
+                updates.danmakuSettings = normalizeDanmakuSettings(
+                    result.danmakuSettings as Partial<StorageSchema['danmakuSettings']>
+                );
+            }
+            if (result.channelMappings) {
+                const mappings = result.channelMappings as StorageSchema['channelMappings'];
+                updates.channelMappings = Object.fromEntries(
+                    Object.entries(mappings).map(([channelId, association]) => [
+                        channelId,
+                        { ...association, lastUpdate: association.lastUpdate ?? 0 }
+                    ])
+                );
+            }
+
+            await setStorageItems(updates);
+        }
+    },
+    {
+        version: 2,
+        description: '视频弹幕迁移到 IndexedDB',
+        migrate: async () => {
+            await migrateFromStorageLocal();
+        }
+    },
+    {
+        version: 3,
+        description: '清理旧版本留在本地存储中的待显示搜索结果',
+        migrate: async () => {
+            // 待显示结果已改由 background 的会话状态保存
+            await browser.storage.local.remove(['pendingSearchResults', 'pendingNoMatchResults']);
+        }
+    }
+];
+
+/**
+ * 执行尚未完成的迁移
+ * @param migrations - 迁移列表，默认为 STORAGE_MIGRATIONS
+ * @returns 执行的迁移数量
+ */
+export async function runStorageMigrations(
+    migrations: StorageMigration[] = STORAGE_MIGRATIONS
+): Promise<number> {
+    const result = await browser.storage.local.get(SCHEMA_VERSION_KEY);
+    const current = typeof result[SCHEMA_VERSION_KEY] === 'number' ? result[SCHEMA_VERSION_KEY] : 0;
+
+    const pending = migrations
+        .filter((migration) => migration.version > current)
+        .sort((a, b) => a.version - b.version);
+
+    for (const migration of pending) {
+        await migration.migrate();
+        await browser.storage.local.set({ [SCHEMA_VERSION_KEY]: migration.version });
+        console.log(`存储结构已升级到版本 ${migration.version}: ${migration.description}`);
+    }
+
+    return pending.length;
+}
@@ -0,0 +1,253 @@
+/**
+ * 时间轴自动对齐服务
+ * 将B站弹幕的时间分布与 YouTube 侧的时间标记（章节、简介与评论中的时间戳）做互相关，
+ * 估算全局偏移，并在两边时长不一致时尝试找出被剪掉的片段
+ */
+
+import type { AlignmentSegment, Danmaku, TimelineAlignment } from '../types';
+
+/** 自动对齐的输入 */
+export interface AlignmentInput {
+    danmakus: Danmaku[];
+    /** B站视频时长（秒） */
+    bilibiliDuration: number;
+    /** YouTube 视频时长（秒） */
+    youtubeDuration: number | null;
+    /** YouTube 侧的时间标记（秒） */
+    youtubeMarkers: number[];
+}
+
+/** 低于此置信度的对齐结果不应自动应用 */
+export const MIN_ALIGNMENT_CONFIDENCE = 0.5;
+
+// 时长差在此范围内视为同一版本（秒）
+const DURATION_TOLERANCE = 2;
+// 偏移搜索范围的余量（秒）
+const SEARCH_MARGIN = 30;
+// 偏移搜索范围上限（秒）
+const MAX_SEARCH_RANGE = 600;
+// 弹幕密度平滑窗口半径（秒）
+const DENSITY_WINDOW = 2;
+// "空降" 跳转目标的高斯平滑宽度（秒）
+const JUMP_TARGET_SIGMA = 2;
+// 每段至少需要的时间标记数
+const MIN_MARKERS_PER_SEGMENT = 3;
+// 分段对齐得分需超过全局对齐的倍数才采用
+const SPLIT_GAIN = 1.2;
+
+// 弹幕中的 "空降 12:34" / "空降1:02:03"
+const JUMP_PATTERN = /空降\s*(?:(\d{1,2})[:：])?(\d{1,2})[:：](\d{2})/;
+
+/**
+ * 从弹幕中提取 "空降" 跳转目标（B站时间，秒）
+ * @param danmakus - 弹幕数组
+ * @returns 跳转目标时间
+ */
+export function extractJumpTargets(danmakus: Danmaku[]): number[] {
+    const targets: number[] = [];
+    for (const danmaku of danmakus) {
+        const match = danmaku.text.match(JUMP_PATTERN);
+        if (!match) continue;
+
+        const hours = match[1] ? parseInt(match[1]) : 0;
+        targets.push(hours * 3600 + parseInt(match[2]) * 60 + parseInt(match[3]));
+    }
+    return targets;
+}
+
+/**
+ * 构建B站侧的时间信号（每秒一个采样）
+ * 由弹幕密度的高峰与 "空降" 目标叠加而成，取值范围 0-1
+ * @param danmakus - 弹幕数组
+ * @param duration - B站视频时长（秒）
+ * @returns 时间信号
+ */
+function buildBilibiliSignal(danmakus: Danmaku[], duration: number): Float32Array {
+    const length = Math.max(1, Math.ceil(duration) + 1);
+
+    // 弹幕密度直方图，平滑后只保留高于平均值的部分
+    const histogram = new Float32Array(length);
+    for (const danmaku of danmakus) {
+        const bin = Math.floor(danmaku.time);
+        // 旧版本缓存中已合并的重复弹幕按原始数量计入密度
+        if (bin >= 0 && bin < length) histogram[bin] += danmaku.count ?? 1;
+    }
+
+    const density = new Float32Array(length);
+    let sum = 0;
+    for (let i = 0; i < length; i++) {
+        let windowSum = 0;
+        for (let j = i - DENSITY_WINDOW; j <= i + DENSITY_WINDOW; j++) {
+            // 三角窗平滑，保证高峰位置明确
+            if (j >= 0 && j < length)
+                windowSum += histogram[j] * (DENSITY_WINDOW + 1 - Math.abs(i - j));
+        }
+        density[i] = windowSum;
+        sum += windowSum;
+    }
+
+    const mean = sum / length;
+    const peaks = density.map((value) => Math.max(0, value - mean));
+    normalize(peaks);
+
+    // "空降" 目标通常指向看点，与 YouTube 的章节/时间戳高度相关，权重更高
+    const jumps = new Float32Array(length);
+    const radius = Math.ceil(JUMP_TARGET_SIGMA * 3);
+    for (const target of extractJumpTargets(danmakus)) {
+        for (
+            let i = Math.max(0, target - radius);
+            i <= Math.min(length - 1, target + radius);
+            i++
+        ) {
+            const d = i - target;
+            jumps[i] += Math.exp(-(d * d) / (2 * JUMP_TARGET_SIGMA * JUMP_TARGET_SIGMA));
+        }
+    }
+    normalize(jumps);
+
+    const signal = new Float32Array(length);
+    for (let i = 0; i < length; i++) {
+        signal[i] = 0.4 * peaks[i] + jumps[i];
+    }
+    normalize(signal);
+    return signal;
+}
+
+function normalize(values: Float32Array): void {
+    let max = 0;
+    for (const value of values) max = Math.max(max, value);
+    if (max > 0) {
+        for (let i = 0; i < values.length; i++) values[i] /= max;
+    }
+}
+
+/**
+ * 计算一组时间标记在给定偏移下的平均信号强度
+ */
+function scoreOffset(signal: Float32Array, markers: number[], offset: number): number {
+    if (markers.length === 0) return 0;
+
+    let total = 0;
+    for (const marker of markers) {
+        const index = Math.round(marker + offset);
+        if (index >= 0 && index < signal.length) total += signal[index];
+    }
+    return total / markers.length;
+}
+
+/**
+ * 在搜索范围内寻找得分最高的偏移
+ * @returns 最佳偏移、得分，以及得分相对其他偏移的显著程度（z 分数）
+ */
+function findBestOffset(
+    signal: Float32Array,
+    markers: number[],
+    range: number,
+    preferred: number[]
+): { offset: number; score: number; zScore: number } {
+    let best = { offset: 0, score: -1 };
+    let sum = 0;
+    let sumSquares = 0;
+    let count = 0;
+
+    for (let offset = -range; offset <= range; offset++) {
+        const score = scoreOffset(signal, markers, offset);
+        sum += score;
+        sumSquares += score * score;
+        count++;
+
+        // 得分相同时优先与时长差相符的偏移
+        const isPreferred = preferred.includes(offset);
+        if (score > best.score || (score === best.score && isPreferred)) {
+            best = { offset, score };
+        }
+    }
+
+    const mean = sum / count;
+    const std = Math.sqrt(Math.max(0, sumSquares / count - mean * mean));
+    const zScore = std > 0 ? (best.score - mean) / std : 0;
+
+    return { ...best, zScore };
+}
+
+/**
+ * 由显著程度和标记数量估算置信度
+ */
+function toConfidence(zScore: number, markerCount: number): number {
+    const significance = Math.min(1, Math.max(0, (zScore - 2) / 3));
+    const coverage = Math.min(1, markerCount / (MIN_MARKERS_PER_SEGMENT * 2));
+    return Math.round(significance * coverage * 100) / 100;
+}
+
+/**
+ * 自动对齐B站弹幕与 YouTube 视频的时间轴
+ * @param input - 对齐输入
+ * @returns 对齐结果
+ */
+export function alignTimeline(input: AlignmentInput): TimelineAlignment {
+    const { danmakus, bilibiliDuration, youtubeDuration } = input;
+    const markers = [...new Set(input.youtubeMarkers.map((m) => Math.round(m)))]
+        .filter((m) => m >= 0)
+        .sort((a, b) => a - b);
+
+    const durationDiff = youtubeDuration ? Math.round(bilibiliDuration - youtubeDuration) : 0;
+    const sameVersion = Math.abs(durationDiff) <= DURATION_TOLERANCE;
+
+    // 没有 YouTube 时间标记时只能依赖时长：时长一致即无需偏移
+    if (markers.length < MIN_MARKERS_PER_SEGMENT || danmakus.length === 0) {
+        return {
+            segments: [{ start: 0, offset: 0 }],
+            confidence: youtubeDuration && sameVersion ? 1 : 0,
+            markerCount: markers.length
+        };
+    }
+
+    const signal = buildBilibiliSignal(danmakus, bilibiliDuration);
+    const range = Math.min(MAX_SEARCH_RANGE, Math.abs(durationDiff) + SEARCH_MARGIN);
+    const preferred = [0, durationDiff];
+
+    const global = findBestOffset(signal, markers, range, preferred);
+    const result: TimelineAlignment = {
+        segments: [{ start: 0, offset: global.offset }],
+        confidence: toConfidence(global.zScore, markers.length),
+        markerCount: markers.length
+    };
+
+    // 时长不一致时，尝试找一个剪切点把时间轴分成两段
+    if (sameVersion || markers.length < MIN_MARKERS_PER_SEGMENT * 2) {
+        return result;
+    }
+
+    let bestSplit: { segments: AlignmentSegment[]; score: number; zScore: number } | null = null;
+    for (let k = MIN_MARKERS_PER_SEGMENT; k <= markers.length - MIN_MARKERS_PER_SEGMENT; k++) {
+        const before = markers.slice(0, k);
+        const after = markers.slice(k);
+        const first = findBestOffset(signal, before, range, preferred);
+        const second = findBestOffset(signal, after, range, preferred);
+
+        if (Math.abs(second.offset - first.offset) <= DURATION_TOLERANCE) continue;
+
+        const score = (first.score * before.length + second.score * after.length) / markers.length;
+        if (!bestSplit || score > bestSplit.score) {
+            bestSplit = {
+                segments: [
+                    { start: 0, offset: first.offset },
+                    // 剪切点未知，取两侧标记的中点
+                    { start: (markers[k - 1] + markers[k]) / 2, offset: second.offset }
+                ],
+                score,
+                zScore: Math.min(first.zScore, second.zScore)
+            };
+        }
+    }
+
+    if (bestSplit && bestSplit.score > global.score * SPLIT_GAIN) {
+        return {
+            segments: bestSplit.segments,
+            confidence: toConfidence(bestSplit.zScore, markers.length / 2),
+            markerCount: markers.length
+        };
+    }
+
+    return result;
+}
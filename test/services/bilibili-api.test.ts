@@ -0,0 +1,206 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+    downloadAllDanmaku,
+    getSegmentDanmaku,
+    mergeRawDanmakus
+} from '../../services/bilibili-api';
+import type { RawDanmaku } from '../../types';
+
+// 续传分段保存在内存中代替 IndexedDB
+const partials = vi.hoisted(() => new Map<number, Map<number, RawDanmaku[]>>());
+vi.mock('../../services/danmaku-store', () => ({
+    getPartialSegments: async (cid: number) => new Map(partials.get(cid)),
+    putPartialSegments: async (cid: number, segments: Map<number, RawDanmaku[]>) => {
+        partials.set(cid, new Map([...(partials.get(cid) ?? []), ...segments]));
+    },
+    deletePartialSegments: async (cid: number) => {
+        partials.delete(cid);
+    }
+}));
+
+const CID = 1001;
+// 5 个分段（每段 6 分钟）
+const DURATION = 5 * 360;
+
+// 每段一条弹幕，内容为分段序号
+function encodeSegment(index: number): Uint8Array {
+    const content = new TextEncoder().encode(`第${index}段`);
+    const elem = [0x10, index, 0x3a, content.length, ...content];
+    return new Uint8Array([0x0a, elem.length, ...elem]);
+}
+
+let segmentHandler: (index: number) => Promise<Response>;
+let segmentCalls: number[];
+
+beforeEach(() => {
+    partials.clear();
+    segmentCalls = [];
+    segmentHandler = async (index) => new Response(encodeSegment(index));
+    for (const area of [browser.storage.local, browser.storage.session]) {
+        area.get.mockResolvedValue({});
+        area.set.mockResolvedValue(undefined);
+    }
+
+    vi.stubGlobal(
+        'fetch',
+        vi.fn(async (input: string) => {
+            const url = new URL(input);
+            if (url.pathname === '/x/web-interface/nav') {
+                return Response.json({
+                    code: 0,
+                    data: {
+                        wbi_img: {
+                            img_url:
+                                'https://i0.hdslb.com/bfs/wbi/7cd084941338484aae1ad9425b84077c.png',
+                            sub_url:
+                                'https://i0.hdslb.com/bfs/wbi/4932caff0ff746eab6f01bf08b70ac45.png'
+                        }
+                    }
+                });
+            }
+            if (url.pathname === '/x/web-interface/view') {
+                return Response.json({
+                    code: 0,
+                    data: { aid: 1, cid: CID, duration: DURATION, title: '测试', pages: [] }
+                });
+            }
+            if (url.pathname.endsWith('/seg.so')) {
+                const index = Number(url.searchParams.get('segment_index'));
+                segmentCalls.push(index);
+                return segmentHandler(index);
+            }
+            // 广告片段接口
+            return new Response('', { status: 404 });
+        })
+    );
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+});
+
+// 每个用例使用不同的 bvid，避免命中视频信息缓存
+let bvidSeed = 0;
+const nextBvid = () => `BV1test${bvidSeed++}`;
+
+describe('bilibili api', () => {
+    describe('mergeRawDanmakus', () => {
+        it('should deduplicate danmaku by id', () => {
+            const realtime = [{ id: '1', idStr: '1', progress: 1000, content: 'a' }];
+            const history = [
+                { id: '1', idStr: '1', progress: 1000, content: 'a' },
+                { id: '2', idStr: '2', progress: 2000, content: 'b' }
+            ];
+
+            expect(mergeRawDanmakus(realtime, history).map((d) => d.idStr)).toEqual(['1', '2']);
+        });
+
+        it('should fall back to time, sender and content without an id', () => {
+            const merged = mergeRawDanmakus(
+                [{ progress: 1000, content: 'a', midHash: 'x' }],
+                [
+                    { progress: 1000, content: 'a', midHash: 'x' },
+                    { progress: 1000, content: 'a', midHash: 'y' }
+                ]
+            );
+
+            expect(merged).toHaveLength(2);
+        });
+    });
+
+    describe('downloadAllDanmaku', () => {
+        it('should download at most 3 segments at a time', async () => {
+            let active = 0;
+            let maxActive = 0;
+            segmentHandler = async (index) => {
+                maxActive = Math.max(maxActive, ++active);
+                await new Promise((resolve) => setTimeout(resolve, 5));
+                active--;
+                return new Response(encodeSegment(index));
+            };
+
+            const result = await downloadAllDanmaku(nextBvid());
+
+            expect(maxActive).toBe(3);
+            expect(segmentCalls.sort()).toEqual([1, 2, 3, 4, 5]);
+            expect(result.danmakus).toHaveLength(5);
+            expect(Object.values(result.segments).every(Boolean)).toBe(true);
+        });
+
+        it('should resume from saved segments and only fetch the missing ones', async () => {
+            segmentHandler = async (index) =>
+                index === 3
+                    ? new Response('', { status: 404 })
+                    : new Response(encodeSegment(index));
+
+            const first = await downloadAllDanmaku(nextBvid());
+            expect(first.segments).toEqual({ 1: true, 2: true, 3: false, 4: true, 5: true });
+            expect([...partials.get(CID)!.keys()].sort()).toEqual([1, 2, 4, 5]);
+
+            segmentCalls = [];
+            segmentHandler = async (index) => new Response(encodeSegment(index));
+            const second = await downloadAllDanmaku(nextBvid());
+
+            expect(segmentCalls).toEqual([3]);
+            expect(second.danmakus.map((d) => d.text).sort()).toEqual(
+                ['第1段', '第2段', '第3段', '第4段', '第5段'].sort()
+            );
+            expect(partials.has(CID)).toBe(false);
+        });
+
+        it('should retry a failed segment with exponential backoff', async () => {
+            vi.useFakeTimers();
+            vi.spyOn(Math, 'random').mockReturnValue(0);
+            let failures = 2;
+            segmentHandler = async (index) =>
+                index === 2 && failures-- > 0
+                    ? new Response('', { status: 503 })
+                    : new Response(encodeSegment(index));
+
+            const download = downloadAllDanmaku(nextBvid());
+            await vi.runAllTimersAsync();
+            const result = await download;
+
+            expect(segmentCalls.filter((index) => index === 2)).toHaveLength(3);
+            expect(result.segments[2]).toBe(true);
+            const warnings = vi.mocked(console.warn).mock.calls.map(([message]) => message);
+            expect(warnings).toContainEqual(expect.stringContaining('500ms 后重试 (1/3)'));
+            expect(warnings).toContainEqual(expect.stringContaining('1000ms 后重试 (2/3)'));
+        });
+
+        it('should give up on a segment after the retry limit', async () => {
+            vi.useFakeTimers();
+            segmentHandler = async (index) =>
+                index === 5
+                    ? new Response('', { status: 503 })
+                    : new Response(encodeSegment(index));
+
+            const download = downloadAllDanmaku(nextBvid());
+            await vi.runAllTimersAsync();
+            const result = await download;
+
+            expect(segmentCalls.filter((index) => index === 5)).toHaveLength(4);
+            expect(result.segments[5]).toBe(false);
+            expect(partials.get(CID)?.has(5)).toBe(false);
+        });
+    });
+
+    describe('getSegmentDanmaku', () => {
+        it('should report a corrupted segment as a parse failure', async () => {
+            // 字段声明长度 10，实际只有 2 字节
+            segmentHandler = async () => new Response(new Uint8Array([0x0a, 10, 0x10, 1]));
+
+            await expect(getSegmentDanmaku(CID, 1, 1)).rejects.toMatchObject({
+                name: 'BilibiliRequestError',
+                step: 'parse',
+                message: expect.stringContaining('获取第1段弹幕失败: 弹幕数据损坏')
+            });
+            expect(segmentCalls).toEqual([1]);
+        });
+    });
+});
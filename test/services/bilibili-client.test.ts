@@ -0,0 +1,198 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+    BilibiliRequestError,
+    bilibiliBinary,
+    bilibiliJson,
+    getBackoffDelay
+} from '../../services/bilibili-client';
+import { wbiKeysCache } from '../../utils/cache-manager';
+
+const NAV_URL = 'https://api.bilibili.com/x/web-interface/nav';
+const API_URL = 'https://api.bilibili.com/x/test';
+
+const jsonResponse = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+        status,
+        headers: { 'content-type': 'application/json' }
+    });
+
+const navResponse = (code = 0) =>
+    jsonResponse({
+        code,
+        data: {
+            wbi_img: {
+                img_url: 'https://i0.hdslb.com/bfs/wbi/7cd084941338484aae1ad9425b84077c.png',
+                sub_url: 'https://i0.hdslb.com/bfs/wbi/4932caff0ff746eab6f01bf08b70ac45.png'
+            }
+        }
+    });
+
+let apiResponses: Response[];
+let navResponses: Response[];
+let fetchMock: ReturnType<typeof vi.fn>;
+
+beforeEach(() => {
+    browser.storage.local.get.mockResolvedValue({});
+    browser.storage.local.set.mockResolvedValue(undefined);
+    wbiKeysCache.clear();
+
+    apiResponses = [];
+    navResponses = [];
+    fetchMock = vi.fn(async (url: string) =>
+        url.startsWith(NAV_URL) ? (navResponses.shift() ?? navResponse()) : apiResponses.shift()!
+    );
+    vi.stubGlobal('fetch', fetchMock);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+});
+
+const apiCalls = () =>
+    fetchMock.mock.calls.map(([url]) => url as string).filter((url) => url.startsWith(API_URL));
+const navCalls = () =>
+    fetchMock.mock.calls.filter(([url]) => (url as string).startsWith(NAV_URL)).length;
+
+describe('bilibili client', () => {
+    it('should sign WBI requests with fingerprint params', async () => {
+        apiResponses.push(jsonResponse({ code: 0, data: 1 }));
+
+        const data = await bilibiliJson(API_URL, { params: { keyword: 'a' }, wbi: true });
+
+        expect(data.data).toBe(1);
+        const url = new URL(apiCalls()[0]);
+        expect(url.searchParams.get('keyword')).toBe('a');
+        expect(url.searchParams.get('dm_img_list')).toBe('[]');
+        expect(url.searchParams.get('dm_img_str')).toBeTruthy();
+        expect(url.searchParams.get('w_rid')).toMatch(/^[0-9a-f]{32}$/);
+    });
+
+    it('should not sign plain requests', async () => {
+        apiResponses.push(jsonResponse({ code: 0 }));
+
+        await bilibiliJson(API_URL, { params: { bvid: 'BV1' } });
+
+        expect(apiCalls()).toEqual([`${API_URL}?bvid=BV1`]);
+        expect(navCalls()).toBe(0);
+    });
+
+    it('should refresh WBI keys once after a risk-control code', async () => {
+        apiResponses.push(jsonResponse({ code: -352, message: '风控校验失败' }));
+        apiResponses.push(jsonResponse({ code: 0, data: 'ok' }));
+
+        const data = await bilibiliJson(API_URL, { wbi: true });
+
+        expect(data.data).toBe('ok');
+        expect(apiCalls()).toHaveLength(2);
+        expect(navCalls()).toBe(2);
+    });
+
+    it('should report risk control after retries are exhausted', async () => {
+        vi.useFakeTimers();
+        for (let i = 0; i < 3; i++) {
+            apiResponses.push(new Response('', { status: 412 }));
+        }
+
+        const request = bilibiliJson(API_URL, { wbi: true, maxRetries: 1, label: '搜索' });
+        const assertion = expect(request).rejects.toMatchObject({
+            step: 'risk-control',
+            status: 412,
+            message: '搜索失败: 触发B站风控校验（HTTP 412）'
+        });
+        await vi.runAllTimersAsync();
+        await assertion;
+
+        // 刷新密钥一次 + 退避重试一次
+        expect(apiCalls()).toHaveLength(3);
+    });
+
+    it('should back off and retry server errors', async () => {
+        vi.useFakeTimers();
+        apiResponses.push(new Response('', { status: 503 }));
+        apiResponses.push(jsonResponse({ code: 0 }));
+
+        const request = bilibiliJson(API_URL);
+        await vi.runAllTimersAsync();
+
+        await expect(request).resolves.toEqual({ code: 0 });
+        expect(apiCalls()).toHaveLength(2);
+    });
+
+    it('should not retry other API errors', async () => {
+        apiResponses.push(jsonResponse({ code: -404, message: '啥都木有' }));
+
+        const error = await bilibiliJson(API_URL, { label: '获取视频信息' }).catch((e) => e);
+
+        expect(error).toBeInstanceOf(BilibiliRequestError);
+        expect(error.step).toBe('api');
+        expect(error.code).toBe(-404);
+        expect(error.message).toBe('获取视频信息失败: 啥都木有');
+        expect(apiCalls()).toHaveLength(1);
+    });
+
+    it('should use WBI keys from a logged-out nav response', async () => {
+        navResponses.push(navResponse(-101));
+        apiResponses.push(jsonResponse({ code: 0 }));
+
+        await bilibiliJson(API_URL, { wbi: true });
+
+        expect(new URL(apiCalls()[0]).searchParams.get('w_rid')).toMatch(/^[0-9a-f]{32}$/);
+    });
+
+    it('should back off and retry failed WBI key requests', async () => {
+        vi.useFakeTimers();
+        navResponses.push(new Response('', { status: 503 }));
+        apiResponses.push(jsonResponse({ code: 0, data: 'ok' }));
+
+        const request = bilibiliJson(API_URL, { wbi: true });
+        await vi.runAllTimersAsync();
+
+        await expect(request).resolves.toMatchObject({ data: 'ok' });
+        expect(navCalls()).toBe(2);
+        expect(apiCalls()).toHaveLength(1);
+    });
+
+    it('should classify WBI key failures after retries are exhausted', async () => {
+        navResponses.push(jsonResponse({ code: 0, data: {} }));
+
+        const error = await bilibiliJson(API_URL, {
+            wbi: true,
+            maxRetries: 0,
+            label: '搜索'
+        }).catch((e) => e);
+
+        expect(error).toBeInstanceOf(BilibiliRequestError);
+        expect(error.step).toBe('wbi-keys');
+        expect(error.message).toBe(
+            '搜索失败: 无法获取 WBI 签名密钥（获取 WBI Keys失败: 响应缺少 wbi_img）'
+        );
+        expect(apiCalls()).toHaveLength(0);
+    });
+
+    it('should report network failures', async () => {
+        fetchMock.mockRejectedValue(new TypeError('Failed to fetch'));
+
+        await expect(bilibiliJson(API_URL, { maxRetries: 0 })).rejects.toMatchObject({
+            step: 'network'
+        });
+    });
+
+    it('should return binary bodies and check JSON error bodies', async () => {
+        apiResponses.push(new Response(new Uint8Array([1, 2, 3])));
+        apiResponses.push(jsonResponse({ code: -101, message: '账号未登录' }));
+
+        const buffer = await bilibiliBinary(API_URL);
+        expect(new Uint8Array(buffer)).toEqual(new Uint8Array([1, 2, 3]));
+
+        await expect(bilibiliBinary(API_URL)).rejects.toMatchObject({ step: 'api', code: -101 });
+    });
+
+    it('should grow the backoff delay with jitter', () => {
+        vi.spyOn(Math, 'random').mockReturnValue(1);
+        expect(getBackoffDelay(0)).toBe(750);
+        expect(getBackoffDelay(2)).toBe(3000);
+    });
+});
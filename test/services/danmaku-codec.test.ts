@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { decodeDanmakus, encodeDanmakus, getEncodedSize } from '../../services/danmaku-codec';
+import type { Danmaku } from '../../types';
+
+const advanced: Danmaku['advanced'] = {
+    startX: 0.1,
+    startY: 0.2,
+    endX: 0.5,
+    endY: 0.2,
+    alphaFrom: 1,
+    alphaTo: 0,
+    duration: 3000,
+    moveDuration: 1000,
+    moveDelay: 0,
+    rotateZ: 0,
+    rotateY: 0,
+    outline: true,
+    accelerate: false,
+    supported: true
+};
+
+const danmakus: Danmaku[] = [
+    {
+        time: 12.345,
+        text: '這裡高能',
+        simplifiedText: '这里高能',
+        color: '#ff0000',
+        mode: 'rtl',
+        weight: 0,
+        id: '1234567890123456789',
+        fontSize: 25,
+        pool: 'normal',
+        ctime: 1700000000,
+        midHash: 'abc123',
+        attr: 4,
+        count: 3
+    },
+    { time: 60, text: '顶部', color: '#000000', mode: 'top' },
+    { time: 61.5, text: '定位\n弹幕', color: '#00ff00', mode: 'advanced', advanced }
+];
+
+describe('encodeDanmakus / decodeDanmakus', () => {
+    it('should round-trip every field', () => {
+        const decoded = decodeDanmakus(encodeDanmakus(danmakus));
+        expect(decoded).toEqual(danmakus);
+    });
+
+    it('should leave unset fields absent', () => {
+        const [, plain] = decodeDanmakus(encodeDanmakus(danmakus));
+        expect(Object.keys(plain).sort()).toEqual(['color', 'mode', 'text', 'time']);
+    });
+
+    it('should store numeric fields in typed columns', () => {
+        const encoded = encodeDanmakus(danmakus);
+        expect(encoded.count).toBe(3);
+        expect(Array.from(encoded.colors)).toEqual([0xff0000, 0, 0x00ff00]);
+        expect(Array.from(encoded.weights)).toEqual([0, -1, -1]);
+        expect(Object.keys(encoded.advanced)).toEqual(['2']);
+    });
+
+    it('should decode records cached before the simplified text column existed', () => {
+        const { simplifiedTexts, ...legacy } = encodeDanmakus(danmakus);
+        expect(simplifiedTexts).toEqual(['这里高能', '', '']);
+
+        const [first] = decodeDanmakus(legacy);
+        expect(first.text).toBe('這裡高能');
+        expect(first.simplifiedText).toBeUndefined();
+        expect(getEncodedSize(legacy)).toBeGreaterThan(0);
+    });
+
+    it('should handle an empty list', () => {
+        const encoded = encodeDanmakus([]);
+        expect(decodeDanmakus(encoded)).toEqual([]);
+        expect(getEncodedSize(encoded)).toBe(4);
+    });
+});
+
+describe('getEncodedSize', () => {
+    it('should grow with text length', () => {
+        const short = getEncodedSize(encodeDanmakus([{ ...danmakus[1], text: 'a' }]));
+        const long = getEncodedSize(encodeDanmakus([{ ...danmakus[1], text: 'a'.repeat(100) }]));
+        expect(long - short).toBe(99 * 2);
+    });
+});
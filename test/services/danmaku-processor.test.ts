@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { runInNewContext } from 'node:vm';
+import { formatDanmakus } from '../../services/danmaku-processor';
+import { mergeRepeatedDanmakus } from '../../utils/danmaku-merge';
+
+describe('danmaku processor', () => {
+    describe('formatDanmakus', () => {
+        it('should decode mode 7 payloads and drop malformed ones', () => {
+            const formatted = formatDanmakus([
+                { progress: 1000, content: '[0.1,0.2,"1-0",3,"第一行/n第二行"]', mode: 7 },
+                { progress: 2000, content: '{"broken"', mode: 7 },
+                { progress: 3000, content: '顶部', mode: 5 }
+            ]);
+
+            expect(formatted).toHaveLength(2);
+            expect(formatted[0]).toMatchObject({ mode: 'advanced', text: '第一行\n第二行' });
+            expect(formatted[0].advanced).toMatchObject({ startX: 0.1, duration: 3000 });
+            expect(formatted[1]).toMatchObject({ mode: 'top', text: '顶部' });
+        });
+
+        describe('with OpenCC loaded', () => {
+            afterEach(() => {
+                vi.unstubAllGlobals();
+                vi.resetModules();
+            });
+
+            // 与后台页面一样以全局脚本方式加载 OpenCC，转换器在模块初始化时创建，需要重新载入模块
+            async function loadWithOpenCC() {
+                const script = readFileSync(path.resolve(__dirname, '../../lib/opencc.min.js'));
+                const context: { OpenCC?: unknown } = {};
+                runInNewContext(script.toString(), context);
+                vi.stubGlobal('OpenCC', context.OpenCC);
+                vi.resetModules();
+                return import('../../services/danmaku-processor');
+            }
+
+            it('should record the simplified text of traditional comments', async () => {
+                const processor = await loadWithOpenCC();
+                const formatted = processor.formatDanmakus([
+                    { progress: 1000, content: '这个视频好', mode: 1 },
+                    { progress: 2000, content: '這個視頻好', mode: 1 }
+                ]);
+
+                expect(formatted[0].simplifiedText).toBeUndefined();
+                expect(formatted[1]).toMatchObject({
+                    text: '這個視頻好',
+                    simplifiedText: '这个视频好'
+                });
+            });
+
+            it('should let simplified and traditional variants merge', async () => {
+                const processor = await loadWithOpenCC();
+                const merged = mergeRepeatedDanmakus(
+                    processor.formatDanmakus([
+                        { progress: 1000, content: '这个视频太好看了', mode: 1 },
+                        { progress: 2000, content: '這個視頻太好看了！', mode: 1 },
+                        { progress: 3000, content: '這個視頻太好看了', mode: 1 },
+                        { progress: 4000, content: '那個視頻太好看了', mode: 1 }
+                    ])
+                );
+
+                expect(merged.map((d) => [d.text, d.count])).toEqual([
+                    ['这个视频太好看了', 3],
+                    ['那個視頻太好看了', undefined]
+                ]);
+            });
+        });
+    });
+});
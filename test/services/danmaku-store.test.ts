@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import 'fake-indexeddb/auto';
+import { DANMAKU_EXPIRE_TIME, planEviction } from '../../services/danmaku-store';
+import type { Danmaku, StoredVideoDanmaku } from '../../types';
+
+const now = 1_700_000_000_000;
+const entry = (videoId: string, size: number, age: number) => ({
+    videoId,
+    size,
+    lastAccess: now - age
+});
+
+describe('planEviction', () => {
+    it('should keep everything under the budget', () => {
+        const entries = [entry('a', 10, 3000), entry('b', 10, 2000), entry('c', 10, 1000)];
+        expect(planEviction(entries, 30, now)).toEqual([]);
+    });
+
+    it('should evict least recently used entries until under the budget', () => {
+        const entries = [entry('c', 10, 1000), entry('a', 10, 3000), entry('b', 10, 2000)];
+        expect(planEviction(entries, 15, now)).toEqual(['a', 'b']);
+        expect(planEviction(entries, 20, now)).toEqual(['a']);
+    });
+
+    it('should evict entries not accessed within the expire time', () => {
+        const entries = [entry('old', 1, DANMAKU_EXPIRE_TIME + 1), entry('new', 1, 0)];
+        expect(planEviction(entries, 100, now)).toEqual(['old']);
+    });
+
+    it('should always keep the most recently used entry', () => {
+        const entries = [entry('a', 50, 2000), entry('b', 50, 1000)];
+        expect(planEviction(entries, 10, now)).toEqual(['a']);
+        expect(planEviction([], 10, now)).toEqual([]);
+    });
+});
+
+let stored: Record<string, unknown>;
+
+beforeEach(() => {
+    stored = {};
+    browser.storage.local.get.mockReset();
+    browser.storage.local.remove.mockReset();
+    browser.storage.local.get.mockImplementation(async (key: string | null) =>
+        key === null ? { ...stored } : key in stored ? { [key]: stored[key] } : {}
+    );
+    browser.storage.local.remove.mockImplementation(async (keys: string[]) => {
+        for (const key of keys) delete stored[key];
+    });
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+// 每个用例使用全新的数据库与模块（模块内缓存了数据库连接）
+async function loadStore() {
+    indexedDB = new IDBFactory();
+    vi.resetModules();
+    return import('../../services/danmaku-store');
+}
+
+function danmaku(time: number, text: string): Danmaku {
+    return { time, text, color: '#ffffff', mode: 'rtl' };
+}
+
+function record(timestamp: number, danmakus: Danmaku[]): StoredVideoDanmaku {
+    return {
+        danmakus,
+        bilibili_url: 'https://www.bilibili.com/video/BV1xx411c7mD',
+        title: '测试视频',
+        duration: 600,
+        timestamp
+    };
+}
+
+describe('danmaku store', () => {
+    it('should read back saved danmaku and metadata', async () => {
+        const store = await loadStore();
+        const danmakus = [danmaku(1, '前排'), danmaku(2.5, '前方高能')];
+
+        await store.putVideoDanmaku('video1', record(now, danmakus));
+
+        expect(await store.getVideoDanmaku('video1')).toEqual(record(now, danmakus));
+        expect(await store.getVideoMeta('video1')).toMatchObject({ title: '测试视频', count: 2 });
+        expect(await store.getVideoDanmaku('missing')).toBeNull();
+        expect(await store.getStoreStats()).toMatchObject({ videos: 1 });
+    });
+
+    it('should evict least recently used videos over the budget', async () => {
+        const store = await loadStore();
+        const danmakus = Array.from({ length: 100 }, (_, i) => danmaku(i, `弹幕${i}`));
+        vi.useFakeTimers({ toFake: ['Date'] });
+
+        for (const videoId of ['a', 'b', 'c']) {
+            vi.setSystemTime(now + videoId.charCodeAt(0));
+            await store.putVideoDanmaku(videoId, record(now, danmakus));
+        }
+        // 读取 a 后，b 成为最久未访问的视频
+        vi.setSystemTime(now + 1000);
+        await store.getVideoDanmaku('a');
+
+        const { bytes } = await store.getStoreStats();
+        stored.danmakuStoreBudget = (bytes * 2) / 3;
+        expect(await store.enforceStoreBudget()).toBe(1);
+
+        expect(await store.getVideoMeta('b')).toBeNull();
+        expect(await store.getVideoMeta('a')).not.toBeNull();
+        expect(await store.getVideoMeta('c')).not.toBeNull();
+    });
+
+    it('should keep partial segments per cid until deleted or expired', async () => {
+        const store = await loadStore();
+        const segment = [{ progress: 1000, content: '分段弹幕' }];
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(now);
+
+        await store.putPartialSegments(
+            100,
+            new Map([
+                [1, segment],
+                [2, []]
+            ])
+        );
+        await store.putPartialSegments(200, new Map([[1, segment]]));
+
+        expect(await store.getPartialSegments(100)).toEqual(
+            new Map([
+                [1, segment],
+                [2, []]
+            ])
+        );
+
+        await store.deletePartialSegments(100);
+        expect((await store.getPartialSegments(100)).size).toBe(0);
+        expect((await store.getPartialSegments(200)).size).toBe(1);
+
+        vi.setSystemTime(now + store.PARTIAL_EXPIRE_TIME + 1);
+        expect((await store.getPartialSegments(200)).size).toBe(0);
+    });
+
+    it('should migrate video danmaku saved in storage.local', async () => {
+        const store = await loadStore();
+        stored.video1 = record(now, [danmaku(1, '前排')]);
+        stored.danmakuStoreBudget = 1024 * 1024;
+
+        expect(await store.migrateFromStorageLocal()).toBe(1);
+
+        expect(await store.getVideoDanmaku('video1')).toEqual(record(now, [danmaku(1, '前排')]));
+        expect(stored).toEqual({ danmakuStoreBudget: 1024 * 1024 });
+        expect(await store.migrateFromStorageLocal()).toBe(0);
+    });
+});
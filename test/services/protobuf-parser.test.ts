@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import path from 'path';
+import {
+    ProtobufDecodeError,
+    decodeDanmakuElem,
+    decodeDmSegMobileReply
+} from '../../services/protobuf-parser';
+import { parseDanmakuData } from '../../services/danmaku-processor';
+
+// 以下两份样本均为构造数据，尚未收录真实抓取的分段（见下方的 todo 用例）
+// 手工构造的 seg.so 样本：5 条弹幕（含空内容、未知字段）以及 state / ai_flag / colorfulSrc 字段
+const segPayload = new Uint8Array(readFileSync(path.resolve(__dirname, '../fixtures/seg-so.bin')));
+
+// 按B站 dm.proto（bilibili.community.service.dm.v1）以 protobuf-es 编码的分段：
+// 默认值字段省略，含 animation(22)、colorful(24) 以及回复中的 ai_flag、colorfulSrc
+const dmProtoPayload = new Uint8Array(
+    readFileSync(path.resolve(__dirname, '../fixtures/seg-so-dm-proto.bin'))
+);
+
+function expectDecodeError(buffer: Uint8Array, code: ProtobufDecodeError['code']) {
+    try {
+        decodeDmSegMobileReply(buffer);
+    } catch (error) {
+        expect(error).toBeInstanceOf(ProtobufDecodeError);
+        expect((error as ProtobufDecodeError).code).toBe(code);
+        return error as ProtobufDecodeError;
+    }
+    throw new Error('expected decode to fail');
+}
+
+describe('protobuf parser', () => {
+    it.todo('should decode a segment captured from api.bilibili.com/x/v2/dm/web/seg.so');
+
+    describe('decodeDmSegMobileReply', () => {
+        it('should decode all DanmakuElem fields', () => {
+            const { elems, state } = decodeDmSegMobileReply(segPayload);
+
+            expect(state).toBe(0);
+            expect(elems).toHaveLength(5);
+            expect(elems[0]).toEqual({
+                id: '1508219442683451904',
+                progress: 12345,
+                mode: 1,
+                fontsize: 25,
+                color: 16777215,
+                midHash: '8a4b1f2c',
+                content: '前方高能',
+                ctime: '1648000000',
+                weight: 10,
+                action: '',
+                pool: 0,
+                idStr: '1508219442683451904',
+                attr: 0
+            });
+        });
+
+        it('should keep int64 ids exact beyond 2^53', () => {
+            const { elems } = decodeDmSegMobileReply(segPayload);
+            expect(elems.map((elem) => elem.id)).toEqual(elems.map((elem) => elem.idStr));
+        });
+
+        it('should skip unknown fields', () => {
+            const { elems } = decodeDmSegMobileReply(segPayload);
+
+            expect(elems[1]).toMatchObject({ content: '哈哈哈哈哈哈', mode: 5, weight: 3 });
+            expect(elems[3]).toMatchObject({ content: '2333 awsl', fontsize: 36, attr: 4 });
+            expect(elems[2]).toMatchObject({ pool: 1, attr: 2 });
+        });
+
+        it('should decode a segment encoded from dm.proto', () => {
+            const { elems, state } = decodeDmSegMobileReply(dmProtoPayload);
+
+            expect(state).toBe(0);
+            expect(elems).toHaveLength(8);
+            expect(elems[0]).toEqual({
+                id: '1715702391558302720',
+                progress: 1523,
+                mode: 1,
+                fontsize: 25,
+                color: 16777215,
+                midHash: 'a3f2c9e1',
+                content: '来了来了',
+                ctime: '1697945734',
+                weight: 11,
+                idStr: '1715702391558302720'
+            });
+            expect(elems.map((elem) => elem.id)).toEqual(elems.map((elem) => elem.idStr));
+        });
+
+        it('should skip dm.proto fields it does not use', () => {
+            const { elems } = decodeDmSegMobileReply(dmProtoPayload);
+
+            expect(elems[1]).toMatchObject({ content: '前方高能预警[doge]', attr: 4 });
+            expect(elems[4]).toMatchObject({ mode: 7, pool: 2 });
+            expect(elems[5]).toMatchObject({ content: '哈哈哈哈哈哈', weight: 3 });
+            expect(elems[7]).toMatchObject({
+                progress: 359870,
+                action: 'picture:i0.hdslb.com/bfs/garb/item/example.png',
+                attr: 1
+            });
+        });
+
+        it('should accept an ArrayBuffer', () => {
+            const buffer = segPayload.slice().buffer;
+            expect(decodeDmSegMobileReply(buffer).elems).toHaveLength(5);
+        });
+
+        it('should return no elements for an empty payload', () => {
+            expect(decodeDmSegMobileReply(new Uint8Array(0))).toEqual({ elems: [], state: 0 });
+        });
+
+        it('should report truncated payloads', () => {
+            const error = expectDecodeError(segPayload.subarray(0, 40), 'truncated');
+            expect(error.offset).toBe(1);
+        });
+
+        it('should report truncation inside a DanmakuElem with the absolute offset', () => {
+            // 长度前缀声明 3 字节，内部 varint 却没有结束
+            const error = expectDecodeError(
+                new Uint8Array([0x0a, 0x03, 0x10, 0xff, 0xff]),
+                'truncated'
+            );
+            expect(error.offset).toBe(3);
+            expect(error.message).toContain('第 1 条弹幕');
+        });
+
+        it('should report unsupported wire types', () => {
+            expectDecodeError(new Uint8Array([0x0b]), 'unsupported_wire_type');
+        });
+
+        it('should report over-long varints', () => {
+            expectDecodeError(new Uint8Array(11).fill(0xff), 'malformed_varint');
+        });
+    });
+
+    describe('decodeDanmakuElem', () => {
+        it('should default progress and content when missing', () => {
+            expect(decodeDanmakuElem(new Uint8Array([0x18, 0x01]))).toEqual({
+                progress: 0,
+                content: '',
+                mode: 1
+            });
+        });
+    });
+
+    describe('parseDanmakuData', () => {
+        it('should drop danmaku without content', () => {
+            const danmakus = parseDanmakuData(segPayload.slice().buffer);
+            expect(danmakus).toHaveLength(4);
+            expect(danmakus.every((danmaku) => danmaku.content.length > 0)).toBe(true);
+            expect(parseDanmakuData(dmProtoPayload.slice().buffer)).toHaveLength(7);
+        });
+    });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SessionState } from '../../services/session-state';
+
+let stored: Record<string, unknown>;
+
+beforeEach(() => {
+    stored = {};
+    browser.storage.session.get.mockReset();
+    browser.storage.session.set.mockReset();
+    browser.storage.session.get.mockImplementation(async (key: string) =>
+        key in stored ? { [key]: stored[key] } : {}
+    );
+    browser.storage.session.set.mockImplementation(async (items: Record<string, unknown>) => {
+        Object.assign(stored, items);
+    });
+});
+
+describe('SessionState', () => {
+    it('should start from the initial value', async () => {
+        const state = new SessionState('pending', null);
+        expect(await state.get()).toBeNull();
+    });
+
+    it('should restore the value saved before a restart', async () => {
+        await new SessionState<string | null>('pending', null).set('BV1xx411c7mD');
+
+        const restarted = new SessionState<string | null>('pending', null);
+        expect(await restarted.get()).toBe('BV1xx411c7mD');
+    });
+
+    it('should apply updates in call order after restoring', async () => {
+        stored.tabs = { 1: 'a' };
+        const state = new SessionState<Record<number, string>>('tabs', {});
+
+        await Promise.all([
+            state.update((tabs) => ({ ...tabs, 2: 'b' })),
+            state.update(({ 1: _removed, ...rest }) => rest)
+        ]);
+
+        expect(await state.get()).toEqual({ 2: 'b' });
+        expect(stored.tabs).toEqual({ 2: 'b' });
+    });
+
+    it('should keep working in memory when storage fails', async () => {
+        browser.storage.session.get.mockRejectedValueOnce(new Error('unavailable'));
+        browser.storage.session.set.mockRejectedValueOnce(new Error('unavailable'));
+        const state = new SessionState('count', 0);
+
+        await state.set(3);
+        expect(await state.get()).toBe(3);
+    });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { runStorageMigrations, STORAGE_MIGRATIONS } from '../../services/storage-migrations';
+import { SCHEMA_VERSION_KEY, STORAGE_SCHEMA_VERSION } from '../../utils/storage';
+
+let stored: Record<string, unknown>;
+
+beforeEach(() => {
+    stored = {};
+    browser.storage.local.get.mockReset();
+    browser.storage.local.set.mockReset();
+    browser.storage.local.get.mockImplementation(async (key: string) =>
+        key in stored ? { [key]: stored[key] } : {}
+    );
+    browser.storage.local.set.mockImplementation(async (items: Record<string, unknown>) => {
+        Object.assign(stored, items);
+    });
+});
+
+function createMigration(version: number, log: number[]) {
+    return {
+        version,
+        description: `v${version}`,
+        migrate: vi.fn(async () => void log.push(version))
+    };
+}
+
+describe('STORAGE_MIGRATIONS', () => {
+    it('should be ordered and end at the current schema version', () => {
+        const versions = STORAGE_MIGRATIONS.map((migration) => migration.version);
+        expect(versions).toEqual([...versions].sort((a, b) => a - b));
+        expect(versions[versions.length - 1]).toBe(STORAGE_SCHEMA_VERSION);
+    });
+
+    it('should remove pending results left in local storage', async () => {
+        const migration = STORAGE_MIGRATIONS.find((m) => m.version === 3)!;
+
+        await migration.migrate();
+
+        expect(browser.storage.local.remove).toHaveBeenCalledWith([
+            'pendingSearchResults',
+            'pendingNoMatchResults'
+        ]);
+    });
+});
+
+describe('runStorageMigrations', () => {
+    it('should run every migration in order on a fresh install', async () => {
+        const log: number[] = [];
+        const migrations = [createMigration(2, log), createMigration(1, log)];
+
+        await expect(runStorageMigrations(migrations)).resolves.toBe(2);
+        expect(log).toEqual([1, 2]);
+        expect(stored[SCHEMA_VERSION_KEY]).toBe(2);
+    });
+
+    it('should skip migrations that already ran', async () => {
+        stored[SCHEMA_VERSION_KEY] = 1;
+        const log: number[] = [];
+
+        await runStorageMigrations([createMigration(1, log), createMigration(2, log)]);
+
+        expect(log).toEqual([2]);
+    });
+
+    it('should record progress so a failed step is retried next time', async () => {
+        const log: number[] = [];
+        const failing = {
+            version: 2,
+            description: 'v2',
+            migrate: vi.fn().mockRejectedValueOnce(new Error('失败'))
+        };
+        const migrations = [createMigration(1, log), failing];
+
+        await expect(runStorageMigrations(migrations)).rejects.toThrow('失败');
+        expect(stored[SCHEMA_VERSION_KEY]).toBe(1);
+
+        await runStorageMigrations(migrations);
+        expect(log).toEqual([1]);
+        expect(failing.migrate).toHaveBeenCalledTimes(2);
+        expect(stored[SCHEMA_VERSION_KEY]).toBe(2);
+    });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import {
+    MIN_ALIGNMENT_CONFIDENCE,
+    alignTimeline,
+    extractJumpTargets
+} from '../../services/timeline-alignment';
+import type { Danmaku } from '../../types';
+
+function danmaku(time: number, text = '哈哈'): Danmaku {
+    return { time, text, color: '#ffffff', mode: 'rtl' };
+}
+
+// 背景弹幕均匀分布，在看点处集中出现
+function buildDanmakus(duration: number, highlights: number[]): Danmaku[] {
+    const danmakus: Danmaku[] = [];
+    for (let t = 0; t < duration; t += 2) {
+        danmakus.push(danmaku(t + 0.5));
+    }
+    for (const highlight of highlights) {
+        for (let i = 0; i < 30; i++) {
+            danmakus.push(danmaku(highlight + (i % 3) * 0.3));
+        }
+    }
+    return danmakus;
+}
+
+const highlights = [65, 190, 333, 470, 612, 745, 880, 1010];
+
+describe('timeline alignment', () => {
+    describe('extractJumpTargets', () => {
+        it('should parse jump danmaku', () => {
+            expect(
+                extractJumpTargets([
+                    danmaku(1, '空降 12:34'),
+                    danmaku(2, '空降1:02:03'),
+                    danmaku(3, '空降：无效'),
+                    danmaku(4, '空降 5：06')
+                ])
+            ).toEqual([754, 3723, 306]);
+        });
+    });
+
+    describe('alignTimeline', () => {
+        it('should find the offset of a trimmed intro', () => {
+            const result = alignTimeline({
+                danmakus: buildDanmakus(1100, highlights),
+                bilibiliDuration: 1100,
+                youtubeDuration: 1070,
+                youtubeMarkers: highlights.map((t) => t - 30)
+            });
+
+            expect(result.segments).toEqual([{ start: 0, offset: 30 }]);
+            expect(result.confidence).toBeGreaterThanOrEqual(MIN_ALIGNMENT_CONFIDENCE);
+        });
+
+        it('should use jump danmaku targets as anchors', () => {
+            const danmakus = buildDanmakus(1100, []);
+            highlights.forEach((t) =>
+                danmakus.push(
+                    danmaku(5, `空降 ${Math.floor(t / 60)}:${String(t % 60).padStart(2, '0')}`)
+                )
+            );
+
+            const result = alignTimeline({
+                danmakus,
+                bilibiliDuration: 1100,
+                youtubeDuration: 1088,
+                youtubeMarkers: highlights.map((t) => t - 12)
+            });
+
+            expect(result.segments).toEqual([{ start: 0, offset: 12 }]);
+        });
+
+        it('should split the timeline around a cut segment', () => {
+            // YouTube 在 B站 400s 处剪掉了 45s
+            const result = alignTimeline({
+                danmakus: buildDanmakus(1100, highlights),
+                bilibiliDuration: 1100,
+                youtubeDuration: 1055,
+                youtubeMarkers: highlights.map((t) => (t < 400 ? t : t - 45))
+            });
+
+            expect(result.segments).toHaveLength(2);
+            expect(result.segments[0].offset).toBe(0);
+            expect(result.segments[1].offset).toBe(45);
+            expect(result.segments[1].start).toBeGreaterThan(333);
+            expect(result.segments[1].start).toBeLessThan(425);
+        });
+
+        it('should fall back to no offset without YouTube markers', () => {
+            const result = alignTimeline({
+                danmakus: buildDanmakus(600, highlights.slice(0, 4)),
+                bilibiliDuration: 600,
+                youtubeDuration: 600,
+                youtubeMarkers: []
+            });
+
+            expect(result).toEqual({
+                segments: [{ start: 0, offset: 0 }],
+                confidence: 1,
+                markerCount: 0
+            });
+        });
+
+        it('should report low confidence when markers do not match', () => {
+            const result = alignTimeline({
+                danmakus: buildDanmakus(1100, []),
+                bilibiliDuration: 1100,
+                youtubeDuration: 1000,
+                youtubeMarkers: [100, 200, 300]
+            });
+
+            expect(result.confidence).toBeLessThan(MIN_ALIGNMENT_CONFIDENCE);
+        });
+    });
+});
@@ -22,6 +22,11 @@ globalThis.browser = {
             get: vi.fn(),
             set: vi.fn(),
             remove: vi.fn()
+        },
+        session: {
+            get: vi.fn(),
+            set: vi.fn(),
+            remove: vi.fn()
         }
     }
 } as any;
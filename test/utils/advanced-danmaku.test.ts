@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { getAdvancedDanmakuFrame, parseAdvancedDanmaku } from '../../utils/advanced-danmaku';
+
+describe('advanced danmaku', () => {
+    it('should parse ratios, reference pixels and the alpha range', () => {
+        const parsed = parseAdvancedDanmaku(
+            '[0.5,"219","0.8-0.2","4","前方高能",30,0,336,0.5,1000,500,0,"黑体",1]'
+        );
+
+        expect(parsed?.text).toBe('前方高能');
+        expect(parsed?.payload).toMatchObject({
+            startX: 0.5,
+            startY: 0.5,
+            endX: 0.5,
+            endY: 0.5,
+            alphaFrom: 0.8,
+            alphaTo: 0.2,
+            duration: 4000,
+            moveDuration: 1000,
+            moveDelay: 500,
+            rotateZ: 30,
+            outline: false,
+            fontFamily: '黑体',
+            accelerate: true,
+            supported: true
+        });
+    });
+
+    it('should keep the start position when no motion is given', () => {
+        const parsed = parseAdvancedDanmaku('[0.25,0.75,"1",2,"静止"]');
+
+        expect(parsed?.payload).toMatchObject({ endX: 0.25, endY: 0.75, alphaTo: 1 });
+    });
+
+    it('should reject malformed payloads and flag unsupported effects', () => {
+        expect(parseAdvancedDanmaku('not json')).toBeNull();
+        expect(parseAdvancedDanmaku('[0,0,"1",3]')).toBeNull();
+        expect(parseAdvancedDanmaku('[0,0,"1",3,"  "]')).toBeNull();
+        expect(parseAdvancedDanmaku('["a",0,"1",3,"坐标无效"]')).toBeNull();
+
+        expect(parseAdvancedDanmaku('[0,0,"1",3,"3D",0,45]')?.payload.supported).toBe(false);
+        expect(
+            parseAdvancedDanmaku('[0,0,"1",3,"路径",0,0,0,0,0,0,1,"",0,"M0,0L10,10"]')?.payload
+                .supported
+        ).toBe(false);
+    });
+
+    it('should move after the delay and fade over the whole duration', () => {
+        const payload = parseAdvancedDanmaku(
+            '[0.0,0.0,"1-0",4,"移动",0,0,0.5,0.8,1000,1000]'
+        )!.payload;
+
+        expect(getAdvancedDanmakuFrame(payload, 500)).toEqual({ x: 0, y: 0, alpha: 0.875 });
+        expect(getAdvancedDanmakuFrame(payload, 1500)).toEqual({ x: 0.25, y: 0.4, alpha: 0.625 });
+        expect(getAdvancedDanmakuFrame(payload, 4000)).toEqual({ x: 0.5, y: 0.8, alpha: 0 });
+    });
+});
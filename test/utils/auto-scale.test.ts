@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { getStageScale, UNIT_STAGE_SCALE } from '../../utils/auto-scale';
+
+describe('getStageScale', () => {
+    it('should not scale at the reference resolution', () => {
+        expect(getStageScale(1280, 720)).toEqual({ size: 1, duration: 1 });
+    });
+
+    it('should scale size with the stage height', () => {
+        expect(getStageScale(3840, 2160)).toEqual({ size: 3, duration: 1 });
+        expect(getStageScale(640, 360)).toEqual({ size: 0.5, duration: 1 });
+    });
+
+    it('should lengthen scrolling on wide stages and clamp extremes', () => {
+        const ultrawide = getStageScale(2560, 1080);
+        expect(ultrawide.size).toBe(1.5);
+        expect(ultrawide.duration).toBeCloseTo(1.33, 2);
+
+        expect(getStageScale(320, 180).size).toBe(0.5);
+        expect(getStageScale(8000, 1000).duration).toBe(2);
+        expect(getStageScale(720, 1280).duration).toBe(0.75);
+    });
+
+    it('should ignore an unmeasured stage', () => {
+        expect(getStageScale(0, 0)).toBe(UNIT_STAGE_SCALE);
+    });
+});
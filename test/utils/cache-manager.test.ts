@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { CacheManager } from '../../utils/cache-manager';
+
+let stored: Record<string, unknown>;
+
+beforeEach(() => {
+    stored = {};
+    for (const area of [browser.storage.local, browser.storage.session]) {
+        area.get.mockReset();
+        area.set.mockReset();
+        area.get.mockImplementation(async (key: string) =>
+            key in stored ? { [key]: stored[key] } : {}
+        );
+        area.set.mockImplementation(async (items: Record<string, unknown>) => {
+            Object.assign(stored, items);
+        });
+    }
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('CacheManager', () => {
+    it('should evict the least recently used entry', () => {
+        const cache = new CacheManager<number>({ maxSize: 2 });
+        cache.set('a', 1);
+        cache.set('b', 2);
+        cache.get('a');
+        cache.set('c', 3);
+
+        expect(cache.get('a')).toBe(1);
+        expect(cache.get('b')).toBeNull();
+        expect(cache.get('c')).toBe(3);
+    });
+
+    it('should not touch storage without a persist key', async () => {
+        const cache = new CacheManager<number>();
+        cache.set('a', 1);
+        await cache.ready();
+        await flush();
+
+        expect(browser.storage.session.set).not.toHaveBeenCalled();
+        expect(browser.storage.session.get).not.toHaveBeenCalled();
+    });
+
+    it('should restore persisted entries in a new instance', async () => {
+        const cache = new CacheManager<number>({ persistKey: 'test' });
+        cache.set('a', 1);
+        cache.set('b', 2);
+        await flush();
+
+        expect(browser.storage.session.set).toHaveBeenCalledTimes(1);
+
+        const restarted = new CacheManager<number>({ persistKey: 'test' });
+        await restarted.ready();
+        expect(restarted.get('a')).toBe(1);
+        expect(restarted.get('b')).toBe(2);
+    });
+
+    it('should use local storage for the persistent tier', async () => {
+        const cache = new CacheManager<number>({ persistKey: 'keys', persistArea: 'local' });
+        cache.set('nav', 1);
+        await flush();
+
+        expect(browser.storage.local.set).toHaveBeenCalledWith({
+            'cache:keys': [['nav', expect.any(Object)]]
+        });
+    });
+
+    it('should skip expired entries and keep newer ones when restoring', async () => {
+        const now = Date.now();
+        stored['cache:test'] = [
+            [
+                'old',
+                { data: 1, timestamp: now - 2000, expiresAt: now - 1000, staleUntil: now - 1000 }
+            ],
+            ['a', { data: 2, timestamp: now, expiresAt: now + 60000, staleUntil: now + 60000 }]
+        ];
+
+        const cache = new CacheManager<number>({ persistKey: 'test' });
+        cache.set('a', 3);
+        await cache.ready();
+
+        expect(cache.get('old')).toBeNull();
+        expect(cache.get('a')).toBe(3);
+    });
+
+    it('should count evictions and keep the most recently set entries', () => {
+        const cache = new CacheManager<number>({ maxSize: 3 });
+        for (let i = 0; i < 10; i++) {
+            cache.set(`k${i}`, i);
+        }
+
+        expect(cache.size()).toBe(3);
+        expect(cache.stats().evictions).toBe(7);
+        expect(cache.get('k6')).toBeNull();
+        expect(cache.get('k7')).toBe(7);
+    });
+
+    it('should fetch once and serve later calls from the cache', async () => {
+        const cache = new CacheManager<number>();
+        const fetcher = vi.fn(async () => 42);
+
+        expect(await cache.getOrFetch('a', fetcher)).toBe(42);
+        expect(await cache.getOrFetch('a', fetcher)).toBe(42);
+
+        expect(fetcher).toHaveBeenCalledTimes(1);
+        const stats = cache.stats();
+        expect(stats.hits).toBe(1);
+        expect(stats.misses).toBe(1);
+        expect(stats.hitRate).toBe(0.5);
+    });
+
+    it('should share one request between concurrent callers', async () => {
+        const cache = new CacheManager<number>();
+        let resolve!: (value: number) => void;
+        const fetcher = vi.fn(() => new Promise<number>((r) => (resolve = r)));
+
+        const first = cache.getOrFetch('a', fetcher);
+        const second = cache.getOrFetch('a', fetcher);
+        await flush();
+        expect(cache.stats().inFlight).toBe(1);
+
+        resolve(7);
+        expect(await first).toBe(7);
+        expect(await second).toBe(7);
+        expect(fetcher).toHaveBeenCalledTimes(1);
+        expect(cache.stats().inFlight).toBe(0);
+    });
+
+    it('should not cache failed requests', async () => {
+        const cache = new CacheManager<number>();
+        const failing = vi.fn(async () => {
+            throw new Error('失败');
+        });
+
+        await expect(cache.getOrFetch('a', failing)).rejects.toThrow('失败');
+        expect(cache.size()).toBe(0);
+
+        expect(await cache.getOrFetch('a', async () => 1)).toBe(1);
+    });
+
+    it('should serve stale data while revalidating in the background', async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        const cache = new CacheManager<number>({ ttl: 1000, staleTtl: 5000 });
+        await cache.getOrFetch('a', async () => 1);
+
+        vi.setSystemTime(Date.now() + 2000);
+        const fetcher = vi.fn(async () => 2);
+        expect(await cache.getOrFetch('a', fetcher)).toBe(1);
+        expect(fetcher).toHaveBeenCalledTimes(1);
+        expect(cache.stats().staleHits).toBe(1);
+
+        await flush();
+        expect(await cache.getOrFetch('a', fetcher)).toBe(2);
+        expect(fetcher).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refetch once the stale window has passed', async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        const cache = new CacheManager<number>({ ttl: 1000, staleTtl: 1000 });
+        await cache.getOrFetch('a', async () => 1);
+
+        vi.setSystemTime(Date.now() + 3000);
+        expect(cache.get('a')).toBeNull();
+        expect(await cache.getOrFetch('a', async () => 2)).toBe(2);
+    });
+});
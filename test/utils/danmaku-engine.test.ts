@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import DanmakuEngine from '../../utils/danmaku-engine';
+import type { Danmaku } from '../../types';
+
+function danmaku(time: number, text: string, extra: Partial<Danmaku> = {}): Danmaku {
+    return { time, text, color: '#ffffff', mode: 'top', weight: 5, ...extra };
+}
+
+let video: HTMLVideoElement;
+let container: HTMLDivElement;
+
+beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'requestAnimationFrame', 'performance'] });
+    video = document.createElement('video');
+    // 模拟正在播放的视频
+    Object.defineProperty(video, 'paused', { value: false });
+    container = document.createElement('div');
+    // 字号 24 + 间距 8：两条轨道
+    Object.defineProperty(container, 'offsetHeight', { value: 64 });
+    document.body.append(video, container);
+});
+
+afterEach(() => {
+    document.body.innerHTML = '';
+    vi.useRealTimers();
+});
+
+function seek(time: number): void {
+    video.currentTime = time;
+    video.dispatchEvent(new Event('seeking'));
+    video.dispatchEvent(new Event('seeked'));
+}
+
+describe('danmaku engine', () => {
+    it('should queue danmaku that found no free track after a seek', () => {
+        const engine = new DanmakuEngine(container);
+        engine.loadDanmakus([
+            danmaku(7, '一'),
+            danmaku(7, '二'),
+            danmaku(8, '三'),
+            danmaku(10, '四')
+        ]);
+        // 载入后的首次同步
+        vi.advanceTimersByTime(100);
+
+        // 两条顶部轨道被 7 秒的弹幕占用，"三"、"四" 进入等待队列
+        seek(10.2);
+        expect(engine.getDensityStats()).toMatchObject({ shown: 0, dropped: 0 });
+
+        // 11 秒时轨道空出，"四" 补发；"三" 已等待超过 2 秒，计为丢弃
+        video.currentTime = 11.5;
+        vi.advanceTimersByTime(1000);
+        expect(engine.getDensityStats()).toMatchObject({ shown: 1, dropped: 1 });
+
+        engine.destroy();
+    });
+
+    it('should drop queued scrolling danmaku that never found a track', () => {
+        const engine = new DanmakuEngine(container);
+        engine.loadDanmakus(
+            ['一', '二', '三'].map((text) => danmaku(10, text.repeat(10), { mode: 'rtl' }))
+        );
+        vi.advanceTimersByTime(100);
+
+        seek(10.2);
+        video.currentTime = 12.5;
+        vi.advanceTimersByTime(1000);
+
+        expect(engine.getDensityStats()).toMatchObject({ shown: 0, dropped: 1 });
+
+        // 移除仍在滚动的弹幕时取消动画，不应留下未处理的拒绝
+        engine.destroy();
+    });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { filterDanmakus, validateBlockRule } from '../../utils/danmaku-filter';
+import type { BlockRule, Danmaku } from '../../types';
+
+const danmakus: Danmaku[] = [
+    { time: 1, text: '前方高能', color: '#ffffff', mode: 'rtl', midHash: 'aaa' },
+    { time: 2, text: '第一！', color: '#ffffff', mode: 'rtl', midHash: 'bbb' },
+    { time: 3, text: 'AWSL', color: '#ffffff', mode: 'rtl', midHash: 'ccc' },
+    { time: 4, text: '哈哈哈', color: '#ffffff', mode: 'top', midHash: 'aaa' }
+];
+
+function rule(id: string, type: BlockRule['type'], pattern: string, enabled = true): BlockRule {
+    return { id, type, pattern, enabled };
+}
+
+describe('danmaku-filter utils', () => {
+    describe('filterDanmakus', () => {
+        it('should keep everything without rules', () => {
+            expect(filterDanmakus(danmakus, []).kept).toHaveLength(4);
+        });
+
+        it('should apply keyword, regex and user rules and count hits', () => {
+            const { kept, hits } = filterDanmakus(danmakus, [
+                rule('k', 'keyword', 'awsl'),
+                rule('r', 'regex', '^第.！$'),
+                rule('u', 'user', 'aaa')
+            ]);
+
+            expect(kept).toEqual([]);
+            expect(hits).toEqual({ k: 1, r: 1, u: 2 });
+        });
+
+        it('should skip disabled and invalid rules', () => {
+            const { kept, hits } = filterDanmakus(danmakus, [
+                rule('off', 'keyword', '哈', false),
+                rule('bad', 'regex', '(')
+            ]);
+
+            expect(kept).toHaveLength(4);
+            expect(hits).toEqual({});
+        });
+    });
+
+    describe('validateBlockRule', () => {
+        it('should reject empty patterns and invalid regexes', () => {
+            expect(validateBlockRule({ type: 'keyword', pattern: ' ' })).not.toBeNull();
+            expect(validateBlockRule({ type: 'regex', pattern: '[' })).not.toBeNull();
+            expect(validateBlockRule({ type: 'regex', pattern: '^2333+$' })).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { mergeRepeatedDanmakus, normalizeDanmakuText } from '../../utils/danmaku-merge';
+import { filterDanmakus } from '../../utils/danmaku-filter';
+import type { Danmaku } from '../../types';
+
+function danmaku(time: number, text: string, extra: Partial<Danmaku> = {}): Danmaku {
+    return { time, text, color: '#ffffff', mode: 'rtl', weight: 5, ...extra };
+}
+
+describe('danmaku-merge utils', () => {
+    describe('normalizeDanmakuText', () => {
+        it('should collapse whole-comment repeats, whitespace and punctuation', () => {
+            expect(normalizeDanmakuText('哈哈哈哈哈')).toBe(normalizeDanmakuText('哈哈'));
+            expect(normalizeDanmakuText('前排 前排！')).toBe('前排');
+            expect(normalizeDanmakuText('awslawsl')).toBe('awsl');
+            expect(normalizeDanmakuText('AWSL')).toBe('awsl');
+        });
+
+        it('should not collapse repeats inside a longer comment', () => {
+            expect(normalizeDanmakuText('好好学习')).not.toBe(normalizeDanmakuText('好学习'));
+            expect(normalizeDanmakuText('谢谢老板')).not.toBe(normalizeDanmakuText('谢老板'));
+            expect(normalizeDanmakuText('哈哈哈你好')).not.toBe(normalizeDanmakuText('哈你好'));
+            expect(normalizeDanmakuText('2333333')).not.toBe(normalizeDanmakuText('23'));
+        });
+
+        it('should keep punctuation-only comments', () => {
+            expect(normalizeDanmakuText('？？？')).toBe('？');
+        });
+    });
+
+    describe('mergeRepeatedDanmakus', () => {
+        it('should merge repeats into the first comment and keep every member', () => {
+            const merged = mergeRepeatedDanmakus([
+                danmaku(1, '哈哈哈', { id: '1', midHash: 'aaa' }),
+                danmaku(2, '哈哈哈哈哈哈', { id: '2', midHash: 'bbb', weight: 8 }),
+                danmaku(3, '前排', { id: '3' }),
+                danmaku(4, '哈 哈', { id: '4', midHash: 'ccc' })
+            ]);
+
+            expect(merged).toHaveLength(2);
+            expect(merged[0]).toMatchObject({ time: 1, text: '哈哈哈', count: 3, weight: 8 });
+            expect(merged[0].members).toEqual([
+                { time: 1, id: '1', midHash: 'aaa' },
+                { time: 2, id: '2', midHash: 'bbb' },
+                { time: 4, id: '4', midHash: 'ccc' }
+            ]);
+            expect(merged[1].count).toBeUndefined();
+            expect(merged[1].members).toBeUndefined();
+        });
+
+        it('should slide the window from the latest member', () => {
+            const merged = mergeRepeatedDanmakus([
+                danmaku(1, '前排'),
+                danmaku(5, '前排'),
+                danmaku(9, '前排'),
+                danmaku(15, '前排')
+            ]);
+
+            expect(merged.map((d) => [d.time, d.count])).toEqual([
+                [1, 3],
+                [15, undefined]
+            ]);
+        });
+
+        it('should compare the simplified text of traditional comments', () => {
+            const merged = mergeRepeatedDanmakus([
+                danmaku(1, '这个好'),
+                danmaku(2, '這個好', { simplifiedText: '这个好' }),
+                danmaku(3, '這個好！', { simplifiedText: '这个好！' })
+            ]);
+
+            expect(merged).toHaveLength(1);
+            expect(merged[0]).toMatchObject({ text: '这个好', count: 3 });
+        });
+
+        it('should group by display mode', () => {
+            const merged = mergeRepeatedDanmakus([
+                danmaku(1, '前排'),
+                danmaku(2, '前排', { mode: 'top' }),
+                danmaku(3, '前排', { mode: 'bottom' }),
+                danmaku(4, '前排', { mode: 'top' })
+            ]);
+
+            expect(merged.map((d) => [d.mode, d.count])).toEqual([
+                ['rtl', undefined],
+                ['top', 2],
+                ['bottom', undefined]
+            ]);
+        });
+
+        it('should not merge subtitle or special danmaku', () => {
+            const merged = mergeRepeatedDanmakus([
+                danmaku(1, '字幕', { pool: 'subtitle' }),
+                danmaku(2, '字幕', { pool: 'subtitle' })
+            ]);
+
+            expect(merged).toHaveLength(2);
+        });
+
+        it('should not modify the input', () => {
+            const input = [danmaku(1, '前排'), danmaku(2, '前排')];
+
+            mergeRepeatedDanmakus(input);
+            mergeRepeatedDanmakus(input);
+
+            expect(input[0].count).toBeUndefined();
+            expect(input[0].members).toBeUndefined();
+        });
+
+        it('should only merge comments left after block rules', () => {
+            const { kept } = filterDanmakus(
+                [
+                    danmaku(1, '前排', { midHash: 'aaa' }),
+                    danmaku(2, '前排', { midHash: 'bbb' }),
+                    danmaku(3, '前排', { midHash: 'ccc' })
+                ],
+                [{ id: 'u', type: 'user', pattern: 'aaa', enabled: true }]
+            );
+
+            const merged = mergeRepeatedDanmakus(kept);
+
+            expect(merged).toHaveLength(1);
+            expect(merged[0]).toMatchObject({ midHash: 'bbb', count: 2 });
+            expect(merged[0].members!.map((m) => m.midHash)).toEqual(['bbb', 'ccc']);
+        });
+    });
+});
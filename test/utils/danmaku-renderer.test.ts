@@ -0,0 +1,50 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { DomDanmakuRenderer } from '../../utils/danmaku-renderer';
+import type { Danmaku } from '../../types';
+
+const danmaku: Danmaku = { time: 1, text: '前方高能', color: '#ffffff', mode: 'rtl' };
+
+let stage: HTMLDivElement;
+let renderer: DomDanmakuRenderer;
+let offsetWidth: ReturnType<typeof vi.spyOn>;
+
+beforeEach(() => {
+    stage = document.createElement('div');
+    document.body.appendChild(stage);
+    renderer = new DomDanmakuRenderer();
+    renderer.mount(stage);
+    offsetWidth = vi.spyOn(HTMLElement.prototype, 'offsetWidth', 'get').mockReturnValue(96);
+});
+
+afterEach(() => {
+    renderer.destroy();
+    document.body.innerHTML = '';
+    vi.restoreAllMocks();
+});
+
+describe('DomDanmakuRenderer', () => {
+    it('should lay out a scrolling danmaku only once', () => {
+        const width = renderer.measure(danmaku);
+        const rendered = renderer.createScrolling({
+            danmaku,
+            top: 0,
+            width,
+            duration: 8000,
+            elapsed: 0
+        });
+
+        expect(rendered.width).toBe(96);
+        // 只有 measure 读取弹幕宽度一次（生成关键帧时读取的舞台宽度不计入）
+        const danmakuReads = offsetWidth.mock.contexts.filter((elem) => elem !== stage);
+        expect(danmakuReads).toHaveLength(1);
+    });
+
+    it('should measure fixed danmaku only when the width is read', () => {
+        const rendered = renderer.createFixed({ danmaku: { ...danmaku, mode: 'top' }, top: 0 });
+        expect(offsetWidth).not.toHaveBeenCalled();
+
+        expect(rendered.width).toBe(96);
+        expect(rendered.width).toBe(96);
+        expect(offsetWidth).toHaveBeenCalledTimes(1);
+    });
+});
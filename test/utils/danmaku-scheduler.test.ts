@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import { DanmakuScheduler } from '../../utils/danmaku-scheduler';
+import type { Danmaku } from '../../types';
+
+const options = { lookbehind: 0.5, lookahead: 1.0, limit: 10 };
+
+function createDanmakus(count: number, duration: number): Danmaku[] {
+    // 固定种子的伪随机数，保证基准测试可复现
+    let seed = 42;
+    const random = () => {
+        seed = (seed * 1103515245 + 12345) % 2147483648;
+        return seed / 2147483648;
+    };
+
+    return Array.from({ length: count }, (_, i) => ({
+        time: random() * duration,
+        text: `弹幕 ${i}`,
+        color: '#ffffff',
+        mode: 'rtl' as const
+    }));
+}
+
+/** 改造前的发射路径：每次检查都过滤整个弹幕列表，并在弹幕对象上记录发射状态 */
+function legacyCheck(danmakus: (Danmaku & { emitted?: boolean })[], currentTime: number) {
+    const due = danmakus
+        .filter((d) => {
+            if (d.emitted) return false;
+            const timeDiff = d.time - currentTime;
+            return timeDiff >= -0.5 && timeDiff <= 1.0;
+        })
+        .sort((a, b) => a.time - b.time)
+        .slice(0, 10);
+    due.forEach((d) => (d.emitted = true));
+    return due;
+}
+
+describe('DanmakuScheduler', () => {
+    const danmakus = [0.2, 1, 1.5, 3, 10].map((time) => ({
+        time,
+        text: String(time),
+        color: '#ffffff',
+        mode: 'rtl' as const
+    }));
+
+    it('should emit each danmaku once within the window', () => {
+        const scheduler = new DanmakuScheduler(danmakus);
+
+        expect(scheduler.takeDue(0.5, options).map((d) => d.time)).toEqual([0.2, 1, 1.5]);
+        expect(scheduler.takeDue(1, options)).toEqual([]);
+        expect(scheduler.takeDue(2.5, options).map((d) => d.time)).toEqual([3]);
+    });
+
+    it('should skip danmaku left behind and respect the limit', () => {
+        const scheduler = new DanmakuScheduler(danmakus);
+
+        expect(scheduler.takeDue(2, { ...options, limit: 1 }).map((d) => d.time)).toEqual([1.5]);
+        expect(scheduler.takeDue(9.5, options).map((d) => d.time)).toEqual([10]);
+    });
+
+    it('should reset emitted state on seek without touching the danmaku', () => {
+        const scheduler = new DanmakuScheduler(danmakus);
+        scheduler.takeDue(0.5, options);
+
+        scheduler.seek(0);
+        expect(scheduler.takeDue(0.5, options)).toHaveLength(3);
+        expect(danmakus[0]).not.toHaveProperty('emitted');
+    });
+
+    it('should visit and mark danmaku in a time range', () => {
+        const scheduler = new DanmakuScheduler(danmakus);
+        const visited: number[] = [];
+
+        scheduler.forEachInRange(1, 3, (d) => {
+            visited.push(d.time);
+            return d.time < 2;
+        });
+
+        expect(visited).toEqual([1, 1.5, 3]);
+        expect(scheduler.takeDue(2, options).map((d) => d.time)).toEqual([3]);
+    });
+
+    it('should match the legacy path and be faster with 100k danmaku', () => {
+        const duration = 3600;
+        const source = createDanmakus(100_000, duration);
+        const legacyDanmakus = source.map((d) => ({ ...d }));
+        const scheduler = new DanmakuScheduler(source);
+
+        // 模拟播放 5 分钟，每 0.5 秒检查一次
+        const ticks = Array.from({ length: 600 }, (_, i) => 1200 + i * 0.5);
+
+        let legacyEmitted: string[] = [];
+        const legacyStart = performance.now();
+        for (const time of ticks) {
+            legacyEmitted = legacyEmitted.concat(
+                legacyCheck(legacyDanmakus, time).map((d) => d.text)
+            );
+        }
+        const legacyDuration = performance.now() - legacyStart;
+
+        let indexedEmitted: string[] = [];
+        const indexedStart = performance.now();
+        scheduler.seek(ticks[0] - options.lookbehind);
+        for (const time of ticks) {
+            indexedEmitted = indexedEmitted.concat(
+                scheduler.takeDue(time, options).map((d) => d.text)
+            );
+        }
+        const indexedDuration = performance.now() - indexedStart;
+
+        console.log(
+            `100k 弹幕 600 次检查: 原路径 ${legacyDuration.toFixed(1)}ms, 索引路径 ${indexedDuration.toFixed(1)}ms`
+        );
+
+        expect(indexedEmitted).toEqual(legacyEmitted);
+        expect(indexedDuration).toBeLessThan(legacyDuration);
+    });
+});
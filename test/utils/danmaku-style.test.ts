@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import {
+    DEFAULT_TEXT_STYLE,
+    getCanvasShadow,
+    getCssTextShadow,
+    getFontFamily,
+    getModeScale
+} from '../../utils/danmaku-style';
+
+describe('danmaku style', () => {
+    it('should put the chosen font before the CJK fallbacks', () => {
+        const family = getFontFamily({ ...DEFAULT_TEXT_STYLE, fontFamily: 'KaiTi' });
+
+        expect(family.startsWith('"KaiTi", "PingFang SC"')).toBe(true);
+        expect(family.endsWith('sans-serif')).toBe(true);
+        expect(getFontFamily(DEFAULT_TEXT_STYLE).match(/"SimHei"/g)).toHaveLength(1);
+    });
+
+    it('should build the stroke from eight offset shadows plus the chosen shadow', () => {
+        const shadow = getCssTextShadow({
+            ...DEFAULT_TEXT_STYLE,
+            strokeWidth: 2,
+            strokeColor: '#123456'
+        });
+
+        expect(shadow.match(/#123456/g)).toHaveLength(8);
+        expect(shadow).toContain('-2px -2px 0 #123456');
+        expect(shadow.endsWith('0px 0px 2px #000000')).toBe(true);
+    });
+
+    it('should drop stroke and shadow when disabled', () => {
+        const style = { ...DEFAULT_TEXT_STYLE, strokeWidth: 0, shadow: 'none' as const };
+
+        expect(getCssTextShadow(style)).toBe('none');
+        expect(getCanvasShadow(style)).toBeNull();
+    });
+
+    it('should scale scrolling and fixed danmaku separately', () => {
+        const style = { ...DEFAULT_TEXT_STYLE, scrollScale: 0.8, fixedScale: 1.5 };
+
+        expect(getModeScale('rtl', style)).toBe(0.8);
+        expect(getModeScale('top', style)).toBe(1.5);
+        expect(getModeScale('bottom', style)).toBe(1.5);
+        expect(getModeScale('advanced', style)).toBe(1);
+    });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { DensityController } from '../../utils/density-controller';
+import type { Danmaku, DensityDropStrategy } from '../../types';
+
+function danmaku(time: number, text: string, weight = 5): Danmaku {
+    return { time, text, color: '#ffffff', mode: 'rtl', weight };
+}
+
+const candidates = [
+    danmaku(1, '前排', 2),
+    danmaku(1.2, '好耶', 9),
+    danmaku(1.4, '前排', 7),
+    danmaku(1.6, '来了', 5)
+];
+
+function context(strategy: DensityDropStrategy, maxOnScreen = 10) {
+    return { onScreen: 8, maxOnScreen, strategy, getRemainingLifetime: (d: Danmaku) => d.time };
+}
+
+describe('DensityController', () => {
+    it('should keep everything under the limit or without a limit', () => {
+        const controller = new DensityController();
+
+        expect(controller.select(candidates, context('lowest-weight', 0))).toHaveLength(4);
+        expect(controller.select(candidates, context('lowest-weight', 20))).toHaveLength(4);
+        expect(controller.getStats().dropped).toBe(0);
+    });
+
+    it('should drop the lowest weight first', () => {
+        const controller = new DensityController();
+        const selected = controller.select(candidates, context('lowest-weight'));
+
+        expect(selected.map((d) => d.weight)).toEqual([9, 7]);
+        expect(controller.getStats().dropped).toBe(2);
+    });
+
+    it('should drop the shortest-lived first', () => {
+        const controller = new DensityController();
+        const selected = controller.select(candidates, context('shortest-lived'));
+
+        expect(selected.map((d) => d.time)).toEqual([1.4, 1.6]);
+    });
+
+    it('should merge identical comments before dropping', () => {
+        const controller = new DensityController();
+        const selected = controller.select(candidates, context('merge', 11));
+
+        expect(selected).toHaveLength(3);
+        expect(selected[0]).toMatchObject({ text: '前排', count: 2 });
+        expect(candidates[0].count).toBeUndefined();
+        expect(controller.getStats()).toEqual({ shown: 0, dropped: 0, merged: 1 });
+    });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { existsSync, readdirSync } from 'fs';
+import path from 'path';
+import { EMOTE_TABLE, parseDanmakuSegments } from '../../utils/emotes';
+
+describe('parseDanmakuSegments', () => {
+    it('should split known emote codes from text', () => {
+        expect(parseDanmakuSegments('前方[doge]高能[笑哭]')).toEqual([
+            { type: 'text', text: '前方' },
+            { type: 'emote', code: '[doge]', file: 'doge.svg' },
+            { type: 'text', text: '高能' },
+            { type: 'emote', code: '[笑哭]', file: 'laugh-cry.svg' }
+        ]);
+    });
+
+    it('should keep unknown codes and brackets as text', () => {
+        expect(parseDanmakuSegments('[未知表情]第[1]集[doge')).toEqual([
+            { type: 'text', text: '[未知表情]第[1]集[doge' }
+        ]);
+        expect(parseDanmakuSegments('[[doge]]')).toEqual([
+            { type: 'text', text: '[' },
+            { type: 'emote', code: '[doge]', file: 'doge.svg' },
+            { type: 'text', text: ']' }
+        ]);
+    });
+
+    it('should bundle an image for every emote in the table', () => {
+        Object.values(EMOTE_TABLE).forEach((file) => {
+            expect(existsSync(path.resolve(__dirname, '../../public/emotes', file))).toBe(true);
+        });
+    });
+
+    it('should only bundle images listed in the table', () => {
+        const bundled = readdirSync(path.resolve(__dirname, '../../public/emotes'));
+        expect(bundled.sort()).toEqual(Object.values(EMOTE_TABLE).sort());
+    });
+});
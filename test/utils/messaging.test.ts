@@ -0,0 +1,98 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+    PROTOCOL_VERSION,
+    createEnvelope,
+    createMessageRouter,
+    sendMessage,
+    type ContentProtocol
+} from '../../utils/messaging';
+
+const sender = {} as chrome.runtime.MessageSender;
+
+function createRouter() {
+    return createMessageRouter<ContentProtocol>({
+        updateSettings: () => ({ success: true }),
+        getVideoDuration: () => ({ success: true, duration: 120 }),
+        loadDanmaku: async () => ({ success: true, loaded: true }),
+        seekToTime: () => {
+            throw new Error('seek failed');
+        },
+        getPageInfo: () => ({ success: false, error: '无法获取页面信息' })
+    });
+}
+
+describe('messaging', () => {
+    describe('createMessageRouter', () => {
+        it('should dispatch envelopes to the matching handler', async () => {
+            const sendResponse = vi.fn();
+            const handled = createRouter()(
+                createEnvelope('getVideoDuration', {}),
+                sender,
+                sendResponse
+            );
+
+            expect(handled).toBe(true);
+            await vi.waitFor(() =>
+                expect(sendResponse).toHaveBeenCalledWith({ success: true, duration: 120 })
+            );
+        });
+
+        it('should ignore messages outside the protocol', () => {
+            const sendResponse = vi.fn();
+            const handled = createRouter()(
+                createEnvelope('downloadDanmaku', {}),
+                sender,
+                sendResponse
+            );
+
+            expect(handled).toBe(false);
+            expect(sendResponse).not.toHaveBeenCalled();
+        });
+
+        it('should reject envelopes with another protocol version', () => {
+            const sendResponse = vi.fn();
+            createRouter()(
+                { type: 'getVideoDuration', version: PROTOCOL_VERSION + 1, payload: {} },
+                sender,
+                sendResponse
+            );
+
+            expect(sendResponse).toHaveBeenCalledWith(expect.objectContaining({ success: false }));
+        });
+
+        it('should turn handler exceptions into error responses', async () => {
+            const sendResponse = vi.fn();
+            createRouter()(createEnvelope('seekToTime', { time: 1 }), sender, sendResponse);
+
+            await vi.waitFor(() =>
+                expect(sendResponse).toHaveBeenCalledWith({
+                    success: false,
+                    error: 'seek failed'
+                })
+            );
+        });
+    });
+
+    describe('sendMessage', () => {
+        it('should wrap the payload in a versioned envelope', async () => {
+            browser.runtime.sendMessage.mockResolvedValueOnce({ success: true, removed: 0 });
+
+            const response = await sendMessage('cleanupExpiredDanmaku', {});
+
+            expect(response).toEqual({ success: true, removed: 0 });
+            expect(browser.runtime.sendMessage).toHaveBeenCalledWith({
+                type: 'cleanupExpiredDanmaku',
+                version: PROTOCOL_VERSION,
+                payload: {}
+            });
+        });
+
+        it('should reject when no response arrives in time', async () => {
+            browser.runtime.sendMessage.mockReturnValueOnce(new Promise(() => {}));
+
+            await expect(sendMessage('popupReady', {}, { timeout: 10 })).rejects.toThrow(
+                '响应超时'
+            );
+        });
+    });
+});
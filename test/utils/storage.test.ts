@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+    DEFAULT_DANMAKU_SETTINGS,
+    getStorageItem,
+    getStorageItems,
+    normalizeDanmakuSettings
+} from '../../utils/storage';
+import { DEFAULT_TEXT_STYLE } from '../../utils/danmaku-style';
+
+function mockStorage(items: Record<string, unknown>) {
+    browser.storage.local.get.mockImplementation(async (keys: string | string[]) => {
+        const list = Array.isArray(keys) ? keys : [keys];
+        return Object.fromEntries(
+            list.filter((key) => key in items).map((key) => [key, items[key]])
+        );
+    });
+}
+
+describe('normalizeDanmakuSettings', () => {
+    it('should fill missing fields from the defaults', () => {
+        const settings = normalizeDanmakuSettings({
+            opacity: 60,
+            textStyle: { bold: false } as any
+        });
+
+        expect(settings).toEqual({
+            ...DEFAULT_DANMAKU_SETTINGS,
+            opacity: 60,
+            textStyle: { ...DEFAULT_TEXT_STYLE, bold: false }
+        });
+    });
+
+    it('should return the defaults for missing settings', () => {
+        expect(normalizeDanmakuSettings(undefined)).toEqual(DEFAULT_DANMAKU_SETTINGS);
+    });
+});
+
+describe('getStorageItem', () => {
+    beforeEach(() => {
+        browser.storage.local.get.mockReset();
+    });
+
+    it('should complete stored settings with defaults', async () => {
+        mockStorage({
+            danmakuSettings: { enabled: false, timeOffset: 2, opacity: 80, fontSize: 30 }
+        });
+
+        const settings = await getStorageItem('danmakuSettings');
+
+        expect(settings.enabled).toBe(false);
+        expect(settings.fontSize).toBe(30);
+        expect(settings.weightThreshold).toBe(DEFAULT_DANMAKU_SETTINGS.weightThreshold);
+        expect(settings.textStyle).toEqual(DEFAULT_TEXT_STYLE);
+    });
+
+    it('should return fresh copies of default values', async () => {
+        mockStorage({});
+
+        const mappings = await getStorageItem('channelMappings');
+        mappings.UC123 = { bilibiliUID: '1', lastUpdate: 0 };
+
+        expect(await getStorageItem('channelMappings')).toEqual({});
+        expect(await getStorageItem('blockRules')).toEqual([]);
+    });
+
+    it('should read several keys at once', async () => {
+        const rules = [{ id: 'a', type: 'keyword', pattern: '剧透', enabled: true }];
+        mockStorage({ blockRules: rules });
+
+        const items = await getStorageItems(['blockRules', 'danmakuSettings']);
+
+        expect(items.blockRules).toEqual(rules);
+        expect(items.danmakuSettings).toEqual(DEFAULT_DANMAKU_SETTINGS);
+    });
+});
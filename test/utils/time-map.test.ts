@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { getTimeMapOffset, toYoutubeTime, upsertTimeAnchor } from '../../utils/time-map';
+
+// YouTube 版本在 100 秒处剪掉了 B站的 20 秒
+const anchors = [
+    { youtubeTime: 10, bilibiliTime: 15 },
+    { youtubeTime: 100, bilibiliTime: 125 }
+];
+
+describe('time-map utils', () => {
+    describe('getTimeMapOffset', () => {
+        it('should return 0 without anchors', () => {
+            expect(getTimeMapOffset([], 42)).toBe(0);
+        });
+
+        it('should apply the offset of the latest anchor', () => {
+            expect(getTimeMapOffset(anchors, 0)).toBe(5);
+            expect(getTimeMapOffset(anchors, 99)).toBe(5);
+            expect(getTimeMapOffset(anchors, 100)).toBe(25);
+        });
+    });
+
+    describe('toYoutubeTime', () => {
+        it('should invert the mapping', () => {
+            expect(toYoutubeTime(anchors, 50)).toBe(45);
+            expect(toYoutubeTime(anchors, 150)).toBe(125);
+        });
+
+        it('should jump to the cut point for danmaku in a removed part', () => {
+            expect(toYoutubeTime(anchors, 110)).toBe(100);
+        });
+    });
+
+    describe('upsertTimeAnchor', () => {
+        it('should keep anchors sorted and replace nearby ones', () => {
+            const result = upsertTimeAnchor(anchors, { youtubeTime: 100.5, bilibiliTime: 130 });
+            expect(result).toEqual([
+                { youtubeTime: 10, bilibiliTime: 15 },
+                { youtubeTime: 100.5, bilibiliTime: 130 }
+            ]);
+
+            expect(
+                upsertTimeAnchor(anchors, { youtubeTime: 50, bilibiliTime: 52 }).map(
+                    (a) => a.youtubeTime
+                )
+            ).toEqual([10, 50, 100]);
+        });
+    });
+});
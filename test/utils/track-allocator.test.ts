@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { canFollow, getScrollDuration } from '../../utils/track-allocator';
+
+const stageWidth = 1000;
+
+describe('track-allocator utils', () => {
+    describe('getScrollDuration', () => {
+        it('should keep a fixed duration without velocity mix', () => {
+            expect(getScrollDuration(8000, 500, stageWidth, 0)).toBe(8000);
+        });
+
+        it('should give every width the same pixel velocity', () => {
+            const short = getScrollDuration(8000, 100, stageWidth, 1);
+            const long = getScrollDuration(8000, 500, stageWidth, 1);
+
+            expect((stageWidth + 100) / short).toBeCloseTo((stageWidth + 500) / long);
+        });
+    });
+
+    describe('canFollow', () => {
+        const leader = { width: 200, duration: 9600, elapsed: 4000 };
+
+        it('should allow a follower at the same velocity once there is room', () => {
+            expect(canFollow(leader, { width: 300, duration: 10400, elapsed: 0 }, stageWidth)).toBe(
+                true
+            );
+        });
+
+        it('should reject a follower while the leader tail is still near the edge', () => {
+            const entering = { ...leader, elapsed: 500 };
+            expect(
+                canFollow(entering, { width: 300, duration: 10400, elapsed: 0 }, stageWidth)
+            ).toBe(false);
+        });
+
+        it('should reject a faster follower that would overtake the leader', () => {
+            // 固定时长下长弹幕更快，会追上前面的短弹幕
+            expect(canFollow(leader, { width: 800, duration: 8000, elapsed: 0 }, stageWidth)).toBe(
+                false
+            );
+        });
+
+        it('should ignore a leader that has already left', () => {
+            expect(
+                canFollow(
+                    { ...leader, elapsed: 9600 },
+                    { width: 800, duration: 1000, elapsed: 0 },
+                    stageWidth
+                )
+            ).toBe(true);
+        });
+    });
+});
@@ -19,14 +19,3 @@ declare const browser: typeof chrome;
 declare const OpenCC: {
     Converter: (config: { from: string; to: string }) => (text: string) => string;
 };
-
-// Protobuf 解析器
-declare class ProtobufParser {
-    parseDanmakuResponse(buffer: ArrayBuffer): Array<{
-        progress: number;
-        content: string;
-        color?: number;
-        mode?: number;
-        weight?: number;
-    }>;
-}
@@ -2,22 +2,97 @@
  * 全局类型定义
  */
 
+/** 弹幕池：普通池 / 字幕池 / 特殊池（高级、代码弹幕） */
+export type DanmakuPool = 'normal' | 'subtitle' | 'special';
+
 /** 弹幕数据接口 */
 export interface Danmaku {
     time: number;
     text: string;
     color: string;
-    mode: 'rtl' | 'top' | 'bottom';
+    /** 滚动 / 顶部 / 底部 / 高级定位弹幕（B站 mode 7） */
+    mode: 'rtl' | 'top' | 'bottom' | 'advanced';
     weight?: number;
+    /** 弹幕 ID（dmid 的字符串形式） */
+    id?: string;
+    /** B站字号（默认 25） */
+    fontSize?: number;
+    pool?: DanmakuPool;
+    /** 发送时间（Unix 时间戳，秒） */
+    ctime?: number;
+    /** 发送者 UID 哈希 */
+    midHash?: string;
+    /** 弹幕属性位 */
+    attr?: number;
+    /** 繁体转简体后的文本（仅与 text 不同时存在），合并重复弹幕时代替 text 比较 */
+    simplifiedText?: string;
+    /** 合并的重复弹幕数量（大于 1 时显示 ×N 标记） */
+    count?: number;
+    /** 合并的重复弹幕中每一条的时间、ID 与发送者（仅合并后存在，含代表弹幕本身） */
+    members?: MergedDanmakuMember[];
+    /** 高级弹幕的定位与动画参数（仅 mode 为 'advanced' 时存在） */
+    advanced?: AdvancedDanmakuPayload;
 }
 
-/** 原始弹幕数据（来自 Bilibili API） */
+/** 被合并的单条重复弹幕 */
+export type MergedDanmakuMember = Pick<Danmaku, 'time' | 'id' | 'midHash'>;
+
+/**
+ * 高级弹幕（B站 mode 7）解析后的参数
+ * 坐标统一为相对舞台宽高的比例（0-1），时长为毫秒
+ */
+export interface AdvancedDanmakuPayload {
+    startX: number;
+    startY: number;
+    endX: number;
+    endY: number;
+    alphaFrom: number;
+    alphaTo: number;
+    /** 总显示时长 */
+    duration: number;
+    /** 移动时长 */
+    moveDuration: number;
+    /** 开始移动前的停留时长 */
+    moveDelay: number;
+    /** 绕 Z 轴旋转角度（度，顺时针） */
+    rotateZ: number;
+    /** 绕 Y 轴旋转角度（度） */
+    rotateY: number;
+    /** 是否描边 */
+    outline: boolean;
+    fontFamily?: string;
+    /** 移动是否加速，否则匀速 */
+    accelerate: boolean;
+    /** 是否只使用了可绘制的子集（平移、淡入淡出、Z 轴旋转、换行），否则隐藏 */
+    supported: boolean;
+}
+
+/** 原始弹幕数据（来自 Bilibili API，对应 DanmakuElem） */
 export interface RawDanmaku {
     progress: number;
     content: string;
     color?: number;
     mode?: number;
     weight?: number;
+    id?: string;
+    idStr?: string;
+    fontsize?: number;
+    pool?: number;
+    ctime?: string;
+    midHash?: string;
+    attr?: number;
+    action?: string;
+}
+
+/** 视频分P信息 */
+export interface VideoPage {
+    cid: number;
+    /** 分P序号（从 1 开始） */
+    page: number;
+    /** 分P标题 */
+    part: string;
+    /** 分P时长（秒） */
+    duration: number;
 }
 
 /** 视频信息接口 */
@@ -26,6 +101,15 @@ export interface VideoInfo {
     cid: number;
     duration: number;
     title: string;
+    pages: VideoPage[];
+}
+
+/** 弹幕下载选项 */
+export interface DanmakuDownloadOptions {
+    /** 分P序号，默认第 1P；选择多个时拼接为连续时间轴 */
+    pages?: number[];
+    /** 需要合并的历史弹幕日期（YYYY-MM-DD），需要登录B站账号 */
+    historyDates?: string[];
 }
 
 /** 弹幕下载结果 */
@@ -33,6 +117,66 @@ export interface DanmakuDownloadResult {
     danmakus: Danmaku[];
     title: string;
     duration: number;
+    /** 各分段是否下载成功（按时间轴顺序从 1 编号，多P拼接时连续编号） */
+    segments: Record<number, boolean>;
+}
+
+/** 本地存储的视频弹幕记录（以 YouTube 视频 ID 为键） */
+export interface StoredVideoDanmaku {
+    danmakus: Danmaku[];
+    bilibili_url: string;
+    title: string;
+    duration: number;
+    /** 下载时间 */
+    timestamp: number;
+    /** 自动时间轴对齐结果 */
+    alignment?: TimelineAlignment;
+    /** 手动设置的时间映射锚点，存在时优先于自动对齐 */
+    timeMap?: TimeAnchor[];
+}
+
+/** 视频弹幕记录的元数据（不含弹幕本身） */
+export interface StoredVideoMeta extends Omit<StoredVideoDanmaku, 'danmakus'> {
+    /** 弹幕条数 */
+    count: number;
+}
+
+/** 可单独更新的视频弹幕记录字段，timeMap 为空数组时清除锚点 */
+export type VideoDanmakuPatch = Partial<Pick<StoredVideoDanmaku, 'alignment' | 'timeMap'>>;
+
+/** 弹幕存储用量 */
+export interface DanmakuStoreStats {
+    /** 已缓存的视频数 */
+    videos: number;
+    /** 估算占用（字节） */
+    bytes: number;
+    /** 存储上限（字节），超出时按最近访问时间淘汰 */
+    budget: number;
+}
+
+/** 时间轴对齐的一段：从 start（YouTube 时间，秒）起，弹幕时间 = YouTube 时间 + offset */
+export interface AlignmentSegment {
+    start: number;
+    offset: number;
+}
+
+/**
+ * 时间映射锚点：YouTube 时间 youtubeTime 对应弹幕时间 bilibiliTime（均为秒）
+ * 弹幕时间不含手动 timeOffset，手动偏移仍叠加在映射之上
+ */
+export interface TimeAnchor {
+    bilibiliTime: number;
+    youtubeTime: number;
+}
+
+/** 自动时间轴对齐结果 */
+export interface TimelineAlignment {
+    /** 按 start 升序排列，第一段从 0 开始；只有一段时即全局偏移 */
+    segments: AlignmentSegment[];
+    /** 置信度（0-1） */
+    confidence: number;
+    /** 参与对齐的 YouTube 时间标记数量 */
+    markerCount: number;
 }
 
 /** Bilibili 搜索结果 */
@@ -41,10 +185,33 @@ export interface BilibiliSearchResult {
     title: string;
     author: string;
     duration: number;
+    /** 视频封面 */
+    pic?: string;
     pubdate?: number;
     play?: number;
 }
 
+/** Bilibili UP主搜索结果 */
+export interface BilibiliUserSearchResult {
+    mid: string;
+    uname: string;
+    face: string;
+    fans: number;
+    videos: number;
+    usign: string;
+    spaceUrl: string;
+}
+
+/** Bilibili 全站视频搜索结果 */
+export interface BilibiliGlobalSearchResult {
+    bvid: string;
+    title: string;
+    author: string;
+    mid: string;
+    pic: string;
+    pubdate: number;
+}
+
 /** 频道关联信息 */
 export interface ChannelAssociation {
     bilibiliUID: string;
@@ -52,40 +219,126 @@ export interface ChannelAssociation {
     bilibiliSpaceUrl?: string;
 }
 
+/** 本地存储的频道关联（存储于 browser.storage.local 的 channelMappings） */
+export interface StoredAssociation extends ChannelAssociation {
+    lastUpdate: number;
+    source?: 'local' | 'remote';
+}
+
+/** YouTube 频道信息 */
+export interface ChannelInfo {
+    channelId: string;
+    channelName: string;
+    channelAvatar: string;
+    success: boolean;
+    timestamp: number;
+}
+
 /** 页面信息 */
 export interface PageInfo {
+    channel: ChannelInfo;
+    videoTitle: string;
     videoId: string;
-    channelId?: string;
-    videoTitle?: string;
-    lastUpdate?: number;
+    timestamp: number;
+    url: string;
 }
 
-/** 广告片段 */
-export interface AdSegment {
-    segment: [number, number];
-    category: string;
-    videoDuration?: number;
+/** 未匹配到B站视频时的提示信息 */
+export interface NoMatchInfo {
+    youtubeVideoId: string;
+    channelInfo: ChannelInfo;
+    videoTitle: string;
+}
+
+/** 等待弹窗显示的多个搜索结果 */
+export interface PendingSearchResults {
+    results: BilibiliSearchResult[];
+    youtubeVideoId: string;
+    channelInfo: ChannelInfo;
+    videoTitle: string;
+    timestamp: number;
 }
 
-/** 消息类型 */
-export type MessageType =
-    | 'GET_DANMAKU'
-    | 'SEARCH_VIDEO'
-    | 'SEARCH_USER'
-    | 'SEARCH_GLOBAL'
-    | 'UPDATE_PAGE_INFO'
-    | 'GET_PAGE_INFO';
+/** 屏蔽规则类型：关键词 / 正则表达式 / 发送者哈希（midHash） */
+export type BlockRuleType = 'keyword' | 'regex' | 'user';
 
-/** 消息接口 */
-export interface Message<T = any> {
-    type: MessageType;
-    data?: T;
-    tabId?: number;
+/** 弹幕屏蔽规则（存储于 browser.storage.local 的 blockRules） */
+export interface BlockRule {
+    id: string;
+    type: BlockRuleType;
+    pattern: string;
+    enabled: boolean;
 }
 
-/** 消息响应接口 */
-export interface MessageResponse<T = any> {
-    success: boolean;
-    data?: T;
-    error?: string;
+/** 超出同屏上限时的丢弃策略：权重最低优先 / 剩余显示时间最短优先 / 合并相同弹幕 */
+export type DensityDropStrategy = 'lowest-weight' | 'shortest-lived' | 'merge';
+
+/** 弹幕显示与丢弃统计 */
+export interface DensityStats {
+    shown: number;
+    dropped: number;
+    /** 因 "merge" 策略并入其他弹幕的数量 */
+    merged: number;
+}
+
+/** 弹幕渲染后端 */
+export type DanmakuRendererType = 'dom' | 'canvas';
+
+/** 弹幕阴影样式：B站默认（柔和） / 重墨 / 无 */
+export type DanmakuShadowStyle = 'bilibili' | 'heavy' | 'none';
+
+/** 弹幕文字样式 */
+export interface DanmakuTextStyle {
+    /** 描边宽度（像素），0 表示不描边 */
+    strokeWidth: number;
+    strokeColor: string;
+    shadow: DanmakuShadowStyle;
+    /** 首选字体，缺字时依次使用中日韩字体回退 */
+    fontFamily: string;
+    bold: boolean;
+    /** 滚动弹幕相对字体大小的缩放 */
+    scrollScale: number;
+    /** 顶部/底部弹幕相对字体大小的缩放 */
+    fixedScale: number;
+}
+
+/** 弹幕显示设置 */
+export interface DanmakuSettings {
+    enabled: boolean;
+    timeOffset: number;
+    opacity: number;
+    fontSize: number;
+    speed: number;
+    /** 滚动速度模式：0 为固定时长，1 为恒定像素速度（B站），中间值按比例混合 */
+    velocityMix: number;
+    trackSpacing: number;
+    displayAreaPercentage: number;
+    /** 避开字幕、控制栏、结束画面元素与信息卡片 */
+    avoidOverlays: boolean;
+    /** 同屏弹幕上限，0 表示不限制 */
+    maxOnScreen: number;
+    dropStrategy: DensityDropStrategy;
+    weightThreshold: number;
+    /** 合并短时间内刷屏的重复弹幕（在屏蔽规则之后进行） */
+    mergeRepeats: boolean;
+    renderer: DanmakuRendererType;
+    textStyle: DanmakuTextStyle;
+    /** 按播放器尺寸自动缩放字号、间距与滚动时长（fontSize 等为 720p 下的值） */
+    autoScale: boolean;
+    /** 是否自动对齐时间轴 */
+    autoAlign: boolean;
+    /** 当前视频的时间轴对齐结果，在 timeOffset 之外额外应用 */
+    alignment: TimelineAlignment | null;
+    /** 当前视频的手动时间映射锚点，非空时取代自动对齐 */
+    timeMap: TimeAnchor[];
+}
+
+/** 持久化的弹幕设置（对齐结果与时间映射随视频保存，不在其中） */
+export type StoredDanmakuSettings = Omit<DanmakuSettings, 'alignment' | 'timeMap'>;
+
+/** 广告片段 */
+export interface AdSegment {
+    segment: [number, number];
+    category: string;
+    videoDuration?: number;
 }
@@ -0,0 +1,142 @@
+/**
+ * 高级弹幕（B站 mode 7）
+ * 解析 JSON 数组形式的定位弹幕参数，并按已播放时长计算位置与透明度
+ */
+
+import type { AdvancedDanmakuPayload } from '../types';
+
+// B站旧版播放器尺寸，整数坐标按此换算为比例
+const REFERENCE_WIDTH = 672;
+const REFERENCE_HEIGHT = 438;
+// 未指定显示时长时的默认值（秒）
+const DEFAULT_DURATION = 4.5;
+
+/** 高级弹幕的解析结果 */
+export interface ParsedAdvancedDanmaku {
+    /** 显示文本（可含换行） */
+    text: string;
+    payload: AdvancedDanmakuPayload;
+}
+
+/** 高级弹幕在某一时刻的状态 */
+export interface AdvancedDanmakuFrame {
+    /** 左上角横坐标（相对舞台宽度的比例） */
+    x: number;
+    /** 左上角纵坐标（相对舞台高度的比例） */
+    y: number;
+    alpha: number;
+}
+
+function toNumber(value: unknown, fallback: number): number {
+    const num = Number(value);
+    return value !== '' && value !== null && Number.isFinite(num) ? num : fallback;
+}
+
+function clampAlpha(value: number): number {
+    return Math.min(1, Math.max(0, value));
+}
+
+/**
+ * 解析坐标
+ * 带小数点且不大于 1 的值为相对比例，其余为参考播放器上的像素
+ */
+function parsePosition(value: unknown, reference: number): number | null {
+    const raw = String(value ?? 0).trim();
+    const num = Number(raw);
+    if (raw === '' || !Number.isFinite(num)) return null;
+    return raw.includes('.') && num <= 1 ? num : num / reference;
+}
+
+function parseFlag(value: unknown): boolean {
+    return value === true || value === 'true' || Number(value) === 1;
+}
+
+/**
+ * 解析高级弹幕内容
+ * 格式：[x1, y1, "透明度起-止", 时长(秒), 文本, Z旋转, Y旋转, x2, y2, 移动时长(毫秒), 移动延迟(毫秒), 描边, 字体, 加速, 路径]
+ * @param content - 弹幕原始内容
+ * @returns 解析结果，格式无效或文本为空时为 null
+ */
+export function parseAdvancedDanmaku(content: string): ParsedAdvancedDanmaku | null {
+    let data: unknown;
+    try {
+        data = JSON.parse(content);
+    } catch {
+        return null;
+    }
+    if (!Array.isArray(data) || data.length < 5) return null;
+
+    const text = String(data[4] ?? '').replace(/\/n/g, '\n');
+    if (text.trim().length === 0) return null;
+
+    const startX = parsePosition(data[0], REFERENCE_WIDTH);
+    const startY = parsePosition(data[1], REFERENCE_HEIGHT);
+    if (startX === null || startY === null) return null;
+
+    const endX = data[7] !== undefined ? parsePosition(data[7], REFERENCE_WIDTH) : startX;
+    const endY = data[8] !== undefined ? parsePosition(data[8], REFERENCE_HEIGHT) : startY;
+    if (endX === null || endY === null) return null;
+
+    const [alphaFrom, alphaTo = alphaFrom] = String(data[2] ?? '1')
+        .split('-')
+        .map((part) => clampAlpha(toNumber(part, 1)));
+
+    const duration = toNumber(data[3], DEFAULT_DURATION) * 1000;
+    const rotateY = toNumber(data[6], 0);
+    const path = typeof data[14] === 'string' ? data[14].trim() : '';
+    const fontFamily = typeof data[12] === 'string' ? data[12].trim() : '';
+
+    const payload: AdvancedDanmakuPayload = {
+        startX,
+        startY,
+        endX,
+        endY,
+        alphaFrom,
+        alphaTo,
+        duration: duration > 0 ? duration : DEFAULT_DURATION * 1000,
+        moveDuration: Math.max(0, toNumber(data[9], 0)),
+        moveDelay: Math.max(0, toNumber(data[10], 0)),
+        rotateZ: toNumber(data[5], 0),
+        rotateY,
+        outline: data[11] === undefined || parseFlag(data[11]),
+        fontFamily: fontFamily || undefined,
+        accelerate: parseFlag(data[13]),
+        // 路径动画与 3D 旋转无法绘制
+        supported: rotateY === 0 && path.length === 0
+    };
+    return { text, payload };
+}
+
+/**
+ * 获取移动进度（0-1）
+ * @param payload - 高级弹幕参数
+ * @param elapsed - 已播放时长（毫秒）
+ */
+function getMoveProgress(payload: AdvancedDanmakuPayload, elapsed: number): number {
+    const moving = elapsed - payload.moveDelay;
+    if (moving <= 0) return 0;
+    if (payload.moveDuration <= 0 || moving >= payload.moveDuration) return 1;
+
+    const progress = moving / payload.moveDuration;
+    return payload.accelerate ? progress * progress : progress;
+}
+
+/**
+ * 计算高级弹幕在某一时刻的位置与透明度
+ * @param payload - 高级弹幕参数
+ * @param elapsed - 已播放时长（毫秒）
+ * @returns 当前状态
+ */
+export function getAdvancedDanmakuFrame(
+    payload: AdvancedDanmakuPayload,
+    elapsed: number
+): AdvancedDanmakuFrame {
+    const move = getMoveProgress(payload, elapsed);
+    const fade = Math.min(1, Math.max(0, elapsed / payload.duration));
+
+    return {
+        x: payload.startX + (payload.endX - payload.startX) * move,
+        y: payload.startY + (payload.endY - payload.startY) * move,
+        alpha: payload.alphaFrom + (payload.alphaTo - payload.alphaFrom) * fade
+    };
+}
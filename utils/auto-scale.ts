@@ -0,0 +1,48 @@
+/**
+ * 弹幕自动缩放
+ * 以 720p 舞台为基准，按播放器尺寸计算字号、间距与滚动时长的缩放比例
+ */
+
+// 基准舞台尺寸（像素），字体大小等设置即在此尺寸下的效果
+export const REFERENCE_STAGE_WIDTH = 1280;
+export const REFERENCE_STAGE_HEIGHT = 720;
+
+// 缩放范围，避免迷你播放器与超大屏幕下的极端值
+const MIN_SIZE_SCALE = 0.5;
+const MAX_SIZE_SCALE = 3;
+const MIN_DURATION_SCALE = 0.75;
+const MAX_DURATION_SCALE = 2;
+
+/** 舞台缩放比例 */
+export interface StageScale {
+    /** 字号与轨道间距的缩放 */
+    size: number;
+    /** 滚动时长的缩放 */
+    duration: number;
+}
+
+/** 不缩放 */
+export const UNIT_STAGE_SCALE: StageScale = { size: 1, duration: 1 };
+
+function clamp(value: number, min: number, max: number): number {
+    return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * 计算舞台相对基准尺寸的缩放
+ * 字号随舞台高度缩放；滚动时长随宽高比缩放，使弹幕以相同的“字高/秒”移动，超宽屏上不会显得过快
+ * @param width - 舞台宽度（像素）
+ * @param height - 舞台高度（像素）
+ * @returns 缩放比例，尺寸无效时不缩放
+ */
+export function getStageScale(width: number, height: number): StageScale {
+    if (width <= 0 || height <= 0) return UNIT_STAGE_SCALE;
+
+    const aspect = width / height;
+    const referenceAspect = REFERENCE_STAGE_WIDTH / REFERENCE_STAGE_HEIGHT;
+
+    return {
+        size: clamp(height / REFERENCE_STAGE_HEIGHT, MIN_SIZE_SCALE, MAX_SIZE_SCALE),
+        duration: clamp(aspect / referenceAspect, MIN_DURATION_SCALE, MAX_DURATION_SCALE)
+    };
+}
@@ -1,28 +1,133 @@
 /**
  * 缓存管理器
- * 使用 LRU 策略管理 API 请求缓存
+ * O(1) 的 LRU 缓存：过期后一段时间内先返回旧数据并在后台刷新（stale-while-revalidate），
+ * 相同键的并发请求共用一次请求，可选同步到 storage，service worker 重启后恢复
  */
 
+import type { VideoInfo } from '../types';
+
 interface CacheEntry<T> {
     data: T;
     timestamp: number;
     expiresAt: number;
+    /** 超过此时间后不再返回旧数据 */
+    staleUntil: number;
 }
 
+/** 持久化位置：session 在 worker 重启后保留，local 在浏览器重启后仍保留 */
+export type CachePersistArea = 'session' | 'local';
+
 interface CacheOptions {
     ttl?: number; // Time to live in milliseconds
     maxSize?: number; // Maximum number of entries
+    /** 过期后仍可返回旧数据并在后台刷新的时长（毫秒），默认 0 */
+    staleTtl?: number;
+    /** 持久化时的名称（storage 键为 cache:名称），不设置则只保存在内存中 */
+    persistKey?: string;
+    /** 持久化位置，默认 session */
+    persistArea?: CachePersistArea;
+}
+
+/** 缓存统计信息 */
+export interface CacheStats {
+    size: number;
+    maxSize: number;
+    ttl: number;
+    hits: number;
+    misses: number;
+    /** 返回旧数据并后台刷新的次数 */
+    staleHits: number;
+    evictions: number;
+    /** 命中率（含返回旧数据），没有访问时为 0 */
+    hitRate: number;
+    /** 进行中的请求数 */
+    inFlight: number;
+    oldestEntry: number | null;
+    newestEntry: number | null;
 }
 
 export class CacheManager<T> {
+    // Map 按插入顺序迭代，访问时重新插入，第一个键即最久未使用
     private cache = new Map<string, CacheEntry<T>>();
-    private accessOrder: string[] = [];
+    private inFlight = new Map<string, Promise<T>>();
+    private metrics = { hits: 0, misses: 0, staleHits: 0, evictions: 0 };
     private ttl: number;
     private maxSize: number;
+    private staleTtl: number;
+    private storageKey: string | null;
+    private persistArea: CachePersistArea;
+    private restoring: Promise<void> | null = null;
+    private persistScheduled = false;
 
     constructor(options: CacheOptions = {}) {
         this.ttl = options.ttl || 5 * 60 * 1000; // Default 5 minutes
         this.maxSize = options.maxSize || 100; // Default 100 entries
+        this.staleTtl = options.staleTtl || 0;
+        this.storageKey = options.persistKey ? `cache:${options.persistKey}` : null;
+        this.persistArea = options.persistArea || 'session';
+    }
+
+    /**
+     * 等待从 storage 恢复缓存（只恢复一次），未启用持久化时立即完成
+     * 恢复的条目不会覆盖恢复前已写入的条目
+     */
+    ready(): Promise<void> {
+        if (!this.restoring) {
+            this.restoring = this.restore();
+        }
+        return this.restoring;
+    }
+
+    private async restore(): Promise<void> {
+        if (!this.storageKey) return;
+
+        try {
+            const result = await browser.storage[this.persistArea].get(this.storageKey);
+            const saved = (result[this.storageKey] || []) as [string, CacheEntry<T>][];
+            const now = Date.now();
+
+            // 恢复的条目视为比恢复前写入的更旧
+            const restored = saved.filter(
+                ([key, entry]) => now <= entry.staleUntil && !this.cache.has(key)
+            );
+            this.cache = new Map([...restored, ...this.cache]);
+            this.evictOverflow();
+        } catch (error) {
+            console.error('恢复缓存失败:', this.storageKey, error);
+        }
+    }
+
+    /**
+     * 将缓存写入 storage，同一轮中的多次修改合并为一次写入
+     */
+    private schedulePersist(): void {
+        if (!this.storageKey || this.persistScheduled) return;
+        this.persistScheduled = true;
+
+        Promise.resolve().then(async () => {
+            this.persistScheduled = false;
+            try {
+                await browser.storage[this.persistArea].set({
+                    [this.storageKey!]: Array.from(this.cache.entries())
+                });
+            } catch (error) {
+                console.error('保存缓存失败:', this.storageKey, error);
+            }
+        });
+    }
+
+    private evictOverflow(): void {
+        while (this.cache.size > this.maxSize) {
+            const oldestKey = this.cache.keys().next().value as string;
+            this.cache.delete(oldestKey);
+            this.metrics.evictions++;
+        }
+    }
+
+    // 标记为最近使用
+    private touch(key: string, entry: CacheEntry<T>): void {
+        this.cache.delete(key);
+        this.cache.set(key, entry);
     }
 
     /**
@@ -32,51 +137,91 @@ export class CacheManager<T> {
         const now = Date.now();
         const ttl = customTtl || this.ttl;
 
-        // 如果已存在，先移除旧的访问记录
-        if (this.cache.has(key)) {
-            this.accessOrder = this.accessOrder.filter((k) => k !== key);
-        }
-
-        // 添加新条目
+        this.cache.delete(key);
         this.cache.set(key, {
             data,
             timestamp: now,
-            expiresAt: now + ttl
+            expiresAt: now + ttl,
+            staleUntil: now + ttl + this.staleTtl
         });
+        this.evictOverflow();
+        this.schedulePersist();
+    }
 
-        // 更新访问顺序
-        this.accessOrder.push(key);
+    /**
+     * 获取未过期的缓存
+     */
+    get(key: string): T | null {
+        const entry = this.cache.get(key);
+        const now = Date.now();
 
-        // LRU 淘汰
-        if (this.cache.size > this.maxSize) {
-            const oldestKey = this.accessOrder.shift();
-            if (oldestKey) {
-                this.cache.delete(oldestKey);
+        if (!entry || now > entry.expiresAt) {
+            // 旧数据仍可供 getOrFetch 使用，超过 staleUntil 才删除
+            if (entry && now > entry.staleUntil) {
+                this.delete(key);
             }
+            this.metrics.misses++;
+            return null;
         }
+
+        this.touch(key, entry);
+        this.metrics.hits++;
+        return entry.data;
     }
 
     /**
-     * 获取缓存
+     * 获取缓存，未命中时调用 fetcher 获取并写入缓存
+     * 已过期但未超过 staleTtl 时直接返回旧数据，同时在后台刷新；
+     * 相同键正在请求时复用该请求，请求失败不写入缓存
+     * @param key - 缓存键
+     * @param fetcher - 获取数据
+     * @param customTtl - 本条缓存的有效期（毫秒）
      */
-    get(key: string): T | null {
+    async getOrFetch<R extends T>(
+        key: string,
+        fetcher: () => Promise<R>,
+        customTtl?: number
+    ): Promise<R> {
+        await this.ready();
+
         const entry = this.cache.get(key);
+        const now = Date.now();
 
-        if (!entry) {
-            return null;
+        if (entry && now <= entry.expiresAt) {
+            this.touch(key, entry);
+            this.metrics.hits++;
+            return entry.data as R;
         }
 
-        // 检查是否过期
-        if (Date.now() > entry.expiresAt) {
-            this.delete(key);
-            return null;
+        if (entry && now <= entry.staleUntil) {
+            this.touch(key, entry);
+            this.metrics.staleHits++;
+            this.revalidate(key, fetcher, customTtl).catch((error) =>
+                console.warn('后台刷新缓存失败:', key, error)
+            );
+            return entry.data as R;
         }
 
-        // 更新访问顺序（LRU）
-        this.accessOrder = this.accessOrder.filter((k) => k !== key);
-        this.accessOrder.push(key);
+        this.metrics.misses++;
+        return this.revalidate(key, fetcher, customTtl);
+    }
 
-        return entry.data;
+    private revalidate<R extends T>(
+        key: string,
+        fetcher: () => Promise<R>,
+        customTtl?: number
+    ): Promise<R> {
+        const pending = this.inFlight.get(key);
+        if (pending) return pending as Promise<R>;
+
+        const request = fetcher()
+            .then((data) => {
+                this.set(key, data, customTtl);
+                return data;
+            })
+            .finally(() => this.inFlight.delete(key));
+        this.inFlight.set(key, request);
+        return request;
     }
 
     /**
@@ -84,7 +229,7 @@ export class CacheManager<T> {
      */
     delete(key: string): void {
         this.cache.delete(key);
-        this.accessOrder = this.accessOrder.filter((k) => k !== key);
+        this.schedulePersist();
     }
 
     /**
@@ -92,7 +237,7 @@ export class CacheManager<T> {
      */
     clear(): void {
         this.cache.clear();
-        this.accessOrder = [];
+        this.schedulePersist();
     }
 
     /**
@@ -103,14 +248,14 @@ export class CacheManager<T> {
     }
 
     /**
-     * 清理过期缓存
+     * 清理不能再使用的缓存（已超过旧数据期限）
      */
     cleanup(): number {
         const now = Date.now();
         let removed = 0;
 
         for (const [key, entry] of this.cache.entries()) {
-            if (now > entry.expiresAt) {
+            if (now > entry.staleUntil) {
                 this.delete(key);
                 removed++;
             }
@@ -122,20 +267,21 @@ export class CacheManager<T> {
     /**
      * 获取缓存统计信息
      */
-    stats(): {
-        size: number;
-        maxSize: number;
-        ttl: number;
-        oldestEntry: number | null;
-        newestEntry: number | null;
-    } {
-        const entries = Array.from(this.cache.values());
-        const timestamps = entries.map((e) => e.timestamp);
+    stats(): CacheStats {
+        const timestamps = Array.from(this.cache.values(), (e) => e.timestamp);
+        const { hits, misses, staleHits, evictions } = this.metrics;
+        const requests = hits + staleHits + misses;
 
         return {
             size: this.cache.size,
             maxSize: this.maxSize,
             ttl: this.ttl,
+            hits,
+            misses,
+            staleHits,
+            evictions,
+            hitRate: requests > 0 ? (hits + staleHits) / requests : 0,
+            inFlight: this.inFlight.size,
             oldestEntry: timestamps.length > 0 ? Math.min(...timestamps) : null,
             newestEntry: timestamps.length > 0 ? Math.max(...timestamps) : null
         };
@@ -143,17 +289,34 @@ export class CacheManager<T> {
 }
 
 // 创建全局缓存实例
+// WBI Keys 在浏览器重启后仍可复用，过期后 1 小时内先用旧值（密钥按天轮换）
 export const wbiKeysCache = new CacheManager<{ img_key: string; sub_key: string }>({
     ttl: 60 * 60 * 1000, // 1 hour
-    maxSize: 10
+    staleTtl: 60 * 60 * 1000,
+    maxSize: 10,
+    persistKey: 'wbiKeys',
+    persistArea: 'local'
 });
 
-export const videoInfoCache = new CacheManager<any>({
+export const videoInfoCache = new CacheManager<VideoInfo>({
     ttl: 5 * 60 * 1000, // 5 minutes
-    maxSize: 50
+    staleTtl: 30 * 60 * 1000,
+    maxSize: 50,
+    persistKey: 'videoInfo'
 });
 
-export const searchResultsCache = new CacheManager<any>({
+// 各类搜索结果，键以搜索类型为前缀
+export const searchResultsCache = new CacheManager<unknown>({
     ttl: 10 * 60 * 1000, // 10 minutes
-    maxSize: 30
+    staleTtl: 30 * 60 * 1000,
+    maxSize: 30,
+    persistKey: 'searchResults'
+});
+
+// 番剧搜索、剧集列表与剧集详情，键以查询类型为前缀
+export const bangumiCache = new CacheManager<unknown>({
+    ttl: 30 * 60 * 1000, // 30 minutes
+    staleTtl: 6 * 60 * 60 * 1000,
+    maxSize: 50,
+    persistKey: 'bangumi'
 });
@@ -0,0 +1,503 @@
+/**
+ * Canvas 弹幕渲染器
+ * 预先测量并缓存文字位图，按视频时间逐帧绘制到单个 canvas 上
+ */
+
+import type { AdvancedDanmakuPayload, Danmaku } from '../types';
+import { getAdvancedDanmakuFrame } from './advanced-danmaku';
+import { EMOTE_SCALE, getEmoteUrl, parseDanmakuSegments, type DanmakuSegment } from './emotes';
+import { getDanmakuCountBadge, getDanmakuFontScale } from './danmaku-renderer';
+import { DEFAULT_TEXT_STYLE, getCanvasShadow, getFontFamily, getFontWeight } from './danmaku-style';
+import type {
+    DanmakuRenderer,
+    FixedRenderSpec,
+    PositionedRenderSpec,
+    RenderedDanmaku,
+    RendererClock,
+    RendererStyle,
+    ScrollingRenderSpec
+} from './danmaku-renderer';
+
+type BitmapCanvas = OffscreenCanvas | HTMLCanvasElement;
+
+/** 缓存的文字位图 */
+interface TextBitmap {
+    canvas: BitmapCanvas;
+    width: number;
+    height: number;
+    /** 表情图片均已加载完成（未完成的位图不缓存，下一帧重新生成） */
+    complete: boolean;
+}
+
+const LINE_HEIGHT = 1.2;
+const PADDING_Y = 2;
+
+// 位图缓存上限
+const MAX_CACHED_BITMAPS = 500;
+
+function createBitmapCanvas(width: number, height: number): BitmapCanvas {
+    if (typeof OffscreenCanvas !== 'undefined') {
+        return new OffscreenCanvas(width, height);
+    }
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return canvas;
+}
+
+function get2dContext(
+    canvas: BitmapCanvas
+): CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null {
+    return canvas.getContext('2d') as
+        | CanvasRenderingContext2D
+        | OffscreenCanvasRenderingContext2D
+        | null;
+}
+
+export class CanvasDanmakuRenderer implements DanmakuRenderer {
+    readonly type = 'canvas' as const;
+    private stage: HTMLDivElement | null = null;
+    private canvas: HTMLCanvasElement | null = null;
+    private context: CanvasRenderingContext2D | null = null;
+    private measureContext: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null =
+        null;
+    private bitmaps = new Map<string, TextBitmap>();
+    private emoteImages = new Map<string, HTMLImageElement>();
+    private items = new Set<CanvasRenderedDanmaku>();
+    private style: RendererStyle = { fontSize: 24, opacity: 100, text: DEFAULT_TEXT_STYLE };
+    private width = 0;
+    private height = 0;
+    private pixelRatio = 1;
+    private playing = false;
+    private frameId: number | null = null;
+
+    constructor(private clock: RendererClock) {}
+
+    mount(stage: HTMLDivElement): void {
+        this.stage = stage;
+
+        this.canvas = document.createElement('canvas');
+        this.canvas.className = 'bilibili-danmaku-canvas';
+        this.canvas.style.position = 'absolute';
+        this.canvas.style.top = '0';
+        this.canvas.style.left = '0';
+        this.canvas.style.width = '100%';
+        this.canvas.style.height = '100%';
+        this.canvas.style.pointerEvents = 'none';
+        stage.appendChild(this.canvas);
+
+        this.context = this.canvas.getContext('2d');
+        this.measureContext = get2dContext(createBitmapCanvas(1, 1));
+        this.resize();
+    }
+
+    measure(danmaku: Danmaku): number {
+        return this.getBitmap(danmaku).width;
+    }
+
+    createScrolling(spec: ScrollingRenderSpec): RenderedDanmaku {
+        const item = new CanvasRenderedDanmaku(
+            this,
+            spec.danmaku,
+            spec.width,
+            spec.top,
+            spec.duration,
+            spec.elapsed,
+            false
+        );
+        this.items.add(item);
+        this.requestDraw();
+        return item;
+    }
+
+    createFixed(spec: FixedRenderSpec): RenderedDanmaku {
+        const bitmap = this.getBitmap(spec.danmaku);
+        const item = new CanvasRenderedDanmaku(
+            this,
+            spec.danmaku,
+            bitmap.width,
+            spec.top,
+            0,
+            0,
+            true
+        );
+        this.items.add(item);
+        this.requestDraw();
+        return item;
+    }
+
+    createPositioned(spec: PositionedRenderSpec): RenderedDanmaku {
+        const bitmap = this.getBitmap(spec.danmaku);
+        const item = new CanvasRenderedDanmaku(
+            this,
+            spec.danmaku,
+            bitmap.width,
+            0,
+            spec.payload.duration,
+            spec.elapsed,
+            false,
+            spec.payload
+        );
+        this.items.add(item);
+        this.requestDraw();
+        return item;
+    }
+
+    play(): void {
+        if (this.playing) return;
+        this.playing = true;
+
+        const loop = () => {
+            this.draw();
+            if (this.playing) {
+                this.frameId = requestAnimationFrame(loop);
+            }
+        };
+        this.frameId = requestAnimationFrame(loop);
+    }
+
+    pause(): void {
+        this.playing = false;
+        if (this.frameId) {
+            cancelAnimationFrame(this.frameId);
+            this.frameId = null;
+        }
+        this.draw();
+    }
+
+    setStyle(style: RendererStyle): void {
+        if (
+            style.fontSize !== this.style.fontSize ||
+            JSON.stringify(style.text) !== JSON.stringify(this.style.text)
+        ) {
+            this.bitmaps.clear();
+        }
+        this.style = { ...style };
+        this.requestDraw();
+    }
+
+    resize(): void {
+        if (!this.stage || !this.canvas || !this.context) return;
+
+        this.width = this.stage.offsetWidth;
+        this.height = this.stage.offsetHeight;
+        this.pixelRatio = window.devicePixelRatio || 1;
+
+        this.canvas.width = Math.round(this.width * this.pixelRatio);
+        this.canvas.height = Math.round(this.height * this.pixelRatio);
+        this.context.setTransform(this.pixelRatio, 0, 0, this.pixelRatio, 0, 0);
+
+        // 像素比变化后需重新生成位图
+        this.bitmaps.clear();
+        this.requestDraw();
+    }
+
+    clear(): void {
+        this.items.clear();
+        this.requestDraw();
+    }
+
+    destroy(): void {
+        this.pause();
+        this.items.clear();
+        this.bitmaps.clear();
+        this.emoteImages.clear();
+        this.canvas?.remove();
+        this.canvas = null;
+        this.context = null;
+        this.stage = null;
+    }
+
+    /** 当前用于计算弹幕位置的视频时间与播放速率 */
+    now(): { videoTime: number; playbackRate: number } {
+        return {
+            videoTime: this.clock.getVideoTime(),
+            playbackRate: this.clock.getPlaybackRate() || 1.0
+        };
+    }
+
+    removeItem(item: CanvasRenderedDanmaku): void {
+        this.items.delete(item);
+        this.requestDraw();
+    }
+
+    /** 非播放状态下的变化只需重绘一帧 */
+    requestDraw(): void {
+        if (this.playing || this.frameId) return;
+
+        this.frameId = requestAnimationFrame(() => {
+            this.frameId = null;
+            this.draw();
+        });
+    }
+
+    /**
+     * 获取（或生成）弹幕文字位图
+     * @param danmaku - 弹幕
+     * @returns 文字位图
+     */
+    private getBitmap(danmaku: Danmaku): TextBitmap {
+        const color = danmaku.color || '#ffffff';
+        const fontSize = Math.round(
+            this.style.fontSize * getDanmakuFontScale(danmaku, this.style.text)
+        );
+        const badge = getDanmakuCountBadge(danmaku);
+        const text = badge ? `${danmaku.text} ${badge}` : danmaku.text;
+        const outline = danmaku.advanced?.outline ?? true;
+        const key = `${fontSize}|${color}|${outline}|${text}`;
+
+        const cached = this.bitmaps.get(key);
+        if (cached) {
+            // 刷新插入顺序，近似 LRU
+            this.bitmaps.delete(key);
+            this.bitmaps.set(key, cached);
+            return cached;
+        }
+
+        const bitmap = this.rasterize(text, color, fontSize, outline);
+        if (!bitmap.complete) return bitmap;
+        this.bitmaps.set(key, bitmap);
+
+        if (this.bitmaps.size > MAX_CACHED_BITMAPS) {
+            const oldestKey = this.bitmaps.keys().next().value;
+            if (oldestKey !== undefined) {
+                this.bitmaps.delete(oldestKey);
+            }
+        }
+
+        return bitmap;
+    }
+
+    /**
+     * 获取（或开始加载）表情图片，加载结束后重绘
+     * @param file - 表情图片文件名
+     */
+    private getEmoteImage(file: string): HTMLImageElement {
+        let image = this.emoteImages.get(file);
+        if (!image) {
+            image = new Image();
+            image.onload = image.onerror = () => this.requestDraw();
+            image.src = getEmoteUrl(file);
+            this.emoteImages.set(file, image);
+        }
+        return image;
+    }
+
+    /**
+     * 测量片段宽度，加载失败的表情按表情代码文字计算
+     */
+    private measureSegment(segment: DanmakuSegment, fontSize: number): number {
+        if (segment.type === 'emote') {
+            const image = this.getEmoteImage(segment.file);
+            if (!image.complete || image.naturalWidth > 0) return fontSize * EMOTE_SCALE;
+        }
+
+        const text = segment.type === 'text' ? segment.text : segment.code;
+        return this.measureContext
+            ? this.measureContext.measureText(text).width
+            : text.length * fontSize;
+    }
+
+    private rasterize(text: string, color: string, fontSize: number, outline: boolean): TextBitmap {
+        const textStyle = this.style.text;
+        const font = `${getFontWeight(textStyle)} ${fontSize}px ${getFontFamily(textStyle)}`;
+        const strokeWidth = outline ? textStyle.strokeWidth : 0;
+        const shadow = getCanvasShadow(textStyle);
+        // 描边与阴影超出文字的范围
+        const padding = Math.ceil(
+            strokeWidth + (shadow ? shadow.blur + Math.max(shadow.offsetX, shadow.offsetY) : 0)
+        );
+        const paddingY = Math.max(PADDING_Y, padding);
+        if (this.measureContext) {
+            this.measureContext.font = font;
+        }
+
+        // 高级弹幕可能包含换行
+        const lines = text.split('\n').map((line) => parseDanmakuSegments(line));
+        const textWidth = Math.max(
+            ...lines.map((segments) =>
+                segments.reduce((sum, segment) => sum + this.measureSegment(segment, fontSize), 0)
+            )
+        );
+
+        const lineHeight = fontSize * LINE_HEIGHT;
+        const emoteSize = fontSize * EMOTE_SCALE;
+        const width = Math.ceil(textWidth + padding * 2);
+        const height = Math.ceil(lineHeight * lines.length + paddingY * 2);
+        const canvas = createBitmapCanvas(
+            Math.max(1, Math.round(width * this.pixelRatio)),
+            Math.max(1, Math.round(height * this.pixelRatio))
+        );
+
+        let complete = true;
+        const ctx = get2dContext(canvas);
+        if (ctx) {
+            ctx.scale(this.pixelRatio, this.pixelRatio);
+            ctx.font = font;
+            ctx.textBaseline = 'middle';
+            ctx.lineJoin = 'round';
+            // 描边居中绘制，线宽取两倍才能在文字外侧得到 strokeWidth
+            ctx.lineWidth = strokeWidth * 2;
+            ctx.strokeStyle = textStyle.strokeColor;
+            ctx.fillStyle = color;
+
+            // 阴影只画在最底层（有描边时画在描边上）
+            const setShadow = (enabled: boolean) => {
+                ctx.shadowColor = enabled && shadow ? shadow.color : 'transparent';
+                ctx.shadowBlur = enabled && shadow ? shadow.blur : 0;
+                ctx.shadowOffsetX = enabled && shadow ? shadow.offsetX : 0;
+                ctx.shadowOffsetY = enabled && shadow ? shadow.offsetY : 0;
+            };
+            const drawText = (value: string, x: number, y: number) => {
+                if (strokeWidth > 0) {
+                    setShadow(true);
+                    ctx.strokeText(value, x, y);
+                }
+                setShadow(strokeWidth <= 0);
+                ctx.fillText(value, x, y);
+                setShadow(false);
+            };
+
+            lines.forEach((segments, i) => {
+                const y = paddingY + lineHeight * (i + 0.5);
+                let x = padding;
+
+                segments.forEach((segment) => {
+                    const segmentWidth = this.measureSegment(segment, fontSize);
+                    if (segment.type === 'text') {
+                        drawText(segment.text, x, y);
+                    } else {
+                        const image = this.getEmoteImage(segment.file);
+                        if (!image.complete) {
+                            complete = false;
+                        } else if (image.naturalWidth > 0) {
+                            ctx.drawImage(image, x, y - emoteSize / 2, emoteSize, emoteSize);
+                        } else {
+                            drawText(segment.code, x, y);
+                        }
+                    }
+                    x += segmentWidth;
+                });
+            });
+        }
+
+        return { canvas, width, height, complete };
+    }
+
+    private draw(): void {
+        if (!this.context) return;
+
+        const ctx = this.context;
+        ctx.clearRect(0, 0, this.width, this.height);
+        ctx.globalAlpha = this.style.opacity / 100;
+
+        const { videoTime, playbackRate } = this.now();
+
+        this.items.forEach((item) => {
+            const bitmap = this.getBitmap(item.danmaku);
+            if (item.payload) {
+                this.drawPositioned(item.payload, bitmap, item.elapsedAt(videoTime, playbackRate));
+                return;
+            }
+
+            let x: number;
+
+            if (item.fixed) {
+                x = (this.width - bitmap.width) / 2;
+            } else {
+                const progress = Math.min(
+                    item.elapsedAt(videoTime, playbackRate) / item.duration,
+                    1
+                );
+                x = this.width - progress * (this.width + bitmap.width);
+            }
+
+            ctx.drawImage(bitmap.canvas, x, item.top, bitmap.width, bitmap.height);
+        });
+    }
+
+    private drawPositioned(
+        payload: AdvancedDanmakuPayload,
+        bitmap: TextBitmap,
+        elapsed: number
+    ): void {
+        if (!this.context || elapsed >= payload.duration) return;
+
+        const ctx = this.context;
+        const frame = getAdvancedDanmakuFrame(payload, elapsed);
+        ctx.save();
+        ctx.globalAlpha = (this.style.opacity / 100) * frame.alpha;
+        ctx.translate(frame.x * this.width, frame.y * this.height);
+        ctx.rotate((payload.rotateZ * Math.PI) / 180);
+        ctx.drawImage(bitmap.canvas, 0, 0, bitmap.width, bitmap.height);
+        ctx.restore();
+    }
+}
+
+/**
+ * Canvas 上的单条弹幕
+ * 记录锚点（视频时间 → 已播放时长），位置随视频时间推算
+ */
+class CanvasRenderedDanmaku implements RenderedDanmaku {
+    private anchorVideoTime: number;
+    private anchorElapsed: number;
+
+    constructor(
+        private renderer: CanvasDanmakuRenderer,
+        readonly danmaku: Danmaku,
+        public width: number,
+        public top: number,
+        public duration: number,
+        elapsed: number,
+        readonly fixed: boolean,
+        readonly payload?: AdvancedDanmakuPayload
+    ) {
+        this.anchorVideoTime = renderer.now().videoTime;
+        this.anchorElapsed = elapsed;
+    }
+
+    elapsedAt(videoTime: number, playbackRate: number): number {
+        return Math.max(
+            0,
+            this.anchorElapsed + ((videoTime - this.anchorVideoTime) * 1000) / playbackRate
+        );
+    }
+
+    get elapsed(): number {
+        const { videoTime, playbackRate } = this.renderer.now();
+        return this.elapsedAt(videoTime, playbackRate);
+    }
+
+    get finished(): boolean {
+        return !this.fixed && this.elapsed >= this.duration;
+    }
+
+    setTop(top: number): void {
+        this.top = top;
+        this.renderer.requestDraw();
+    }
+
+    setDuration(duration: number): void {
+        if (this.fixed) return;
+
+        const progress = this.elapsed / this.duration;
+        this.duration = duration;
+        this.seek(progress * duration);
+    }
+
+    seek(elapsed: number): void {
+        this.anchorVideoTime = this.renderer.now().videoTime;
+        this.anchorElapsed = elapsed;
+        this.renderer.requestDraw();
+    }
+
+    relayout(): void {
+        // 位置按舞台尺寸逐帧计算，只需更新宽度
+        this.width = this.renderer.measure(this.danmaku);
+        this.renderer.requestDraw();
+    }
+
+    remove(): void {
+        this.renderer.removeItem(this);
+    }
+}
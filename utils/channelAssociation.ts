@@ -3,7 +3,8 @@
  * 统一管理 YouTube 频道与 B站 UP主的关联关系
  */
 
-import type { ChannelAssociation } from '../types';
+import { getStorageItem, setStorageItems } from './storage';
+import type { ChannelAssociation, StoredAssociation } from '../types';
 
 /** 远程数据库格式 */
 interface RemoteChannelData {
@@ -16,12 +17,6 @@ interface RemoteDatabase {
     channels: RemoteChannelData[];
 }
 
-/** 本地存储的关联数据 */
-interface StoredAssociation extends ChannelAssociation {
-    lastUpdate: number;
-    source?: 'local' | 'remote';
-}
-
 /** 关联统计信息 */
 interface AssociationStats {
     totalAssociations: number;
@@ -30,7 +25,6 @@ interface AssociationStats {
 }
 
 export class ChannelAssociationManager {
-    private readonly STORAGE_KEY = 'channelMappings';
     private readonly REMOTE_DB_URL =
         'https://raw.githubusercontent.com/ahaduoduoduo/bilibili-youtube-danmaku/main/channel-associations.json';
 
@@ -94,8 +88,7 @@ export class ChannelAssociationManager {
                 throw new Error('缺少必要的关联参数');
             }
 
-            const result = await browser.storage.local.get(this.STORAGE_KEY);
-            const mappings = (result[this.STORAGE_KEY] || {}) as Record<string, StoredAssociation>;
+            const mappings = await getStorageItem('channelMappings');
 
             mappings[channelId] = {
                 bilibiliUID: associationData.bilibiliUID,
@@ -104,7 +97,7 @@ export class ChannelAssociationManager {
                 lastUpdate: Date.now()
             };
 
-            await browser.storage.local.set({ [this.STORAGE_KEY]: mappings });
+            await setStorageItems({ channelMappings: mappings });
             return true;
         } catch (error) {
             console.error('保存频道关联失败:', error);
@@ -121,12 +114,11 @@ export class ChannelAssociationManager {
         try {
             if (!channelId) return false;
 
-            const result = await browser.storage.local.get(this.STORAGE_KEY);
-            const mappings = (result[this.STORAGE_KEY] || {}) as Record<string, StoredAssociation>;
+            const mappings = await getStorageItem('channelMappings');
 
             delete mappings[channelId];
 
-            await browser.storage.local.set({ [this.STORAGE_KEY]: mappings });
+            await setStorageItems({ channelMappings: mappings });
             return true;
         } catch (error) {
             console.error('删除频道关联失败:', error);
@@ -140,8 +132,7 @@ export class ChannelAssociationManager {
      */
     async getAllAssociations(): Promise<Record<string, StoredAssociation>> {
         try {
-            const result = await browser.storage.local.get(this.STORAGE_KEY);
-            return (result[this.STORAGE_KEY] || {}) as Record<string, StoredAssociation>;
+            return await getStorageItem('channelMappings');
         } catch (error) {
             console.error('获取所有关联失败:', error);
             return {};
@@ -212,8 +203,7 @@ export class ChannelAssociationManager {
      */
     async getLocalAssociation(channelId: string): Promise<StoredAssociation | null> {
         try {
-            const result = await browser.storage.local.get(this.STORAGE_KEY);
-            const mappings = (result[this.STORAGE_KEY] || {}) as Record<string, StoredAssociation>;
+            const mappings = await getStorageItem('channelMappings');
             return mappings[channelId] || null;
         } catch (error) {
             console.error('获取本地关联信息失败:', error);
@@ -1,40 +1,96 @@
 /**
  * 弹幕渲染引擎
- * 使用 Web Animations API 实现高性能弹幕渲染
+ * 负责轨道分配与发射调度，具体绘制交给可切换的渲染后端
  */
 
-import type { Danmaku } from '../types';
-
-interface DanmakuSettings {
-    enabled: boolean;
-    timeOffset: number;
-    opacity: number;
-    fontSize: number;
-    speed: number;
-    trackSpacing: number;
-    displayAreaPercentage: number;
-    weightThreshold: number;
-}
+import type { BlockRule, Danmaku, DanmakuSettings, DensityStats, TimeAnchor } from '../types';
+import {
+    createDanmakuRenderer,
+    type DanmakuRenderer,
+    type RenderedDanmaku
+} from './danmaku-renderer';
+import { alignmentToAnchors, getTimeMapOffset, toYoutubeTime } from './time-map';
+import { filterDanmakus } from './danmaku-filter';
+import { mergeRepeatedDanmakus } from './danmaku-merge';
+import { DanmakuScheduler } from './danmaku-scheduler';
+import { DensityController } from './density-controller';
+import { canFollow, getScrollDuration, type ScrollMotion } from './track-allocator';
+import { getPlayerOverlayRects } from './youtube-dom';
+import { DEFAULT_DANMAKU_SETTINGS, normalizeDanmakuSettings } from './storage';
+import { getStageScale, UNIT_STAGE_SCALE, type StageScale } from './auto-scale';
 
 interface DanmakuTrack {
     top: number;
     items: DanmakuItem[];
+    /** 被字幕、控制栏等遮挡，暂不放置新弹幕 */
+    blocked: boolean;
 }
 
 interface DanmakuItem {
-    elem: HTMLDivElement;
-    animation: Animation;
+    rendered: RenderedDanmaku;
     startVideoTime: number;
     baseDuration: number;
     width: number;
-    danmaku: Danmaku & { emitted?: boolean };
+    danmaku: Danmaku;
+}
+
+/** 顶部/底部固定弹幕轨道，同一时刻只容纳一条弹幕 */
+interface FixedDanmakuTrack {
+    top: number;
+    item: FixedDanmakuItem | null;
+    blocked: boolean;
+}
+
+/** 避让区域（相对弹幕舞台的纵向范围，像素） */
+interface ExclusionZone {
+    top: number;
+    bottom: number;
 }
 
+interface FixedDanmakuItem {
+    rendered: RenderedDanmaku;
+    startVideoTime: number;
+    danmaku: Danmaku;
+}
+
+/** 高级定位弹幕，不占用轨道 */
+interface PositionedDanmakuItem {
+    rendered: RenderedDanmaku;
+    danmaku: Danmaku;
+}
+
+// 固定弹幕显示时长（秒，按视频时间计算）
+const FIXED_DANMAKU_DURATION = 4;
+// 每次检查时补发/提前发射的时间范围（秒）
+const EMIT_LOOKBEHIND = 0.5;
+const EMIT_LOOKAHEAD = 1.0;
+// 每次检查最多取出的候选弹幕数量，实际发射数量由密度控制决定
+const MAX_CANDIDATES_PER_TICK = 200;
+// 滚动弹幕的基础显示时长（秒）
+const SCROLL_DURATION = 8;
+// 没有空闲轨道时弹幕最多等待的时长（秒），超时后丢弃
+const MAX_QUEUE_DELAY = 2;
+// 重新同步时恢复的滚动弹幕时间范围（秒）
+const RESYNC_WINDOW = 8.0;
+
 export default class DanmakuEngine {
     private container: HTMLElement;
     private stage: HTMLDivElement | null = null;
-    private danmakus: (Danmaku & { emitted?: boolean })[] = [];
+    private renderer: DanmakuRenderer;
+    private scheduler = new DanmakuScheduler([]);
+    private density = new DensityController();
+    // 暂时没有空闲轨道、等待下次检查的弹幕
+    private pending: Danmaku[] = [];
+    private exclusionZones: ExclusionZone[] = [];
+    private exclusionKey = '';
+    // 未经屏蔽规则过滤的原始弹幕，规则变化时据此重新过滤
+    private sourceDanmakus: Danmaku[] = [];
+    private blockRules: BlockRule[] = [];
+    private blockHits: Record<string, number> = {};
     private tracks: DanmakuTrack[] = [];
+    private topTracks: FixedDanmakuTrack[] = [];
+    private bottomTracks: FixedDanmakuTrack[] = [];
+    private positionedItems: PositionedDanmakuItem[] = [];
     private settings: DanmakuSettings;
     private video: HTMLVideoElement | null = null;
     private isStarted = false;
@@ -46,19 +102,19 @@ export default class DanmakuEngine {
     private emittingFrameId: number | null = null;
     private lastEmitTime = 0;
     private lastCleanupTime = 0;
+    // 当前生效的时间映射（手动锚点或自动对齐结果）
+    private timeAnchors: TimeAnchor[] = [];
+    // 自动缩放时舞台相对基准尺寸的缩放比例
+    private stageScale: StageScale = UNIT_STAGE_SCALE;
 
     constructor(container: HTMLElement) {
         this.container = container;
         this.settings = {
-            enabled: true,
-            timeOffset: 0,
-            opacity: 100,
-            fontSize: 24,
-            speed: 1.0,
-            trackSpacing: 8,
-            displayAreaPercentage: 100,
-            weightThreshold: 0
+            ...normalizeDanmakuSettings(DEFAULT_DANMAKU_SETTINGS),
+            alignment: null,
+            timeMap: []
         };
+        this.renderer = this.createRenderer();
         this.init();
     }
 
@@ -67,6 +123,7 @@ export default class DanmakuEngine {
         this.stage = document.createElement('div');
         this.stage.className = 'bilibili-danmaku-stage';
         this.container.appendChild(this.stage);
+        this.renderer.mount(this.stage);
 
         // 查找视频元素
         this.video = document.querySelector('video');
@@ -81,11 +138,88 @@ export default class DanmakuEngine {
         this.observeResize();
     }
 
+    /**
+     * 当前视频时间对应的弹幕时间（应用时间映射与手动偏移）
+     */
+    private getDanmakuTime(): number {
+        if (!this.video) return 0;
+
+        const videoTime = this.video.currentTime;
+        return videoTime + getTimeMapOffset(this.timeAnchors, videoTime) + this.settings.timeOffset;
+    }
+
+    /**
+     * 重新计算生效的时间映射：手动锚点优先，其次是自动对齐结果
+     */
+    private updateTimeAnchors(): void {
+        const { timeMap, alignment, autoAlign } = this.settings;
+        if (timeMap.length > 0) {
+            this.timeAnchors = timeMap;
+        } else if (autoAlign && alignment) {
+            this.timeAnchors = alignmentToAnchors(alignment);
+        } else {
+            this.timeAnchors = [];
+        }
+    }
+
+    /**
+     * 获取当前生效的时间映射锚点
+     */
+    getTimeAnchors(): TimeAnchor[] {
+        return this.timeAnchors;
+    }
+
+    /**
+     * 以当前播放位置创建锚点，使指定时间的弹幕此刻出现
+     * @param danmakuTime - 弹幕时间（秒）
+     * @returns 锚点，找不到视频时为 null
+     */
+    createTimeAnchor(danmakuTime: number): TimeAnchor | null {
+        if (!this.video) return null;
+
+        return {
+            bilibiliTime: danmakuTime - this.settings.timeOffset,
+            youtubeTime: this.video.currentTime
+        };
+    }
+
+    /**
+     * 将弹幕时间换算为视频时间（应用时间映射与手动偏移）
+     * @param danmakuTime - 弹幕时间（秒）
+     * @returns 视频时间（秒）
+     */
+    toVideoTime(danmakuTime: number): number {
+        return toYoutubeTime(this.timeAnchors, danmakuTime - this.settings.timeOffset);
+    }
+
+    private createRenderer(): DanmakuRenderer {
+        return createDanmakuRenderer(this.settings.renderer, {
+            getVideoTime: () => this.getDanmakuTime(),
+            getPlaybackRate: () => this.video?.playbackRate || 1.0
+        });
+    }
+
+    /**
+     * 切换渲染后端，当前屏幕上的弹幕按播放进度重新发射
+     */
+    private switchRenderer(): void {
+        console.log(`切换弹幕渲染后端: ${this.renderer.type} → ${this.settings.renderer}`);
+
+        this.clear();
+        this.renderer.destroy();
+        this.renderer = this.createRenderer();
+        if (this.stage) {
+            this.renderer.mount(this.stage);
+        }
+    }
+
     private observeResize(): void {
         if (window.ResizeObserver) {
             this.resizeObserver = new ResizeObserver(() => {
                 this.updateStageSize();
+                this.renderer.resize();
                 this.initTracks();
+                this.updateExclusionZones(true);
             });
             this.resizeObserver.observe(this.container);
 
@@ -121,22 +255,29 @@ export default class DanmakuEngine {
         setTimeout(() => {
             console.log('全屏状态变化 - 流畅转换弹幕');
             this.updateStageSize();
+            this.renderer.resize();
             this.initTracks();
+            this.updateExclusionZones(true);
         }, 100);
     }
 
     private initTracks(): void {
-        const existingItems: DanmakuItem[] = [];
-        if (this.tracks && this.tracks.length > 0) {
-            this.tracks.forEach((track) => {
-                existingItems.push(...track.items);
-            });
+        if (this.updateStageScale()) {
+            this.applyRendererStyle();
         }
 
+        // 按原轨道序号记录现有弹幕，字号或舞台尺寸变化后放回同序号的轨道
+        const existingItems: { item: DanmakuItem; trackIndex: number }[] = [];
+        this.tracks.forEach((track, trackIndex) => {
+            track.items.forEach((item) => existingItems.push({ item, trackIndex }));
+        });
+
         const stageHeight = this.container.offsetHeight;
         const usableHeight = stageHeight * (this.settings.displayAreaPercentage / 100);
-        const trackHeight = this.settings.fontSize + this.settings.trackSpacing;
+        const trackHeight = this.getTrackHeight(this.settings.textStyle.scrollScale);
         const trackCount = Math.floor(usableHeight / trackHeight);
+        const fixedTrackHeight = this.getTrackHeight(this.settings.textStyle.fixedScale);
+        const fixedTrackCount = Math.floor(usableHeight / fixedTrackHeight);
 
         console.log('初始化弹幕轨道:', {
             容器高度: stageHeight,
@@ -151,29 +292,186 @@ export default class DanmakuEngine {
         for (let i = 0; i < trackCount; i++) {
             this.tracks.push({
                 top: i * trackHeight,
-                items: []
+                items: [],
+                blocked: false
             });
         }
 
-        existingItems.forEach((item) => {
-            this.redistributeItemToNewTrack(item, trackHeight);
+        existingItems.forEach(({ item, trackIndex }) => {
+            this.relayoutScrollingItem(item);
+            this.redistributeItemToNewTrack(item, trackIndex);
         });
+
+        this.topTracks = this.rebuildFixedTracks(
+            this.topTracks,
+            fixedTrackCount,
+            (i) => i * fixedTrackHeight
+        );
+        this.bottomTracks = this.rebuildFixedTracks(
+            this.bottomTracks,
+            fixedTrackCount,
+            (i) => usableHeight - (i + 1) * fixedTrackHeight
+        );
+
+        this.applyExclusionZones();
+    }
+
+    /**
+     * 轨道高度：按弹幕类型缩放后的字号加上垂直间距
+     * @param scale - 弹幕类型的缩放
+     */
+    private getTrackHeight(scale: number): number {
+        return this.getFontSize() * scale + this.settings.trackSpacing * this.stageScale.size;
     }
 
-    private redistributeItemToNewTrack(item: DanmakuItem, trackHeight: number): void {
-        if (!item.elem) return;
+    /**
+     * 实际字号（像素），自动缩放时随舞台尺寸变化
+     */
+    private getFontSize(): number {
+        return this.settings.fontSize * this.stageScale.size;
+    }
+
+    /**
+     * 重新计算舞台缩放比例
+     * @returns 缩放比例是否变化
+     */
+    private updateStageScale(): boolean {
+        const scale = this.settings.autoScale
+            ? getStageScale(this.container.offsetWidth, this.container.offsetHeight)
+            : UNIT_STAGE_SCALE;
+        if (scale.size === this.stageScale.size && scale.duration === this.stageScale.duration) {
+            return false;
+        }
 
-        const currentTop = parseInt(item.elem.style.top) || 0;
-        const trackIndex = Math.floor(currentTop / trackHeight);
+        console.log(
+            `弹幕缩放: 字号 ×${scale.size.toFixed(2)}, 滚动时长 ×${scale.duration.toFixed(2)}`
+        );
+        this.stageScale = scale;
+        return true;
+    }
+
+    private applyRendererStyle(): void {
+        this.renderer.setStyle({
+            fontSize: this.getFontSize(),
+            opacity: this.settings.opacity,
+            text: this.settings.textStyle
+        });
+    }
+
+    /**
+     * 滚动弹幕的基础时长（毫秒，未计入速度设置）
+     * @param width - 弹幕宽度（像素）
+     */
+    private getBaseScrollDuration(width: number): number {
+        return getScrollDuration(
+            SCROLL_DURATION * 1000 * this.stageScale.duration,
+            width,
+            this.stage?.offsetWidth ?? 0,
+            this.settings.velocityMix
+        );
+    }
+
+    /**
+     * 字号或舞台尺寸变化后重新测量滚动弹幕，按新的时长继续滚动并保持进度比例
+     */
+    private relayoutScrollingItem(item: DanmakuItem): void {
+        item.rendered.relayout();
+        item.width = item.rendered.width;
+
+        const baseDuration = this.getBaseScrollDuration(item.width);
+        if (baseDuration !== item.baseDuration) {
+            item.baseDuration = baseDuration;
+            item.rendered.setDuration(baseDuration / this.settings.speed);
+        }
+    }
+
+    /**
+     * 重新读取播放器遮挡元素的位置，变化时重新标记被遮挡的轨道
+     * @param force - 即使位置未变化也重新标记
+     */
+    private updateExclusionZones(force = false): void {
+        if (!this.stage) return;
+
+        let zones: ExclusionZone[] = [];
+        if (this.settings.avoidOverlays) {
+            const stageRect = this.stage.getBoundingClientRect();
+            zones = getPlayerOverlayRects()
+                .map((rect) => ({
+                    top: Math.round(rect.top - stageRect.top),
+                    bottom: Math.round(rect.bottom - stageRect.top)
+                }))
+                .filter((zone) => zone.bottom > 0 && zone.top < stageRect.height);
+        }
+
+        const key = zones.map((zone) => `${zone.top}-${zone.bottom}`).join(',');
+        if (!force && key === this.exclusionKey) return;
+
+        this.exclusionKey = key;
+        this.exclusionZones = zones;
+        this.applyExclusionZones();
+    }
+
+    /**
+     * 标记与避让区域重叠的轨道
+     */
+    private applyExclusionZones(): void {
+        const isBlocked = (top: number, height: number) =>
+            this.exclusionZones.some((zone) => top < zone.bottom && top + height > zone.top);
+
+        const trackHeight = this.getTrackHeight(this.settings.textStyle.scrollScale);
+        this.tracks.forEach((track) => {
+            track.blocked = isBlocked(track.top, trackHeight);
+        });
+
+        const fixedTrackHeight = this.getTrackHeight(this.settings.textStyle.fixedScale);
+        [...this.topTracks, ...this.bottomTracks].forEach((track) => {
+            track.blocked = isBlocked(track.top, fixedTrackHeight);
+        });
+    }
+
+    /**
+     * 重建固定弹幕轨道，现有弹幕保留在原轨道序号上
+     * @param oldTracks - 原轨道
+     * @param trackCount - 新轨道数量
+     * @param topOf - 轨道序号到纵向位置的映射
+     */
+    private rebuildFixedTracks(
+        oldTracks: FixedDanmakuTrack[],
+        trackCount: number,
+        topOf: (index: number) => number
+    ): FixedDanmakuTrack[] {
+        const tracks: FixedDanmakuTrack[] = [];
+        for (let i = 0; i < trackCount; i++) {
+            tracks.push({ top: topOf(i), item: null, blocked: false });
+        }
+
+        oldTracks.forEach((track, index) => {
+            if (!track.item) return;
+
+            if (index >= tracks.length) {
+                track.item.rendered.remove();
+                return;
+            }
+
+            track.item.rendered.relayout();
+            track.item.rendered.setTop(tracks[index].top);
+            tracks[index].item = track.item;
+        });
+
+        return tracks;
+    }
+
+    private redistributeItemToNewTrack(item: DanmakuItem, trackIndex: number): void {
+        const currentTop = item.rendered.top;
 
         if (trackIndex >= this.tracks.length) {
-            item.elem.remove();
+            item.rendered.remove();
             console.log(`弹幕超出显示区域，已移除: ${currentTop}px`);
             return;
         }
 
         const targetTrack = this.tracks[trackIndex] || this.tracks[0];
-        item.elem.style.top = targetTrack.top + 'px';
+        item.rendered.setTop(targetTrack.top);
         targetTrack.items.push(item);
 
         console.log(`弹幕重新分配: 从${currentTop}px → 轨道${trackIndex} (${targetTrack.top}px)`);
@@ -229,9 +527,9 @@ export default class DanmakuEngine {
     }
 
     loadDanmakus(danmakus: Danmaku[]): void {
-        this.danmakus = danmakus
-            .map((d) => ({ ...d, emitted: false }))
-            .sort((a, b) => a.time - b.time);
+        this.sourceDanmakus = danmakus;
+        this.indexDanmakus();
+        this.density.reset();
         this.clear();
 
         if (this.video && !this.video.paused) {
@@ -242,27 +540,95 @@ export default class DanmakuEngine {
         }
     }
 
+    /**
+     * 按屏蔽规则过滤、合并重复弹幕并排序
+     * 合并在过滤之后进行，屏蔽规则总是作用于每一条原始弹幕
+     * 无法绘制的高级弹幕同时被隐藏，不会作为普通文本出现
+     */
+    private indexDanmakus(): void {
+        const { kept, hits } = filterDanmakus(this.sourceDanmakus, this.blockRules);
+        this.blockHits = hits;
+
+        const blocked = this.sourceDanmakus.length - kept.length;
+        if (blocked > 0) {
+            console.log(`屏蔽规则过滤弹幕: ${blocked} 条`);
+        }
+
+        let danmakus = kept;
+        if (this.settings.mergeRepeats) {
+            danmakus = mergeRepeatedDanmakus(kept);
+            console.log(`重复弹幕合并: ${kept.length} → ${danmakus.length} 条`);
+        }
+
+        this.scheduler = new DanmakuScheduler(
+            danmakus.filter((d) => d.mode !== 'advanced' || d.advanced?.supported)
+        );
+    }
+
+    /**
+     * 更新屏蔽规则并重新过滤已载入的弹幕
+     * @param rules - 屏蔽规则
+     */
+    setBlockRules(rules: BlockRule[]): void {
+        this.blockRules = rules;
+        if (this.sourceDanmakus.length === 0) return;
+
+        this.indexDanmakus();
+        this.rebuildDanmakusAsync();
+    }
+
+    /**
+     * 获取当前视频各屏蔽规则的命中次数（按规则 ID）
+     */
+    getBlockHits(): Record<string, number> {
+        return this.blockHits;
+    }
+
     updateSettings(settings: Partial<DanmakuSettings>): void {
         const oldSettings = { ...this.settings };
         this.settings = { ...this.settings, ...settings };
 
-        if (this.stage) {
-            this.stage.style.setProperty('--danmaku-font-size', `${this.settings.fontSize}px`);
-            this.stage.style.setProperty('--danmaku-opacity', String(this.settings.opacity / 100));
+        const rendererChanged = oldSettings.renderer !== this.settings.renderer;
+        if (rendererChanged) {
+            this.switchRenderer();
         }
 
+        this.applyRendererStyle();
+
         if (oldSettings.speed !== this.settings.speed) {
             console.log(`弹幕速度变化: ${oldSettings.speed} → ${this.settings.speed}`);
             this.updateAnimationSpeeds();
         }
 
         this.initTracks();
+        if (oldSettings.avoidOverlays !== this.settings.avoidOverlays) {
+            this.updateExclusionZones(true);
+        }
+
+        if (oldSettings.mergeRepeats !== this.settings.mergeRepeats) {
+            this.indexDanmakus();
+        }
+
+        const alignmentChanged =
+            oldSettings.alignment !== this.settings.alignment ||
+            oldSettings.autoAlign !== this.settings.autoAlign ||
+            oldSettings.timeMap !== this.settings.timeMap;
+        if (alignmentChanged) {
+            this.updateTimeAnchors();
+        }
 
         if (!this.settings.enabled) {
             this.clear();
             this.pause();
+        } else if (alignmentChanged && !rendererChanged) {
+            console.log('时间映射变化，重新同步弹幕');
+            this.resyncDanmakus();
         } else {
-            if (oldSettings.weightThreshold !== this.settings.weightThreshold) {
+            if (
+                rendererChanged ||
+                oldSettings.weightThreshold !== this.settings.weightThreshold ||
+                oldSettings.mergeRepeats !== this.settings.mergeRepeats
+            ) {
                 console.log(
                     `Weight阈值变化: ${oldSettings.weightThreshold} → ${this.settings.weightThreshold}`
                 );
@@ -276,15 +642,7 @@ export default class DanmakuEngine {
     private updateAnimationSpeeds(): void {
         this.tracks.forEach((track) => {
             track.items.forEach((item) => {
-                if (item.animation) {
-                    const newDuration = item.baseDuration / this.settings.speed;
-                    const currentTime = item.animation.currentTime || 0;
-                    const oldDuration = item.animation.effect!.getTiming().duration as number;
-                    const progress = (currentTime as number) / oldDuration;
-
-                    item.animation.effect!.updateTiming({ duration: newDuration });
-                    item.animation.currentTime = progress * newDuration;
-                }
+                item.rendered.setDuration(item.baseDuration / this.settings.speed);
             });
         });
     }
@@ -308,14 +666,7 @@ export default class DanmakuEngine {
         if (!this.settings.enabled) return;
 
         this.isStarted = true;
-
-        this.tracks.forEach((track) => {
-            track.items.forEach((item) => {
-                if (item.animation && item.animation.playState === 'paused') {
-                    item.animation.play();
-                }
-            });
-        });
+        this.renderer.play();
 
         this.startEmitting();
     }
@@ -337,6 +688,7 @@ export default class DanmakuEngine {
 
                 if (currentTime - this.lastCleanupTime >= 500) {
                     this.cleanup();
+                    this.updateExclusionZones();
                     this.lastCleanupTime = currentTime;
                 }
             }
@@ -352,31 +704,72 @@ export default class DanmakuEngine {
     private checkAndEmitDanmakus(): void {
         if (!this.video || !this.settings.enabled) return;
 
-        const currentTime = this.video.currentTime + this.settings.timeOffset;
+        const currentTime = this.getDanmakuTime();
+        const due = this.scheduler.takeDue(currentTime, {
+            lookbehind: EMIT_LOOKBEHIND,
+            lookahead: EMIT_LOOKAHEAD,
+            limit: MAX_CANDIDATES_PER_TICK,
+            accept: (d) => this.passesWeightThreshold(d)
+        });
 
-        const newDanmakus = this.danmakus.filter((d) => {
-            if (d.emitted) return false;
+        // 排队的弹幕时间更早，放在前面保持时间顺序
+        const queued = this.pending.filter((d) => currentTime - d.time <= MAX_QUEUE_DELAY);
+        this.density.recordDropped(this.pending.length - queued.length);
+        this.pending = [];
 
-            if (this.settings.weightThreshold > 0) {
-                const weight = d.weight !== undefined && d.weight !== null ? d.weight : 5;
-                if (weight < this.settings.weightThreshold) {
-                    return false;
-                }
+        const candidates = [...queued, ...due];
+        if (candidates.length === 0) return;
+
+        const selected = this.density.select(candidates, {
+            onScreen: this.countOnScreen(),
+            maxOnScreen: this.settings.maxOnScreen,
+            strategy: this.settings.dropStrategy,
+            getRemainingLifetime: (d) => this.getLifetime(d) - (currentTime - d.time)
+        });
+
+        selected.forEach((danmaku) => {
+            if (this.emit(danmaku)) {
+                this.density.recordShown();
+            } else {
+                this.pending.push(danmaku);
             }
+        });
+    }
 
-            const timeDiff = d.time - currentTime;
-            return timeDiff >= -0.5 && timeDiff <= 1.0;
+    /**
+     * 弹幕的显示时长（秒，按弹幕时间计算）
+     */
+    private getLifetime(danmaku: Danmaku): number {
+        if (danmaku.advanced) return danmaku.advanced.duration / 1000;
+        return this.isFixedDanmaku(danmaku)
+            ? FIXED_DANMAKU_DURATION
+            : (SCROLL_DURATION * this.stageScale.duration) / this.settings.speed;
+    }
+
+    /**
+     * 当前屏幕上的弹幕数量
+     */
+    private countOnScreen(): number {
+        let count = this.positionedItems.length;
+        this.tracks.forEach((track) => (count += track.items.length));
+        [...this.topTracks, ...this.bottomTracks].forEach((track) => {
+            if (track.item) count++;
         });
+        return count;
+    }
 
-        newDanmakus
-            .sort((a, b) => a.time - b.time)
-            .slice(0, 10)
-            .forEach((danmaku) => {
-                if (!danmaku.emitted) {
-                    this.emit(danmaku);
-                    danmaku.emitted = true;
-                }
-            });
+    /**
+     * 获取本视频的弹幕显示与丢弃统计
+     */
+    getDensityStats(): DensityStats {
+        return this.density.getStats();
+    }
+
+    private passesWeightThreshold(danmaku: Danmaku): boolean {
+        if (this.settings.weightThreshold <= 0) return true;
+
+        const weight = danmaku.weight !== undefined && danmaku.weight !== null ? danmaku.weight : 5;
+        return weight >= this.settings.weightThreshold;
     }
 
     pause(): void {
@@ -387,38 +780,26 @@ export default class DanmakuEngine {
             this.emittingFrameId = null;
         }
 
-        this.tracks.forEach((track) => {
-            track.items.forEach((item) => {
-                if (item.animation && item.animation.playState === 'running') {
-                    item.animation.pause();
-                }
-            });
-        });
+        this.renderer.pause();
     }
 
     clear(): void {
+        this.pending = [];
         this.tracks.forEach((track) => {
-            track.items.forEach((item) => {
-                if (item.animation) {
-                    item.animation.cancel();
-                }
-                if (item.elem) {
-                    item.elem.remove();
-                }
-            });
             track.items = [];
         });
 
-        if (this.stage) {
-            this.stage.innerHTML = '';
-        }
+        [...this.topTracks, ...this.bottomTracks].forEach((track) => {
+            track.item = null;
+        });
+        this.positionedItems = [];
+
+        this.renderer.clear();
     }
 
     private resetDanmakuStates(): void {
-        if (this.danmakus && this.danmakus.length > 0) {
-            this.danmakus.forEach((danmaku) => {
-                danmaku.emitted = false;
-            });
+        if (this.scheduler.size > 0) {
+            this.scheduler.seek(this.getDanmakuTime() - RESYNC_WINDOW);
             console.log('已重置所有弹幕状态');
         }
     }
@@ -428,114 +809,116 @@ export default class DanmakuEngine {
 
         this.tracks.forEach((track) => {
             track.items.forEach((item) => {
-                if (item.animation && item.danmaku && this.video) {
-                    const currentVideoTime = this.video.currentTime + this.settings.timeOffset;
+                if (this.video) {
+                    const currentVideoTime = this.getDanmakuTime();
                     const visualElapsed = (currentVideoTime - item.danmaku.time) / newRate;
                     const progressMs = Math.max(0, visualElapsed * 1000);
-                    const duration = item.animation.effect!.getTiming().duration as number;
 
-                    if (progressMs <= duration) {
-                        item.animation.currentTime = progressMs;
+                    if (progressMs <= item.rendered.duration) {
+                        item.rendered.seek(progressMs);
                     }
                 }
             });
         });
 
-        console.log('弹幕位置已根据新播放速度重新计算');
-    }
+        this.positionedItems.forEach((item) => {
+            const elapsed = (this.getDanmakuTime() - item.danmaku.time) / newRate;
+            item.rendered.seek(Math.max(0, elapsed * 1000));
+        });
 
-    private calculateVisualElapsed(
-        videoTime: number,
-        danmakuStartTime: number,
-        playbackRate: number
-    ): number {
-        const realElapsed = videoTime - danmakuStartTime;
-        return realElapsed / playbackRate;
+        console.log('弹幕位置已根据新播放速度重新计算');
     }
 
     private resyncDanmakus(): void {
         if (!this.video || !this.settings.enabled) return;
 
-        const currentTime = this.video.currentTime + this.settings.timeOffset;
+        const currentTime = this.getDanmakuTime();
 
         this.clear();
         this.resetDanmakuStates();
 
-        const activeDanmakus = this.danmakus.filter((d) => {
-            const timeDiff = currentTime - d.time;
+        let activeCount = 0;
+        this.scheduler.forEachInRange(currentTime - RESYNC_WINDOW, currentTime, (danmaku) => {
+            if (!this.passesWeightThreshold(danmaku)) return false;
+            activeCount++;
 
-            if (this.settings.weightThreshold > 0) {
-                const weight = d.weight !== undefined && d.weight !== null ? d.weight : 5;
-                if (weight < this.settings.weightThreshold) {
-                    return false;
-                }
+            const timeDiff = currentTime - danmaku.time;
+            let emitted;
+            if (danmaku.mode === 'advanced') {
+                if (timeDiff >= this.getLifetime(danmaku)) return false;
+                emitted = this.emitPositioned(danmaku, timeDiff);
+            } else if (this.isFixedDanmaku(danmaku)) {
+                if (timeDiff >= FIXED_DANMAKU_DURATION) return false;
+                emitted = this.emitFixed(danmaku, danmaku.time);
+            } else {
+                emitted = this.emitWithProgress(danmaku, timeDiff);
             }
 
-            return timeDiff >= -1.0 && timeDiff <= 8.0;
+            // 没有空闲轨道时放入等待队列，超过 MAX_QUEUE_DELAY 仍未放置的计为丢弃
+            if (!emitted) {
+                this.pending.push(danmaku);
+            }
+            return true;
         });
 
-        console.log(
-            `重新同步弹幕: 当前时间=${currentTime.toFixed(2)}s, 应显示=${activeDanmakus.length}条`
-        );
+        console.log(`重新同步弹幕: 当前时间=${currentTime.toFixed(2)}s, 应显示=${activeCount}条`);
+    }
 
-        activeDanmakus.forEach((danmaku) => {
-            const timeDiff = currentTime - danmaku.time;
-            if (timeDiff >= 0 && timeDiff <= 8.0) {
-                this.emitWithProgress(danmaku, timeDiff);
-                danmaku.emitted = true;
-            }
-        });
+    private emitWithProgress(danmaku: Danmaku, elapsed: number): DanmakuItem | undefined {
+        return this.emitScrolling(danmaku, elapsed, danmaku.time);
     }
 
-    private emitWithProgress(
-        danmaku: Danmaku & { emitted?: boolean },
-        elapsed: number
-    ): DanmakuItem | undefined {
+    private emit(
+        danmaku: Danmaku
+    ): DanmakuItem | FixedDanmakuItem | PositionedDanmakuItem | undefined {
         if (!this.stage || !this.video) return;
 
-        const elem = document.createElement('div');
-        elem.textContent = danmaku.text;
-        elem.style.color = danmaku.color || '#ffffff';
-        elem.style.position = 'absolute';
-        elem.style.whiteSpace = 'nowrap';
-        elem.style.pointerEvents = 'none';
-        elem.style.zIndex = '9999';
+        if (danmaku.mode === 'advanced') {
+            return this.emitPositioned(danmaku, 0);
+        }
 
-        const track = this.findAvailableTrack();
-        if (!track) return;
+        if (this.isFixedDanmaku(danmaku)) {
+            return this.emitFixed(danmaku, this.getDanmakuTime());
+        }
 
-        elem.style.top = track.top + 'px';
-        this.stage.appendChild(elem);
+        return this.emitScrolling(danmaku, 0, this.getDanmakuTime());
+    }
 
-        const danmakuWidth = elem.offsetWidth;
-        const stageWidth = this.stage.offsetWidth;
+    /**
+     * 发射滚动弹幕
+     * 滚动时长随弹幕宽度调整，只放入不会与已有弹幕重叠的轨道
+     * @param danmaku - 弹幕
+     * @param elapsed - 已经过的弹幕时间（秒）
+     * @param startVideoTime - 弹幕开始滚动的弹幕时间
+     */
+    private emitScrolling(
+        danmaku: Danmaku,
+        elapsed: number,
+        startVideoTime: number
+    ): DanmakuItem | undefined {
+        if (!this.stage || !this.video) return;
 
-        const baseDuration = 8000;
-        const adjustedDuration = baseDuration / this.settings.speed;
-        const currentPlaybackRate = this.video.playbackRate || 1.0;
-
-        const animation = elem.animate(
-            [
-                { transform: `translateX(${stageWidth}px)`, offset: 0 },
-                { transform: `translateX(-${danmakuWidth}px)`, offset: 1 }
-            ],
-            {
-                duration: adjustedDuration,
-                easing: 'linear',
-                fill: 'forwards'
-            }
-        );
+        const width = this.renderer.measure(danmaku);
+        const baseDuration = this.getBaseScrollDuration(width);
+        const duration = baseDuration / this.settings.speed;
+        const visualElapsed = (elapsed / (this.video.playbackRate || 1.0)) * 1000;
+
+        const track = this.findAvailableTrack({ width, duration, elapsed: visualElapsed });
+        if (!track) return;
 
-        const visualElapsed = elapsed / currentPlaybackRate;
-        const progressMs = visualElapsed * 1000;
-        animation.currentTime = Math.max(0, Math.min(progressMs, adjustedDuration));
+        const rendered = this.renderer.createScrolling({
+            danmaku,
+            top: track.top,
+            width,
+            duration,
+            elapsed: visualElapsed
+        });
 
         const item: DanmakuItem = {
-            elem,
-            animation,
-            startVideoTime: danmaku.time,
+            rendered,
+            startVideoTime,
             baseDuration,
-            width: danmakuWidth,
+            width: rendered.width,
             danmaku
         };
 
@@ -543,95 +926,96 @@ export default class DanmakuEngine {
         return item;
     }
 
-    private emit(danmaku: Danmaku & { emitted?: boolean }): DanmakuItem | undefined {
-        if (!this.stage || !this.video) return;
+    /**
+     * 发射高级定位弹幕
+     * @param danmaku - 弹幕
+     * @param elapsed - 已经过的弹幕时间（秒）
+     */
+    private emitPositioned(danmaku: Danmaku, elapsed: number): PositionedDanmakuItem | undefined {
+        if (!this.stage || !danmaku.advanced) return;
+
+        const visualElapsed = (elapsed / (this.video?.playbackRate || 1.0)) * 1000;
+        const item: PositionedDanmakuItem = {
+            rendered: this.renderer.createPositioned({
+                danmaku,
+                payload: danmaku.advanced,
+                elapsed: visualElapsed
+            }),
+            danmaku
+        };
 
-        const elem = document.createElement('div');
-        elem.textContent = danmaku.text;
-        elem.style.color = danmaku.color || '#ffffff';
-        elem.style.position = 'absolute';
-        elem.style.whiteSpace = 'nowrap';
-        elem.style.pointerEvents = 'none';
-        elem.style.zIndex = '9999';
-        elem.style.willChange = 'transform';
-        elem.style.transform = 'translate3d(0, 0, 0)';
-        elem.style.backfaceVisibility = 'hidden';
-        elem.style.perspective = '1000px';
-
-        const track = this.findAvailableTrack();
-        if (!track) return;
+        this.positionedItems.push(item);
+        return item;
+    }
 
-        elem.style.top = track.top + 'px';
-        this.stage.appendChild(elem);
+    private isFixedDanmaku(danmaku: Danmaku): boolean {
+        return danmaku.mode === 'top' || danmaku.mode === 'bottom';
+    }
 
-        const danmakuWidth = elem.offsetWidth;
-        const stageWidth = this.stage.offsetWidth;
+    /**
+     * 发射顶部/底部固定弹幕
+     * @param danmaku - 弹幕
+     * @param startVideoTime - 弹幕开始显示的视频时间
+     */
+    private emitFixed(danmaku: Danmaku, startVideoTime: number): FixedDanmakuItem | undefined {
+        if (!this.stage) return;
 
-        const baseDuration = 8000;
-        const adjustedDuration = baseDuration / this.settings.speed;
-
-        const animation = elem.animate(
-            [
-                { transform: `translateX(${stageWidth}px)`, offset: 0 },
-                { transform: `translateX(-${danmakuWidth}px)`, offset: 1 }
-            ],
-            {
-                duration: adjustedDuration,
-                easing: 'linear',
-                fill: 'forwards'
-            }
+        const track = this.findAvailableFixedTrack(
+            danmaku.mode === 'top' ? this.topTracks : this.bottomTracks
         );
+        if (!track) return;
 
-        const item: DanmakuItem = {
-            elem,
-            animation,
-            startVideoTime: this.video.currentTime + this.settings.timeOffset,
-            baseDuration,
-            width: danmakuWidth,
+        const item: FixedDanmakuItem = {
+            rendered: this.renderer.createFixed({ danmaku, top: track.top }),
+            startVideoTime,
             danmaku
         };
 
-        track.items.push(item);
+        track.item = item;
         return item;
     }
 
-    private findAvailableTrack(): DanmakuTrack | undefined {
-        if (!this.video || !this.stage) return this.tracks[0];
-
-        const stageWidth = this.stage.offsetWidth;
-        const currentVideoTime = this.video.currentTime + this.settings.timeOffset;
-        const playbackRate = this.video.playbackRate || 1.0;
-
-        for (const track of this.tracks) {
-            let available = true;
-
-            for (const item of track.items) {
-                if (!item.animation || !item.danmaku) continue;
+    private findAvailableFixedTrack(pool: FixedDanmakuTrack[]): FixedDanmakuTrack | undefined {
+        const currentVideoTime = this.getDanmakuTime();
 
-                const visualElapsed = this.calculateVisualElapsed(
-                    currentVideoTime,
-                    item.danmaku.time,
-                    playbackRate
-                );
-
-                const duration = (item.animation.effect!.getTiming().duration as number) / 1000;
-                const progress = Math.min(visualElapsed / duration, 1);
+        const track = pool.find(
+            (t) => !t.blocked && (!t.item || this.isFixedItemExpired(t.item, currentVideoTime))
+        );
+        if (track?.item) {
+            track.item.rendered.remove();
+            track.item = null;
+        }
 
-                const totalDistance = stageWidth + item.width;
-                const itemX = stageWidth - progress * totalDistance;
+        return track;
+    }
 
-                if (itemX + item.width > stageWidth - 100) {
-                    available = false;
-                    break;
-                }
-            }
+    private isFixedItemExpired(item: FixedDanmakuItem, currentVideoTime: number): boolean {
+        return currentVideoTime - item.startVideoTime >= FIXED_DANMAKU_DURATION;
+    }
 
-            if (available) {
-                return track;
-            }
-        }
+    /**
+     * 查找能放下弹幕、且在整个显示期间不会发生追尾的轨道
+     * @param motion - 待放置弹幕的运动状态
+     */
+    private findAvailableTrack(motion: ScrollMotion): DanmakuTrack | undefined {
+        if (!this.stage) return this.tracks[0];
 
-        return this.tracks[Math.floor(Math.random() * this.tracks.length)];
+        const stageWidth = this.stage.offsetWidth;
+        return this.tracks.find(
+            (track) =>
+                !track.blocked &&
+                track.items.every((item) =>
+                    canFollow(
+                        {
+                            width: item.width,
+                            duration: item.rendered.duration,
+                            elapsed: item.rendered.elapsed
+                        },
+                        motion,
+                        stageWidth
+                    )
+                )
+        );
     }
 
     private cleanup(): void {
@@ -641,39 +1025,49 @@ export default class DanmakuEngine {
 
         this.tracks.forEach((track) => {
             track.items = track.items.filter((item) => {
-                if (!item.animation) {
-                    if (item.elem) item.elem.remove();
+                if (item.rendered.finished) {
+                    item.rendered.remove();
                     return false;
                 }
 
-                const animationState = item.animation.playState;
-
-                if (animationState === 'finished' || animationState === 'idle') {
-                    if (item.elem) item.elem.remove();
-                    return false;
-                }
-
-                const currentTime = item.animation.currentTime || 0;
-                const duration = item.animation.effect!.getTiming().duration as number;
-                const progress = (currentTime as number) / duration;
+                const progress = item.rendered.elapsed / item.rendered.duration;
 
                 const totalDistance = stageWidth + item.width;
                 const x = stageWidth - progress * totalDistance;
 
                 if (x < -item.width || progress >= 1) {
-                    item.animation.cancel();
-                    if (item.elem) item.elem.remove();
+                    item.rendered.remove();
                     return false;
                 }
 
                 return true;
             });
         });
+
+        this.positionedItems = this.positionedItems.filter((item) => {
+            if (item.rendered.finished) {
+                item.rendered.remove();
+                return false;
+            }
+            return true;
+        });
+
+        if (this.video) {
+            const currentVideoTime = this.getDanmakuTime();
+
+            [...this.topTracks, ...this.bottomTracks].forEach((track) => {
+                if (track.item && this.isFixedItemExpired(track.item, currentVideoTime)) {
+                    track.item.rendered.remove();
+                    track.item = null;
+                }
+            });
+        }
     }
 
     destroy(): void {
         this.pause();
         this.clear();
+        this.renderer.destroy();
 
         if (this.emittingFrameId) {
             cancelAnimationFrame(this.emittingFrameId);
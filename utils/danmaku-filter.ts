@@ -0,0 +1,95 @@
+/**
+ * 弹幕屏蔽规则
+ * 支持关键词、正则表达式与发送者哈希三种规则，在弹幕载入时一次性过滤
+ */
+
+import type { BlockRule, Danmaku } from '../types';
+
+/** 过滤结果 */
+export interface BlockFilterResult {
+    /** 未被屏蔽的弹幕 */
+    kept: Danmaku[];
+    /** 各规则命中次数（按规则 ID），同一条弹幕只计入第一条命中的规则 */
+    hits: Record<string, number>;
+}
+
+type BlockMatcher = (danmaku: Danmaku) => boolean;
+
+/**
+ * 检查规则内容是否有效
+ * @param rule - 规则类型与内容
+ * @returns 错误信息，有效时为 null
+ */
+export function validateBlockRule(rule: Pick<BlockRule, 'type' | 'pattern'>): string | null {
+    if (!rule.pattern.trim()) return '规则内容不能为空';
+
+    if (rule.type === 'regex') {
+        try {
+            new RegExp(rule.pattern, 'i');
+        } catch (error) {
+            return `正则表达式无效: ${(error as Error).message}`;
+        }
+    }
+    return null;
+}
+
+/**
+ * 将规则编译为匹配函数，无效的正则规则会被忽略
+ */
+function compileBlockRule(rule: BlockRule): BlockMatcher | null {
+    switch (rule.type) {
+        case 'keyword': {
+            const keyword = rule.pattern.toLowerCase();
+            return (danmaku) => danmaku.text.toLowerCase().includes(keyword);
+        }
+        case 'regex': {
+            let regex: RegExp;
+            try {
+                regex = new RegExp(rule.pattern, 'i');
+            } catch (error) {
+                console.warn(`忽略无效的正则屏蔽规则 ${rule.pattern}:`, error);
+                return null;
+            }
+            return (danmaku) => regex.test(danmaku.text);
+        }
+        case 'user':
+            return (danmaku) => danmaku.midHash === rule.pattern;
+        default:
+            return null;
+    }
+}
+
+/**
+ * 按屏蔽规则过滤弹幕
+ * @param danmakus - 弹幕数组
+ * @param rules - 屏蔽规则，未启用的规则会被跳过
+ * @returns 过滤结果
+ */
+export function filterDanmakus(danmakus: Danmaku[], rules: BlockRule[]): BlockFilterResult {
+    const matchers: { id: string; match: BlockMatcher }[] = [];
+    const hits: Record<string, number> = {};
+
+    for (const rule of rules) {
+        if (!rule.enabled || !rule.pattern) continue;
+
+        const match = compileBlockRule(rule);
+        if (match) {
+            matchers.push({ id: rule.id, match });
+            hits[rule.id] = 0;
+        }
+    }
+
+    if (matchers.length === 0) {
+        return { kept: danmakus, hits };
+    }
+
+    const kept = danmakus.filter((danmaku) => {
+        const matcher = matchers.find(({ match }) => match(danmaku));
+        if (!matcher) return true;
+
+        hits[matcher.id]++;
+        return false;
+    });
+
+    return { kept, hits };
+}
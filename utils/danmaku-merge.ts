@@ -0,0 +1,88 @@
+/**
+ * 重复弹幕合并
+ * 在弹幕引擎载入弹幕、应用屏蔽规则之后运行，存储中始终保留原始弹幕
+ */
+
+import type { Danmaku, MergedDanmakuMember } from '../types';
+
+// 重复弹幕合并的时间窗口（秒）：与组内上一条弹幕的间隔不超过窗口即并入该组
+export const MERGE_WINDOW = 5;
+
+// 整条弹幕由 1-4 个字符重复组成，如 "哈哈哈"、"前排前排"
+// 只有一部分重复的弹幕（如 "好好学习"、"23333"）不折叠，避免把意思不同的弹幕合并
+const REPEATED_UNIT_PATTERN = /^(.{1,4}?)\1+$/u;
+const WHITESPACE_PATTERN = /\s+/gu;
+const PUNCTUATION_PATTERN = /[\p{P}\p{S}]/gu;
+
+/**
+ * 归一化弹幕文本，用于判断是否为重复弹幕
+ * 去除空白与标点、统一大小写，并将整条重复的弹幕折叠为重复单元
+ * 繁简体在下载时已由后台统一（见 Danmaku.simplifiedText），调用方应传入简体文本
+ * @param text - 弹幕文本
+ * @returns 归一化后的文本
+ */
+export function normalizeDanmakuText(text: string): string {
+    const compact = text.replace(WHITESPACE_PATTERN, '').toLowerCase();
+    // 全是标点的弹幕（如 "？？？"）保留标点本身
+    const stripped = compact.replace(PUNCTUATION_PATTERN, '') || compact;
+    return stripped.replace(REPEATED_UNIT_PATTERN, '$1');
+}
+
+function membersOf(danmaku: Danmaku): MergedDanmakuMember[] {
+    // 旧版本缓存中已合并的弹幕没有成员信息，只能记录代表弹幕本身
+    return danmaku.members ?? [{ time: danmaku.time, id: danmaku.id, midHash: danmaku.midHash }];
+}
+
+/**
+ * 合并时间窗口内的重复弹幕
+ * 同一显示模式下归一化文本相同、且与组内上一条间隔不超过窗口的普通弹幕合并为组内第一条，
+ * 合并后的弹幕记录数量以及每条成员的 ID 与发送者
+ * @param danmakus - 按时间排序的弹幕数组
+ * @param windowSeconds - 合并时间窗口（秒）
+ * @returns 合并后的弹幕数组，输入不会被修改
+ */
+export function mergeRepeatedDanmakus(
+    danmakus: Danmaku[],
+    windowSeconds: number = MERGE_WINDOW
+): Danmaku[] {
+    const merged: Danmaku[] = [];
+    const groups = new Map<
+        string,
+        { representative: Danmaku; lastTime: number; members?: MergedDanmakuMember[] }
+    >();
+    const normalized = new Map<string, string>();
+
+    for (const danmaku of danmakus) {
+        // 字幕弹幕、特殊弹幕与高级弹幕不参与合并
+        if ((danmaku.pool && danmaku.pool !== 'normal') || danmaku.mode === 'advanced') {
+            merged.push(danmaku);
+            continue;
+        }
+
+        const original = danmaku.simplifiedText ?? danmaku.text;
+        let text = normalized.get(original);
+        if (text === undefined) {
+            text = normalizeDanmakuText(original);
+            normalized.set(original, text);
+        }
+        const key = `${danmaku.mode}\u0000${text}`;
+
+        const group = groups.get(key);
+        if (group && danmaku.time - group.lastTime <= windowSeconds) {
+            const { representative } = group;
+            representative.count = (representative.count ?? 1) + (danmaku.count ?? 1);
+            representative.weight = Math.max(representative.weight ?? 0, danmaku.weight ?? 0);
+            group.members ??= [...membersOf(representative)];
+            group.members.push(...membersOf(danmaku));
+            representative.members = group.members;
+            group.lastTime = danmaku.time;
+            continue;
+        }
+
+        const representative = { ...danmaku };
+        groups.set(key, { representative, lastTime: danmaku.time });
+        merged.push(representative);
+    }
+
+    return merged;
+}
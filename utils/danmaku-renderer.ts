@@ -0,0 +1,458 @@
+/**
+ * 弹幕渲染后端
+ * 定义渲染器接口，并提供基于 DOM + Web Animations API 的默认实现
+ */
+
+import type {
+    AdvancedDanmakuPayload,
+    Danmaku,
+    DanmakuRendererType,
+    DanmakuTextStyle
+} from '../types';
+import { CanvasDanmakuRenderer } from './canvas-renderer';
+import {
+    DEFAULT_TEXT_STYLE,
+    getCssTextShadow,
+    getFontFamily,
+    getFontWeight,
+    getModeScale
+} from './danmaku-style';
+import { getEmoteUrl, parseDanmakuSegments } from './emotes';
+
+// B站默认字号，弹幕字号按此比例相对设置中的字体大小缩放
+const BILIBILI_DEFAULT_FONT_SIZE = 25;
+// 合并弹幕每增加十倍数量放大的比例，以及放大上限
+const MERGE_SCALE_STEP = 0.25;
+const MAX_MERGE_SCALE = 1.6;
+
+/**
+ * 获取弹幕相对默认字号的缩放比例
+ * 包含弹幕类型的缩放设置，合并的重复弹幕按数量额外放大
+ * @param danmaku - 弹幕
+ * @param textStyle - 文字样式
+ * @returns 缩放比例（默认字号为 1）
+ */
+export function getDanmakuFontScale(
+    danmaku: Danmaku,
+    textStyle: DanmakuTextStyle = DEFAULT_TEXT_STYLE
+): number {
+    const sizeScale =
+        (danmaku.fontSize && danmaku.fontSize > 0
+            ? danmaku.fontSize / BILIBILI_DEFAULT_FONT_SIZE
+            : 1) * getModeScale(danmaku.mode, textStyle);
+    if (!danmaku.count || danmaku.count <= 1) return sizeScale;
+
+    const mergeScale = Math.min(MAX_MERGE_SCALE, 1 + Math.log10(danmaku.count) * MERGE_SCALE_STEP);
+    return sizeScale * mergeScale;
+}
+
+/**
+ * 获取合并弹幕的数量标记
+ * @param danmaku - 弹幕
+ * @returns "×N"，未合并时为 null
+ */
+export function getDanmakuCountBadge(danmaku: Danmaku): string | null {
+    return danmaku.count && danmaku.count > 1 ? `×${danmaku.count}` : null;
+}
+
+/**
+ * 将弹幕文本与表情图片依次添加到元素中
+ * 表情图片加载失败时退回为表情代码文字
+ * @param elem - 弹幕元素
+ * @param text - 弹幕文本
+ */
+function appendDanmakuContent(elem: HTMLElement, text: string): void {
+    parseDanmakuSegments(text).forEach((segment) => {
+        if (segment.type === 'text') {
+            elem.appendChild(document.createTextNode(segment.text));
+            return;
+        }
+
+        const img = document.createElement('img');
+        img.className = 'danmaku-emote';
+        img.alt = segment.code;
+        img.onerror = () => img.replaceWith(document.createTextNode(segment.code));
+        img.src = getEmoteUrl(segment.file);
+        elem.appendChild(img);
+    });
+}
+
+/** 渲染器读取播放进度的时钟 */
+export interface RendererClock {
+    /** 当前视频时间（秒，已包含时间轴偏移） */
+    getVideoTime(): number;
+    /** 当前播放速率 */
+    getPlaybackRate(): number;
+}
+
+/** 渲染样式 */
+export interface RendererStyle {
+    fontSize: number;
+    opacity: number;
+    text: DanmakuTextStyle;
+}
+
+/** 滚动弹幕的渲染参数 */
+export interface ScrollingRenderSpec {
+    danmaku: Danmaku;
+    top: number;
+    /** measure 测得的弹幕宽度（像素），避免重复测量 */
+    width: number;
+    /** 动画时长（毫秒） */
+    duration: number;
+    /** 已播放时长（毫秒） */
+    elapsed: number;
+}
+
+/** 固定弹幕的渲染参数 */
+export interface FixedRenderSpec {
+    danmaku: Danmaku;
+    top: number;
+}
+
+/** 高级定位弹幕的渲染参数 */
+export interface PositionedRenderSpec {
+    danmaku: Danmaku;
+    payload: AdvancedDanmakuPayload;
+    /** 已播放时长（毫秒） */
+    elapsed: number;
+}
+
+/** 已渲染的单条弹幕 */
+export interface RenderedDanmaku {
+    /** 弹幕宽度（像素） */
+    readonly width: number;
+    /** 纵向位置（像素） */
+    readonly top: number;
+    /** 已播放时长（毫秒） */
+    readonly elapsed: number;
+    /** 动画时长（毫秒），固定弹幕为 0 */
+    readonly duration: number;
+    /** 是否已播放完毕 */
+    readonly finished: boolean;
+    setTop(top: number): void;
+    /** 修改动画时长并保持当前进度比例 */
+    setDuration(duration: number): void;
+    /** 跳转到指定播放时长（毫秒） */
+    seek(elapsed: number): void;
+    /** 舞台尺寸或字号变化后重新测量宽度并更新运动范围，保持当前进度 */
+    relayout(): void;
+    remove(): void;
+}
+
+/** 弹幕渲染器 */
+export interface DanmakuRenderer {
+    readonly type: DanmakuRendererType;
+    /** 挂载到弹幕舞台 */
+    mount(stage: HTMLDivElement): void;
+    /** 测量弹幕宽度（像素），用于在放置前分配轨道 */
+    measure(danmaku: Danmaku): number;
+    createScrolling(spec: ScrollingRenderSpec): RenderedDanmaku;
+    createFixed(spec: FixedRenderSpec): RenderedDanmaku;
+    /** 按高级弹幕参数定位绘制，只支持平移、淡入淡出、Z 轴旋转与换行 */
+    createPositioned(spec: PositionedRenderSpec): RenderedDanmaku;
+    play(): void;
+    pause(): void;
+    setStyle(style: RendererStyle): void;
+    /** 舞台尺寸变化时调用 */
+    resize(): void;
+    /** 移除所有弹幕 */
+    clear(): void;
+    destroy(): void;
+}
+
+/**
+ * DOM 渲染器
+ * 每条弹幕一个绝对定位的 div，滚动弹幕由 Web Animation 驱动
+ */
+export class DomDanmakuRenderer implements DanmakuRenderer {
+    readonly type = 'dom' as const;
+    private stage: HTMLDivElement | null = null;
+    private items = new Set<DomRenderedDanmaku>();
+    private style: RendererStyle = { fontSize: 24, opacity: 100, text: DEFAULT_TEXT_STYLE };
+
+    mount(stage: HTMLDivElement): void {
+        this.stage = stage;
+    }
+
+    measure(danmaku: Danmaku): number {
+        if (!this.stage) return 0;
+
+        const elem = this.createElement(danmaku, 0);
+        elem.style.visibility = 'hidden';
+        this.stage.appendChild(elem);
+        const width = elem.offsetWidth;
+        elem.remove();
+        return width;
+    }
+
+    createScrolling(spec: ScrollingRenderSpec): RenderedDanmaku {
+        const elem = this.createElement(spec.danmaku, spec.top);
+        elem.style.willChange = 'transform';
+        elem.style.transform = 'translate3d(0, 0, 0)';
+        elem.style.backfaceVisibility = 'hidden';
+        elem.style.perspective = '1000px';
+        this.stage?.appendChild(elem);
+
+        const danmakuWidth = spec.width;
+        const stage = this.stage;
+        const getKeyframes = (width: number): Keyframe[] => [
+            { transform: `translateX(${stage?.offsetWidth || 0}px)`, offset: 0 },
+            { transform: `translateX(-${width}px)`, offset: 1 }
+        ];
+
+        const animation = elem.animate(getKeyframes(danmakuWidth), {
+            duration: spec.duration,
+            easing: 'linear',
+            fill: 'forwards'
+        });
+        animation.currentTime = Math.max(0, Math.min(spec.elapsed, spec.duration));
+        ignoreCancellation(animation);
+
+        const item = new DomRenderedDanmaku(
+            elem,
+            danmakuWidth,
+            animation,
+            (removed) => this.items.delete(removed),
+            getKeyframes
+        );
+        this.items.add(item);
+        return item;
+    }
+
+    createFixed(spec: FixedRenderSpec): RenderedDanmaku {
+        const elem = this.createElement(spec.danmaku, spec.top);
+        elem.style.left = '50%';
+        elem.style.transform = 'translateX(-50%)';
+        this.stage?.appendChild(elem);
+
+        const item = new DomRenderedDanmaku(elem, null, null, (removed) =>
+            this.items.delete(removed)
+        );
+        this.items.add(item);
+        return item;
+    }
+
+    createPositioned(spec: PositionedRenderSpec): RenderedDanmaku {
+        const { payload } = spec;
+        const elem = this.createElement(spec.danmaku, 0);
+        elem.style.whiteSpace = 'pre';
+        elem.style.transformOrigin = '0 0';
+        elem.style.transform = `rotate(${payload.rotateZ}deg)`;
+        if (!payload.outline) {
+            elem.style.textShadow = 'none';
+        }
+        if (payload.fontFamily) {
+            elem.style.fontFamily = getFontFamily({
+                ...this.style.text,
+                fontFamily: payload.fontFamily
+            });
+        }
+        this.stage?.appendChild(elem);
+
+        // left/top 使用百分比，舞台尺寸变化时位置自动跟随；
+        // 透明度用 filter 叠加在舞台整体透明度之上
+        const moveStart = Math.min(1, payload.moveDelay / payload.duration);
+        const moveEnd = Math.min(1, (payload.moveDelay + payload.moveDuration) / payload.duration);
+        const start = { left: `${payload.startX * 100}%`, top: `${payload.startY * 100}%` };
+        const end = { left: `${payload.endX * 100}%`, top: `${payload.endY * 100}%` };
+        const animation = elem.animate(
+            [
+                { ...start, filter: `opacity(${payload.alphaFrom})`, offset: 0 },
+                {
+                    ...start,
+                    offset: moveStart,
+                    easing: payload.accelerate ? 'ease-in' : 'linear'
+                },
+                { ...end, offset: Math.max(moveStart, moveEnd) },
+                { ...end, filter: `opacity(${payload.alphaTo})`, offset: 1 }
+            ],
+            {
+                duration: payload.duration,
+                easing: 'linear',
+                fill: 'forwards'
+            }
+        );
+        animation.currentTime = Math.max(0, Math.min(spec.elapsed, payload.duration));
+        ignoreCancellation(animation);
+
+        const item = new DomRenderedDanmaku(elem, null, animation, (removed) =>
+            this.items.delete(removed)
+        );
+        this.items.add(item);
+        return item;
+    }
+
+    private createElement(danmaku: Danmaku, top: number): HTMLDivElement {
+        const elem = document.createElement('div');
+        appendDanmakuContent(elem, danmaku.text);
+
+        const badge = getDanmakuCountBadge(danmaku);
+        if (badge) {
+            const badgeElem = document.createElement('span');
+            badgeElem.className = 'danmaku-count-badge';
+            badgeElem.textContent = badge;
+            elem.appendChild(badgeElem);
+        }
+        elem.style.color = danmaku.color || '#ffffff';
+        elem.style.position = 'absolute';
+        elem.style.whiteSpace = 'nowrap';
+        elem.style.pointerEvents = 'none';
+        elem.style.zIndex = '9999';
+        elem.style.top = top + 'px';
+
+        const fontScale = getDanmakuFontScale(danmaku, this.style.text);
+        if (fontScale !== 1) {
+            elem.style.fontSize = `calc(var(--danmaku-font-size, 24px) * ${fontScale})`;
+        }
+        return elem;
+    }
+
+    play(): void {
+        this.items.forEach((item) => item.play());
+    }
+
+    pause(): void {
+        this.items.forEach((item) => item.pause());
+    }
+
+    setStyle(style: RendererStyle): void {
+        this.style = { ...style };
+        if (this.stage) {
+            this.stage.style.setProperty('--danmaku-font-size', `${style.fontSize}px`);
+            this.stage.style.setProperty('--danmaku-opacity', String(style.opacity / 100));
+            this.stage.style.setProperty('--danmaku-font-family', getFontFamily(style.text));
+            this.stage.style.setProperty('--danmaku-font-weight', getFontWeight(style.text));
+            this.stage.style.setProperty('--danmaku-text-shadow', getCssTextShadow(style.text));
+        }
+    }
+
+    resize(): void {
+        // DOM 弹幕按 CSS 布局，无需额外处理
+    }
+
+    clear(): void {
+        this.items.forEach((item) => item.remove());
+        this.items.clear();
+
+        if (this.stage) {
+            this.stage.innerHTML = '';
+        }
+    }
+
+    destroy(): void {
+        this.clear();
+        if (this.stage) {
+            this.stage.style.removeProperty('--danmaku-font-size');
+            this.stage.style.removeProperty('--danmaku-opacity');
+            this.stage.style.removeProperty('--danmaku-font-family');
+            this.stage.style.removeProperty('--danmaku-font-weight');
+            this.stage.style.removeProperty('--danmaku-text-shadow');
+        }
+        this.stage = null;
+    }
+}
+
+/**
+ * 移除弹幕时会取消动画，使 finished 以 AbortError 拒绝，这里忽略该拒绝
+ * @param animation - 弹幕动画
+ */
+function ignoreCancellation(animation: Animation): void {
+    animation.finished.catch(() => undefined);
+}
+
+class DomRenderedDanmaku implements RenderedDanmaku {
+    constructor(
+        private elem: HTMLDivElement,
+        // 已知的宽度，为 null 时在首次读取时测量（读取 offsetWidth 会强制布局）
+        private measuredWidth: number | null,
+        private animation: Animation | null,
+        private onRemove: (item: DomRenderedDanmaku) => void,
+        // 滚动弹幕按宽度生成运动关键帧
+        private getKeyframes?: (width: number) => Keyframe[]
+    ) {}
+
+    get width(): number {
+        if (this.measuredWidth === null) {
+            this.measuredWidth = this.elem.offsetWidth;
+        }
+        return this.measuredWidth;
+    }
+
+    get top(): number {
+        return parseInt(this.elem.style.top) || 0;
+    }
+
+    get elapsed(): number {
+        return (this.animation?.currentTime as number | null) || 0;
+    }
+
+    get duration(): number {
+        return this.animation ? (this.animation.effect!.getTiming().duration as number) : 0;
+    }
+
+    get finished(): boolean {
+        if (!this.animation) return false;
+        const state = this.animation.playState;
+        return state === 'finished' || state === 'idle';
+    }
+
+    setTop(top: number): void {
+        this.elem.style.top = top + 'px';
+    }
+
+    setDuration(duration: number): void {
+        if (!this.animation) return;
+
+        const progress = this.elapsed / this.duration;
+        this.animation.effect!.updateTiming({ duration });
+        this.animation.currentTime = progress * duration;
+    }
+
+    seek(elapsed: number): void {
+        if (this.animation) {
+            this.animation.currentTime = elapsed;
+        }
+    }
+
+    relayout(): void {
+        this.measuredWidth = null;
+        if (this.animation && this.getKeyframes) {
+            (this.animation.effect as KeyframeEffect).setKeyframes(this.getKeyframes(this.width));
+        }
+    }
+
+    play(): void {
+        if (this.animation && this.animation.playState === 'paused') {
+            this.animation.play();
+        }
+    }
+
+    pause(): void {
+        if (this.animation && this.animation.playState === 'running') {
+            this.animation.pause();
+        }
+    }
+
+    remove(): void {
+        this.animation?.cancel();
+        this.elem.remove();
+        this.onRemove(this);
+    }
+}
+
+/**
+ * 创建渲染器
+ * @param type - 渲染后端类型
+ * @param clock - 播放时钟
+ * @returns 渲染器实例
+ */
+export function createDanmakuRenderer(
+    type: DanmakuRendererType,
+    clock: RendererClock
+): DanmakuRenderer {
+    if (type === 'canvas') {
+        return new CanvasDanmakuRenderer(clock);
+    }
+    return new DomDanmakuRenderer();
+}
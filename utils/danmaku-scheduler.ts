@@ -0,0 +1,108 @@
+/**
+ * 弹幕发射调度器
+ * 按时间排序保存弹幕，用游标与二分查找定位待发射区间，发射状态记录在位图中而不修改弹幕对象
+ */
+
+import type { Danmaku } from '../types';
+
+/** 取出待发射弹幕的参数 */
+export interface DueDanmakuOptions {
+    /** 允许补发的过去时长（秒） */
+    lookbehind: number;
+    /** 提前发射的时长（秒） */
+    lookahead: number;
+    /** 单次最多取出的数量 */
+    limit: number;
+    /** 额外的过滤条件 */
+    accept?: (danmaku: Danmaku) => boolean;
+}
+
+export class DanmakuScheduler {
+    private readonly danmakus: Danmaku[];
+    private readonly times: Float64Array;
+    private readonly emitted: Uint8Array;
+    // 第一条可能待发射的弹幕下标
+    private cursor = 0;
+
+    constructor(danmakus: Danmaku[]) {
+        this.danmakus = [...danmakus].sort((a, b) => a.time - b.time);
+        this.times = Float64Array.from(this.danmakus, (d) => d.time);
+        this.emitted = new Uint8Array(this.danmakus.length);
+    }
+
+    /** 弹幕数量 */
+    get size(): number {
+        return this.danmakus.length;
+    }
+
+    /**
+     * 第一条时间不小于 time 的弹幕下标
+     * @param time - 弹幕时间（秒）
+     * @param from - 搜索起点
+     */
+    lowerBound(time: number, from = 0): number {
+        let low = from;
+        let high = this.times.length;
+        while (low < high) {
+            const mid = (low + high) >>> 1;
+            if (this.times[mid] < time) low = mid + 1;
+            else high = mid;
+        }
+        return low;
+    }
+
+    /**
+     * 跳转后重置发射状态，并将游标定位到指定时间
+     * @param time - 弹幕时间（秒）
+     */
+    seek(time: number): void {
+        this.emitted.fill(0);
+        this.cursor = this.lowerBound(time);
+    }
+
+    /**
+     * 取出当前时间附近尚未发射的弹幕，并标记为已发射
+     * 游标只向前移动，每次的开销与区间内的弹幕数量成正比
+     * @param currentTime - 当前弹幕时间（秒）
+     * @param options - 取出参数
+     * @returns 按时间排序的待发射弹幕
+     */
+    takeDue(currentTime: number, options: DueDanmakuOptions): Danmaku[] {
+        const start = currentTime - options.lookbehind;
+        if (this.cursor < this.times.length && this.times[this.cursor] < start) {
+            this.cursor = this.lowerBound(start, this.cursor);
+        }
+
+        const end = currentTime + options.lookahead;
+        const due: Danmaku[] = [];
+        for (let i = this.cursor; i < this.times.length && this.times[i] <= end; i++) {
+            if (due.length >= options.limit) break;
+            if (this.emitted[i]) continue;
+
+            const danmaku = this.danmakus[i];
+            if (options.accept && !options.accept(danmaku)) continue;
+
+            this.emitted[i] = 1;
+            due.push(danmaku);
+        }
+        return due;
+    }
+
+    /**
+     * 遍历时间区间内的弹幕
+     * @param start - 起始时间（秒，含）
+     * @param end - 结束时间（秒，含）
+     * @param callback - 返回 true 时将该弹幕标记为已发射
+     */
+    forEachInRange(
+        start: number,
+        end: number,
+        callback: (danmaku: Danmaku, emitted: boolean) => boolean
+    ): void {
+        for (let i = this.lowerBound(start); i < this.times.length && this.times[i] <= end; i++) {
+            if (callback(this.danmakus[i], this.emitted[i] === 1)) {
+                this.emitted[i] = 1;
+            }
+        }
+    }
+}
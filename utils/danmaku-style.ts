@@ -0,0 +1,112 @@
+/**
+ * 弹幕文字样式
+ * 将样式设置转换为 DOM（CSS）与 Canvas 渲染所需的字体、描边与阴影参数，弹窗预览也使用同一套转换
+ */
+
+import type { Danmaku, DanmakuShadowStyle, DanmakuTextStyle } from '../types';
+
+/** 默认样式，与 B站默认观感一致 */
+export const DEFAULT_TEXT_STYLE: DanmakuTextStyle = {
+    strokeWidth: 1,
+    strokeColor: '#000000',
+    shadow: 'bilibili',
+    fontFamily: 'SimHei',
+    bold: true,
+    scrollScale: 1,
+    fixedScale: 1
+};
+
+// 首选字体缺字时依次尝试的中日韩字体
+const CJK_FALLBACK_FONTS = [
+    'PingFang SC',
+    'Hiragino Sans GB',
+    'Microsoft YaHei',
+    'Noto Sans CJK SC',
+    'Source Han Sans SC',
+    'SimHei',
+    'Arial'
+];
+
+/** Canvas 阴影参数 */
+export interface CanvasShadow {
+    offsetX: number;
+    offsetY: number;
+    blur: number;
+    color: string;
+}
+
+const CANVAS_SHADOWS: Record<DanmakuShadowStyle, CanvasShadow | null> = {
+    bilibili: { offsetX: 0, offsetY: 0, blur: 2, color: '#000000' },
+    heavy: { offsetX: 2, offsetY: 2, blur: 4, color: 'rgba(0, 0, 0, 0.9)' },
+    none: null
+};
+
+/**
+ * 获取 CSS font-family，首选字体之后附加中日韩回退字体
+ * @param style - 文字样式
+ */
+export function getFontFamily(style: DanmakuTextStyle): string {
+    const primary = style.fontFamily.replace(/["'\\]/g, '').trim();
+    const fonts = [...new Set([primary, ...CJK_FALLBACK_FONTS].filter(Boolean))];
+    return [...fonts.map((font) => `"${font}"`), 'sans-serif'].join(', ');
+}
+
+/**
+ * 获取 CSS font-weight
+ * @param style - 文字样式
+ */
+export function getFontWeight(style: DanmakuTextStyle): string {
+    return style.bold ? 'bold' : 'normal';
+}
+
+/**
+ * 获取 CSS text-shadow：描边用八个方向的偏移阴影模拟，再叠加所选阴影
+ * @param style - 文字样式
+ * @returns text-shadow 值，无描边且无阴影时为 'none'
+ */
+export function getCssTextShadow(style: DanmakuTextStyle): string {
+    const shadows: string[] = [];
+
+    const width = style.strokeWidth;
+    if (width > 0) {
+        for (const [x, y] of [
+            [-1, -1],
+            [0, -1],
+            [1, -1],
+            [-1, 0],
+            [1, 0],
+            [-1, 1],
+            [0, 1],
+            [1, 1]
+        ]) {
+            shadows.push(`${x * width}px ${y * width}px 0 ${style.strokeColor}`);
+        }
+    }
+
+    const shadow = CANVAS_SHADOWS[style.shadow];
+    if (shadow) {
+        shadows.push(`${shadow.offsetX}px ${shadow.offsetY}px ${shadow.blur}px ${shadow.color}`);
+    }
+
+    return shadows.length > 0 ? shadows.join(', ') : 'none';
+}
+
+/**
+ * 获取 Canvas 阴影参数
+ * @param style - 文字样式
+ * @returns 阴影参数，无阴影时为 null
+ */
+export function getCanvasShadow(style: DanmakuTextStyle): CanvasShadow | null {
+    return CANVAS_SHADOWS[style.shadow];
+}
+
+/**
+ * 获取弹幕类型对应的缩放（滚动 / 顶部与底部），高级弹幕不缩放
+ * @param mode - 弹幕类型
+ * @param style - 文字样式
+ */
+export function getModeScale(mode: Danmaku['mode'], style: DanmakuTextStyle): number {
+    if (mode === 'rtl') return style.scrollScale;
+    if (mode === 'top' || mode === 'bottom') return style.fixedScale;
+    return 1;
+}
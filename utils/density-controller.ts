@@ -0,0 +1,106 @@
+/**
+ * 弹幕密度控制
+ * 按同屏数量上限挑选本次发射的弹幕，超出部分按所选策略丢弃或合并，并统计显示与丢弃数量
+ */
+
+import type { Danmaku, DensityDropStrategy, DensityStats } from '../types';
+
+/** 一次挑选的上下文 */
+export interface DensityContext {
+    /** 当前屏幕上的弹幕数量 */
+    onScreen: number;
+    /** 同屏弹幕上限，0 表示不限制 */
+    maxOnScreen: number;
+    strategy: DensityDropStrategy;
+    /** 弹幕剩余的显示时长（秒），用于 "shortest-lived" 策略 */
+    getRemainingLifetime: (danmaku: Danmaku) => number;
+}
+
+export class DensityController {
+    private stats: DensityStats = { shown: 0, dropped: 0, merged: 0 };
+
+    /**
+     * 从候选弹幕中挑选本次发射的弹幕
+     * @param candidates - 按时间排序的候选弹幕
+     * @param context - 挑选上下文
+     * @returns 需要发射的弹幕（按时间排序）
+     */
+    select(candidates: Danmaku[], context: DensityContext): Danmaku[] {
+        const budget =
+            context.maxOnScreen > 0
+                ? Math.max(0, context.maxOnScreen - context.onScreen)
+                : Infinity;
+        if (candidates.length <= budget) return candidates;
+
+        let pool = candidates;
+        if (context.strategy === 'merge') {
+            pool = this.mergeCandidates(candidates);
+            if (pool.length <= budget) return pool;
+        }
+
+        const ranked = [...pool].sort((a, b) => {
+            if (context.strategy === 'shortest-lived') {
+                return context.getRemainingLifetime(b) - context.getRemainingLifetime(a);
+            }
+            // "lowest-weight"，以及合并后仍超出上限的 "merge"
+            return (b.weight ?? 5) - (a.weight ?? 5);
+        });
+
+        const kept = new Set(ranked.slice(0, budget));
+        this.stats.dropped += pool.length - kept.size;
+        return pool.filter((danmaku) => kept.has(danmaku));
+    }
+
+    /** 记录一条成功显示的弹幕 */
+    recordShown(): void {
+        this.stats.shown++;
+    }
+
+    /**
+     * 记录因没有空闲轨道而丢弃的弹幕
+     * @param count - 丢弃数量
+     */
+    recordDropped(count = 1): void {
+        this.stats.dropped += count;
+    }
+
+    getStats(): DensityStats {
+        return { ...this.stats };
+    }
+
+    reset(): void {
+        this.stats = { shown: 0, dropped: 0, merged: 0 };
+    }
+
+    /**
+     * 将文本相同的候选弹幕合并为第一条，数量累加到 count
+     * 下载时已按归一化文本合并过一次，这里只忽略空白与大小写
+     */
+    private mergeCandidates(candidates: Danmaku[]): Danmaku[] {
+        const groups = new Map<string, Danmaku>();
+        const result: Danmaku[] = [];
+
+        for (const danmaku of candidates) {
+            // 高级弹幕的位置各不相同，不参与合并
+            if (danmaku.mode === 'advanced') {
+                result.push(danmaku);
+                continue;
+            }
+
+            const key = danmaku.text.replace(/\s+/g, '').toLowerCase();
+            const group = groups.get(key);
+            if (group) {
+                group.count = (group.count ?? 1) + (danmaku.count ?? 1);
+                this.stats.merged++;
+                continue;
+            }
+
+            // 复制一份，避免修改调度器中的原始弹幕
+            const representative = { ...danmaku };
+            groups.set(key, representative);
+            result.push(representative);
+        }
+
+        return result;
+    }
+}
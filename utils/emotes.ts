@@ -0,0 +1,75 @@
+/**
+ * B站表情
+ * 将弹幕中的表情代码（如 [doge]、[笑哭]）拆分为文字与表情图片片段，图片随扩展打包在 public/emotes 下
+ *
+ * 注意：public/emotes 中的图片是自行绘制的占位图，并非 B站的表情素材，只是大致表达同一含义。
+ * 只有下表收录且打包了图片的表情代码会显示为图片，其余代码保持原文字
+ */
+
+/** 表情代码 → 打包的占位图片文件（仅收录已打包图片的代码） */
+export const EMOTE_TABLE: Readonly<Record<string, string>> = {
+    '[doge]': 'doge.svg',
+    '[笑哭]': 'laugh-cry.svg',
+    '[妙啊]': 'wonderful.svg',
+    '[OK]': 'ok.svg',
+    '[星星眼]': 'star-eyes.svg',
+    '[吃瓜]': 'melon.svg',
+    '[捂脸]': 'facepalm.svg',
+    '[疑惑]': 'confused.svg',
+    '[微笑]': 'smile.svg',
+    '[大笑]': 'laugh.svg',
+    '[哭泣]': 'cry.svg',
+    '[喜欢]': 'love.svg',
+    '[生气]': 'angry.svg'
+};
+
+// 表情图片的边长（相对字号）
+export const EMOTE_SCALE = 1.2;
+
+const EMOTE_CODE_PATTERN = /\[[^[\]]{1,16}\]/g;
+
+/** 弹幕内容片段 */
+export type DanmakuSegment =
+    | { type: 'text'; text: string }
+    | { type: 'emote'; code: string; file: string };
+
+/**
+ * 将弹幕文本拆分为文字与表情片段
+ * 未收录的表情代码保留为文字
+ * @param text - 弹幕文本
+ * @returns 按顺序排列的片段，相邻文字已合并
+ */
+export function parseDanmakuSegments(text: string): DanmakuSegment[] {
+    const segments: DanmakuSegment[] = [];
+    const pushText = (value: string) => {
+        if (!value) return;
+        const last = segments[segments.length - 1];
+        if (last?.type === 'text') {
+            last.text += value;
+        } else {
+            segments.push({ type: 'text', text: value });
+        }
+    };
+
+    let lastIndex = 0;
+    for (const match of text.matchAll(EMOTE_CODE_PATTERN)) {
+        const code = match[0];
+        const file = EMOTE_TABLE[code];
+        if (!file) continue;
+
+        pushText(text.slice(lastIndex, match.index));
+        segments.push({ type: 'emote', code, file });
+        lastIndex = match.index + code.length;
+    }
+    pushText(text.slice(lastIndex));
+
+    return segments;
+}
+
+/**
+ * 获取表情图片的扩展内 URL
+ * @param file - 表情图片文件名
+ */
+export function getEmoteUrl(file: string): string {
+    return browser.runtime.getURL(`/emotes/${file}`);
+}
@@ -0,0 +1,401 @@
+/**
+ * 扩展内部消息协议
+ * 统一定义 content script、popup 与 background 之间的消息类型、客户端与路由
+ */
+
+import type {
+    BilibiliGlobalSearchResult,
+    BlockRule,
+    BilibiliSearchResult,
+    BilibiliUserSearchResult,
+    ChannelInfo,
+    DanmakuDownloadOptions,
+    DanmakuSettings,
+    DanmakuStoreStats,
+    DensityStats,
+    NoMatchInfo,
+    PageInfo,
+    StoredVideoDanmaku,
+    StoredVideoMeta,
+    TimeAnchor,
+    VideoDanmakuPatch,
+    VideoPage
+} from '../types';
+
+/** 协议版本，消息结构发生不兼容变更时递增 */
+export const PROTOCOL_VERSION = 1;
+
+/** 默认消息超时时间（毫秒） */
+const DEFAULT_TIMEOUT = 10000;
+
+/** 消息处理结果 */
+export type MessageResult<T extends object = object> =
+    | ({ success: true } & T)
+    | { success: false; error: string };
+
+/** 单条消息的请求与响应定义 */
+interface MessageSpec {
+    request: object;
+    response: MessageResult<object>;
+}
+
+type Protocol<P> = { [K in keyof P]: MessageSpec };
+
+export type RequestOf<P extends Protocol<P>, K extends keyof P> = P[K]['request'];
+export type ResponseOf<P extends Protocol<P>, K extends keyof P> = P[K]['response'];
+
+/** 消息信封 */
+export interface MessageEnvelope<K extends string = string, T = unknown> {
+    type: K;
+    version: number;
+    payload: T;
+}
+
+/** 弹幕下载结果摘要 */
+export interface DownloadSummary {
+    /** 保存的弹幕条数 */
+    count: number;
+    /** 下载失败的分段数，再次下载时只会补全这些分段 */
+    missingSegments: number;
+}
+
+/** 发往 background 的消息 */
+export interface BackgroundProtocol {
+    downloadDanmaku: {
+        request: {
+            bvid: string;
+            youtubeVideoId: string;
+            youtubeVideoDuration?: number | null;
+        } & DanmakuDownloadOptions;
+        response: MessageResult<DownloadSummary>;
+    };
+    getVideoPages: {
+        request: { bvid: string };
+        response: MessageResult<{ pages: VideoPage[] }>;
+    };
+    getHistoryDates: {
+        /** month 为 YYYY-MM，page 为分P序号（默认第 1P） */
+        request: { bvid: string; month: string; page?: number };
+        response: MessageResult<{ dates: string[] }>;
+    };
+    downloadBangumiDanmaku: {
+        request: { title: string; episodeNumber: number; youtubeVideoId: string };
+        response: MessageResult<DownloadSummary>;
+    };
+    searchBilibiliVideo: {
+        request: {
+            bilibiliUID: string;
+            videoTitle: string;
+            youtubeVideoId?: string;
+            youtubeVideoDuration?: number | null;
+        };
+        response: MessageResult<{ results: BilibiliSearchResult[]; searchUrl: string }>;
+    };
+    searchBilibiliVideoGlobal: {
+        request: { keyword: string };
+        response: MessageResult<{ results: BilibiliGlobalSearchResult[] }>;
+    };
+    searchBilibiliUser: {
+        request: { keyword: string };
+        response: MessageResult<{ results: BilibiliUserSearchResult[] }>;
+    };
+    fetchOriginalTitle: {
+        request: { videoId: string };
+        response: MessageResult<{ title: string }>;
+    };
+    getVideoDanmaku: {
+        request: { youtubeVideoId: string };
+        response: MessageResult<{ record: StoredVideoDanmaku | null }>;
+    };
+    getVideoMeta: {
+        request: { youtubeVideoId: string };
+        response: MessageResult<{ meta: StoredVideoMeta | null }>;
+    };
+    updateVideoDanmaku: {
+        request: { youtubeVideoId: string; patch: VideoDanmakuPatch };
+        response: MessageResult<{ meta: StoredVideoMeta }>;
+    };
+    /** 清理过期与超出存储上限的弹幕缓存 */
+    cleanupExpiredDanmaku: {
+        request: object;
+        response: MessageResult<{ removed: number }>;
+    };
+    getDanmakuStoreStats: {
+        request: object;
+        response: MessageResult<{ stats: DanmakuStoreStats }>;
+    };
+    /** budget 为存储上限（字节） */
+    setDanmakuStoreBudget: {
+        request: { budget: number };
+        response: MessageResult<{ stats: DanmakuStoreStats }>;
+    };
+    showMultipleResults: {
+        request: {
+            results: BilibiliSearchResult[];
+            youtubeVideoId: string;
+            channelInfo: ChannelInfo;
+            videoTitle: string;
+        };
+        response: MessageResult;
+    };
+    showNoMatchResults: {
+        request: NoMatchInfo;
+        response: MessageResult;
+    };
+    popupReady: {
+        request: object;
+        response: MessageResult<{ hasPending: boolean }>;
+    };
+    getPageInfoFromBackground: {
+        request: object;
+        response: MessageResult<{ data: PageInfo; fromCache: boolean }>;
+    };
+    pageInfoUpdated: {
+        request: { pageInfo: PageInfo };
+        response: MessageResult;
+    };
+    pageChanged: {
+        request: { videoId: string; oldVideoId: string | null; url: string };
+        response: MessageResult;
+    };
+    clearSearchResults: {
+        request: object;
+        response: MessageResult;
+    };
+}
+
+/** 发往 content script 的消息 */
+export interface ContentProtocol {
+    updateSettings: {
+        request: { settings: Partial<DanmakuSettings> };
+        response: MessageResult;
+    };
+    getVideoDuration: {
+        request: object;
+        response: MessageResult<{ duration: number | null }>;
+    };
+    loadDanmaku: {
+        request: { youtubeVideoId: string };
+        response: MessageResult<{ loaded: boolean }>;
+    };
+    /** 跳转到弹幕时间 time 对应的视频位置 */
+    seekToTime: {
+        request: { time: number };
+        response: MessageResult;
+    };
+    getPageInfo: {
+        request: object;
+        response: MessageResult<{ data: PageInfo }>;
+    };
+    /** 在当前播放位置添加锚点，使弹幕时间 bilibiliTime 的弹幕此刻出现 */
+    addTimeAnchor: {
+        request: { bilibiliTime: number };
+        response: MessageResult<{ anchors: TimeAnchor[] }>;
+    };
+    clearTimeAnchors: {
+        request: object;
+        response: MessageResult;
+    };
+    /** 更新屏蔽规则，返回当前视频各规则的命中次数 */
+    updateBlockRules: {
+        request: { rules: BlockRule[] };
+        response: MessageResult<{ hits: Record<string, number> }>;
+    };
+    getBlockHits: {
+        request: object;
+        response: MessageResult<{ hits: Record<string, number> }>;
+    };
+    getDensityStats: {
+        request: object;
+        response: MessageResult<{ stats: DensityStats | null }>;
+    };
+}
+
+/** 发往 popup 的消息 */
+export interface PopupProtocol {
+    displayMultipleResults: {
+        request: { results: BilibiliSearchResult[]; youtubeVideoId: string };
+        response: MessageResult;
+    };
+    displayNoMatchResults: {
+        request: NoMatchInfo;
+        response: MessageResult;
+    };
+}
+
+/** 发送选项 */
+export interface SendOptions {
+    timeout?: number;
+}
+
+/** 耗时较长的消息单独设置超时时间 */
+const MESSAGE_TIMEOUTS: Partial<Record<keyof BackgroundProtocol, number>> = {
+    downloadDanmaku: 120000,
+    downloadBangumiDanmaku: 120000,
+    searchBilibiliVideo: 30000,
+    searchBilibiliVideoGlobal: 30000,
+    searchBilibiliUser: 30000,
+    getHistoryDates: 30000
+};
+
+/**
+ * 创建消息信封
+ * @param type - 消息类型
+ * @param payload - 消息内容
+ * @returns 带协议版本的消息
+ */
+export function createEnvelope<K extends string, T>(type: K, payload: T): MessageEnvelope<K, T> {
+    return { type, version: PROTOCOL_VERSION, payload };
+}
+
+/**
+ * 判断是否为本协议的消息
+ * @param message - 收到的原始消息
+ */
+export function isEnvelope(message: unknown): message is MessageEnvelope {
+    return (
+        !!message &&
+        typeof message === 'object' &&
+        typeof (message as MessageEnvelope).type === 'string' &&
+        'payload' in message
+    );
+}
+
+/**
+ * 为消息发送添加超时
+ * @param type - 消息类型（用于错误信息）
+ * @param promise - 发送消息的 Promise
+ * @param timeout - 超时时间（毫秒）
+ */
+async function withTimeout<R>(type: string, promise: Promise<R>, timeout: number): Promise<R> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeoutPromise = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`消息 ${type} 响应超时`)), timeout);
+    });
+
+    try {
+        const response = await Promise.race([promise, timeoutPromise]);
+        if (response === undefined) {
+            throw new Error(`消息 ${type} 没有接收方`);
+        }
+        return response;
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+/**
+ * 向 background 发送消息
+ * @param type - 消息类型
+ * @param payload - 消息内容
+ * @param options - 发送选项
+ * @returns background 的响应
+ */
+export function sendMessage<K extends keyof BackgroundProtocol>(
+    type: K,
+    payload: RequestOf<BackgroundProtocol, K>,
+    options: SendOptions = {}
+): Promise<ResponseOf<BackgroundProtocol, K>> {
+    const timeout = options.timeout ?? MESSAGE_TIMEOUTS[type] ?? DEFAULT_TIMEOUT;
+    return withTimeout(
+        type,
+        browser.runtime.sendMessage(createEnvelope(type, payload)) as Promise<
+            ResponseOf<BackgroundProtocol, K>
+        >,
+        timeout
+    );
+}
+
+/**
+ * 向指定标签页的 content script 发送消息
+ * @param tabId - 标签页 ID
+ * @param type - 消息类型
+ * @param payload - 消息内容
+ * @param options - 发送选项
+ * @returns content script 的响应
+ */
+export function sendTabMessage<K extends keyof ContentProtocol>(
+    tabId: number,
+    type: K,
+    payload: RequestOf<ContentProtocol, K>,
+    options: SendOptions = {}
+): Promise<ResponseOf<ContentProtocol, K>> {
+    return withTimeout(
+        type,
+        browser.tabs.sendMessage(tabId, createEnvelope(type, payload)) as Promise<
+            ResponseOf<ContentProtocol, K>
+        >,
+        options.timeout ?? DEFAULT_TIMEOUT
+    );
+}
+
+/**
+ * 向 popup 发送消息
+ * @param type - 消息类型
+ * @param payload - 消息内容
+ * @param options - 发送选项
+ * @returns popup 的响应
+ */
+export function sendPopupMessage<K extends keyof PopupProtocol>(
+    type: K,
+    payload: RequestOf<PopupProtocol, K>,
+    options: SendOptions = {}
+): Promise<ResponseOf<PopupProtocol, K>> {
+    return withTimeout(
+        type,
+        browser.runtime.sendMessage(createEnvelope(type, payload)) as Promise<
+            ResponseOf<PopupProtocol, K>
+        >,
+        options.timeout ?? DEFAULT_TIMEOUT
+    );
+}
+
+/** 消息处理函数表，协议中的每条消息都必须有对应的处理函数 */
+export type MessageHandlers<P extends Protocol<P>> = {
+    [K in keyof P]: (
+        payload: RequestOf<P, K>,
+        sender: chrome.runtime.MessageSender
+    ) => ResponseOf<P, K> | Promise<ResponseOf<P, K>>;
+};
+
+/**
+ * 创建消息路由
+ * 只响应协议内的消息，其他消息留给同一上下文中的其他监听者
+ * @param handlers - 消息处理函数表
+ * @returns 可直接传给 browser.runtime.onMessage.addListener 的监听函数
+ */
+export function createMessageRouter<P extends Protocol<P>>(handlers: MessageHandlers<P>) {
+    return (
+        message: unknown,
+        sender: chrome.runtime.MessageSender,
+        sendResponse: (response?: unknown) => void
+    ): boolean => {
+        if (!isEnvelope(message) || !Object.prototype.hasOwnProperty.call(handlers, message.type)) {
+            return false;
+        }
+
+        if (message.version !== PROTOCOL_VERSION) {
+            console.warn(
+                `消息协议版本不匹配: ${message.type} v${message.version}，期望 v${PROTOCOL_VERSION}`
+            );
+            sendResponse({ success: false, error: '消息协议版本不匹配，请刷新页面' });
+            return false;
+        }
+
+        const handler = handlers[message.type as keyof P];
+
+        // 异步处理消息
+        (async () => {
+            try {
+                const response = await handler(message.payload as RequestOf<P, keyof P>, sender);
+                sendResponse(response);
+            } catch (error) {
+                console.error(`处理消息 ${message.type} 时出错:`, error);
+                sendResponse({ success: false, error: (error as Error).message });
+            }
+        })();
+
+        // 返回true表示异步发送响应
+        return true;
+    };
+}
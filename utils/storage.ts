@@ -0,0 +1,126 @@
+/**
+ * 扩展本地存储
+ * 统一定义 browser.storage.local 中各键的类型、默认值与存储结构版本，
+ * content script、popup 与 background 均通过此模块读写，读取时自动补全默认值
+ */
+
+import { DEFAULT_TEXT_STYLE } from './danmaku-style';
+import type { BlockRule, StoredAssociation, StoredDanmakuSettings } from '../types';
+
+/** 存储结构版本，新增迁移时递增 */
+export const STORAGE_SCHEMA_VERSION = 3;
+
+/** 记录已完成迁移版本的键 */
+export const SCHEMA_VERSION_KEY = 'schemaVersion';
+
+/** storage.local 中各键的类型（cache: 前缀的键由 CacheManager 自行管理） */
+export interface StorageSchema {
+    danmakuSettings: StoredDanmakuSettings;
+    blockRules: BlockRule[];
+    /** YouTube 频道 ID → 关联的 B站UP主 */
+    channelMappings: Record<string, StoredAssociation>;
+    /** 弹幕缓存上限（字节） */
+    danmakuStoreBudget: number;
+}
+
+export type StorageKey = keyof StorageSchema;
+
+/** 默认弹幕设置 */
+export const DEFAULT_DANMAKU_SETTINGS: StoredDanmakuSettings = {
+    enabled: true,
+    timeOffset: 0,
+    opacity: 100,
+    fontSize: 24,
+    speed: 1.0,
+    velocityMix: 1,
+    trackSpacing: 8,
+    displayAreaPercentage: 100,
+    avoidOverlays: true,
+    maxOnScreen: 0,
+    dropStrategy: 'lowest-weight',
+    weightThreshold: 5,
+    mergeRepeats: true,
+    renderer: 'dom',
+    textStyle: DEFAULT_TEXT_STYLE,
+    autoScale: false,
+    autoAlign: true
+};
+
+/** 默认弹幕缓存上限（100MB） */
+export const DEFAULT_STORE_BUDGET = 100 * 1024 * 1024;
+
+/** 各键的默认值 */
+export const STORAGE_DEFAULTS: Readonly<StorageSchema> = {
+    danmakuSettings: DEFAULT_DANMAKU_SETTINGS,
+    blockRules: [],
+    channelMappings: {},
+    danmakuStoreBudget: DEFAULT_STORE_BUDGET
+};
+
+/**
+ * 补全弹幕设置中缺失的字段（含文字样式）
+ * @param settings - 已保存的设置，可能来自旧版本
+ * @returns 完整的设置
+ */
+export function normalizeDanmakuSettings(
+    settings: Partial<StoredDanmakuSettings> | null | undefined
+): StoredDanmakuSettings {
+    return {
+        ...DEFAULT_DANMAKU_SETTINGS,
+        ...settings,
+        textStyle: { ...DEFAULT_TEXT_STYLE, ...settings?.textStyle }
+    };
+}
+
+function withDefault<K extends StorageKey>(key: K, value: unknown): StorageSchema[K] {
+    // 复制默认值，避免调用方修改共享对象
+    if (value === undefined || value === null) {
+        return structuredClone(STORAGE_DEFAULTS[key]);
+    }
+    if (key === 'danmakuSettings') {
+        return normalizeDanmakuSettings(
+            value as Partial<StoredDanmakuSettings>
+        ) as StorageSchema[K];
+    }
+    return value as StorageSchema[K];
+}
+
+/**
+ * 读取一个键，缺失时返回默认值
+ * @param key - 存储键
+ */
+export async function getStorageItem<K extends StorageKey>(key: K): Promise<StorageSchema[K]> {
+    const result = await browser.storage.local.get(key);
+    return withDefault(key, result[key]);
+}
+
+/**
+ * 读取多个键，缺失时返回默认值
+ * @param keys - 存储键
+ */
+export async function getStorageItems<K extends StorageKey>(
+    keys: K[]
+): Promise<Pick<StorageSchema, K>> {
+    const result = await browser.storage.local.get(keys);
+    const items = {} as Pick<StorageSchema, K>;
+    for (const key of keys) {
+        items[key] = withDefault(key, result[key]);
+    }
+    return items;
+}
+
+/**
+ * 写入一个或多个键
+ * @param items - 要写入的键值
+ */
+export async function setStorageItems(items: Partial<StorageSchema>): Promise<void> {
+    await browser.storage.local.set(items);
+}
+
+/**
+ * 删除一个或多个键
+ * @param keys - 存储键
+ */
+export async function removeStorageItems(keys: StorageKey | StorageKey[]): Promise<void> {
+    await browser.storage.local.remove(keys);
+}
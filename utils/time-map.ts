@@ -0,0 +1,88 @@
+/**
+ * 分段时间映射工具
+ * 用一组锚点描述 YouTube 时间到B站弹幕时间的映射：
+ * 每个锚点之后（直到下一个锚点）的弹幕都按该锚点的偏移对齐，第一个锚点之前沿用第一个锚点的偏移
+ */
+
+import type { TimeAnchor, TimelineAlignment } from '../types';
+
+// 相距不足此值（秒）的锚点视为同一位置，新锚点会替换旧锚点
+const ANCHOR_MERGE_DISTANCE = 1;
+
+/**
+ * 锚点的偏移（弹幕时间 - YouTube 时间）
+ */
+function offsetOf(anchor: TimeAnchor): number {
+    return anchor.bilibiliTime - anchor.youtubeTime;
+}
+
+/**
+ * 获取 YouTube 时间对应的偏移
+ * @param anchors - 按 youtubeTime 升序排列的锚点
+ * @param youtubeTime - YouTube 时间（秒）
+ * @returns 偏移（秒），没有锚点时为 0
+ */
+export function getTimeMapOffset(anchors: TimeAnchor[], youtubeTime: number): number {
+    if (anchors.length === 0) return 0;
+
+    let anchor = anchors[0];
+    for (const candidate of anchors) {
+        if (candidate.youtubeTime > youtubeTime) break;
+        anchor = candidate;
+    }
+    return offsetOf(anchor);
+}
+
+/**
+ * 将弹幕时间换算为 YouTube 时间（用于跳转）
+ * 映射存在重叠时取最早出现的位置，落在被剪掉的片段中时取该片段之后最近的位置
+ * @param anchors - 按 youtubeTime 升序排列的锚点
+ * @param bilibiliTime - 弹幕时间（秒）
+ * @returns YouTube 时间（秒）
+ */
+export function toYoutubeTime(anchors: TimeAnchor[], bilibiliTime: number): number {
+    if (anchors.length === 0) return bilibiliTime;
+
+    let fallback: number | null = null;
+    for (let i = 0; i < anchors.length; i++) {
+        const youtubeTime = bilibiliTime - offsetOf(anchors[i]);
+        const start = i === 0 ? -Infinity : anchors[i].youtubeTime;
+        const end = i === anchors.length - 1 ? Infinity : anchors[i + 1].youtubeTime;
+
+        if (youtubeTime >= start && youtubeTime < end) {
+            return Math.max(0, youtubeTime);
+        }
+        if (youtubeTime < start && fallback === null) {
+            fallback = start;
+        }
+    }
+
+    return Math.max(0, fallback ?? bilibiliTime - offsetOf(anchors[anchors.length - 1]));
+}
+
+/**
+ * 添加或替换锚点
+ * @param anchors - 现有锚点
+ * @param anchor - 新锚点
+ * @returns 按 youtubeTime 升序排列的新锚点列表
+ */
+export function upsertTimeAnchor(anchors: TimeAnchor[], anchor: TimeAnchor): TimeAnchor[] {
+    return [
+        ...anchors.filter(
+            (a) => Math.abs(a.youtubeTime - anchor.youtubeTime) >= ANCHOR_MERGE_DISTANCE
+        ),
+        anchor
+    ].sort((a, b) => a.youtubeTime - b.youtubeTime);
+}
+
+/**
+ * 将自动对齐结果转换为锚点
+ * @param alignment - 自动对齐结果
+ * @returns 锚点列表
+ */
+export function alignmentToAnchors(alignment: TimelineAlignment): TimeAnchor[] {
+    return alignment.segments.map((segment) => ({
+        youtubeTime: segment.start,
+        bilibiliTime: segment.start + segment.offset
+    }));
+}
@@ -19,6 +19,24 @@ try {
     console.error('OpenCC转换器初始化失败:', error);
 }
 
+/**
+ * 批量繁体转简体，不逐条输出日志
+ * @param texts - 文本数组
+ * @returns 转换后的文本数组，OpenCC 不可用时原样返回
+ */
+export function traditionalToSimplifiedBatch(texts: string[]): string[] {
+    if (!openccConverter || texts.length === 0) return texts;
+
+    try {
+        // 拼接后一次转换，分隔符不在词典中，不会跨条匹配词组
+        const converted = openccConverter(texts.join('\u0000')).split('\u0000');
+        return converted.length === texts.length ? converted : texts;
+    } catch (error) {
+        console.error('繁简转换失败:', error);
+        return texts;
+    }
+}
+
 /**
  * 判断文本是否为纯英文和数字（去除标点符号后判断）
  * @param text - 要判断的文本
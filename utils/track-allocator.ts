@@ -0,0 +1,66 @@
+/**
+ * 滚动弹幕轨道分配
+ * 计算按长度调整的滚动时长，并判断同一轨道上的两条弹幕在各自显示期间是否会发生追尾
+ */
+
+/** 滚动弹幕的运动状态（时长与进度均为毫秒） */
+export interface ScrollMotion {
+    /** 弹幕宽度（像素） */
+    width: number;
+    /** 从右边缘完全移出左边缘的时长 */
+    duration: number;
+    /** 已播放时长 */
+    elapsed: number;
+}
+
+// 同一轨道上前后两条弹幕的最小间距（像素）
+const TRACK_GAP = 24;
+
+/**
+ * 计算滚动时长
+ * velocityMix 为 0 时所有弹幕时长相同（长弹幕移动更快）；
+ * 为 1 时所有弹幕像素速度相同，与B站一致；中间值按比例混合
+ * @param baseDuration - 基础时长（毫秒），即宽度为 0 的弹幕的时长
+ * @param width - 弹幕宽度（像素）
+ * @param stageWidth - 舞台宽度（像素）
+ * @param velocityMix - 恒定速度的比例（0-1）
+ * @returns 滚动时长（毫秒）
+ */
+export function getScrollDuration(
+    baseDuration: number,
+    width: number,
+    stageWidth: number,
+    velocityMix: number
+): number {
+    if (stageWidth <= 0) return baseDuration;
+
+    const mix = Math.min(1, Math.max(0, velocityMix));
+    return baseDuration * (1 + (mix * width) / stageWidth);
+}
+
+/**
+ * 判断 follower 能否跟在 leader 之后进入同一轨道
+ * 两者都匀速运动，只需保证此刻留有间距，且 leader 完全移出之前 follower 没有追上它
+ * @param leader - 轨道上已有的弹幕
+ * @param follower - 待放置的弹幕
+ * @param stageWidth - 舞台宽度（像素）
+ * @returns 是否不会重叠
+ */
+export function canFollow(
+    leader: ScrollMotion,
+    follower: ScrollMotion,
+    stageWidth: number
+): boolean {
+    const remaining = leader.duration - leader.elapsed;
+    if (remaining <= 0) return true;
+
+    const leaderSpeed = (stageWidth + leader.width) / leader.duration;
+    const followerSpeed = (stageWidth + follower.width) / follower.duration;
+
+    const leaderTail = stageWidth - leaderSpeed * leader.elapsed + leader.width;
+    const followerHead = stageWidth - followerSpeed * follower.elapsed;
+    if (followerHead < leaderTail + TRACK_GAP) return false;
+
+    // leader 尾部离开左边缘时，follower 头部不能已越过左边缘
+    return followerHead - followerSpeed * remaining >= 0;
+}
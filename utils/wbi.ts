@@ -1,6 +1,6 @@
 /**
  * Bilibili WBI 签名工具模块
- * 用于生成 Bilibili API 请求所需的 WBI 签名
+ * 用于生成 Bilibili API 请求所需的 WBI 签名（密钥由 services/bilibili-client 获取并缓存）
  */
 
 import { md5 } from './crypto';
@@ -64,28 +64,3 @@ export function encWbi(params: WbiParams, img_key: string, sub_key: string): str
     const wbi_sign = md5(query + mixin_key);
     return query + '&w_rid=' + wbi_sign;
 }
-
-/**
- * 获取最新的 img_key 和 sub_key
- * @returns WBI Keys 对象
- * @throws 如果无法获取 WBI Keys
- */
-export async function getWbiKeys(): Promise<WbiKeys> {
-    const response = await fetch('https://api.bilibili.com/x/web-interface/nav', {
-        headers: {
-            'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-            Referer: 'https://www.bilibili.com/'
-        }
-    });
-
-    const data = await response.json();
-    if (!data.data?.wbi_img) {
-        throw new Error('无法获取WBI Keys');
-    }
-
-    const { img_url, sub_url } = data.data.wbi_img;
-    const img_key = img_url.slice(img_url.lastIndexOf('/') + 1, img_url.lastIndexOf('.'));
-    const sub_key = sub_url.slice(sub_url.lastIndexOf('/') + 1, sub_url.lastIndexOf('.'));
-
-    return { img_key, sub_key };
-}
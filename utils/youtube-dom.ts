@@ -3,13 +3,10 @@
  * 用于从 YouTube 页面提取视频信息、频道信息等
  */
 
-export interface ChannelInfo {
-    channelId: string;
-    channelName: string;
-    channelAvatar: string;
-    success: boolean;
-    timestamp: number;
-}
+import { sendMessage } from './messaging';
+import type { ChannelInfo } from '../types';
+
+export type { ChannelInfo };
 
 export interface BangumiParseResult {
     title: string;
@@ -191,23 +188,16 @@ export async function getOriginalVideoTitle(videoId: string): Promise<string | n
             return null;
         }
 
-        const videoUrl = `https://www.youtube.com/watch?v=${videoId}`;
-        const oembedUrl = `https://www.youtube.com/oembed?url=${encodeURIComponent(videoUrl)}&format=json`;
-
-        console.log('尝试通过oEmbed API获取原始标题:', oembedUrl);
+        console.log('尝试通过oEmbed API获取原始标题:', videoId);
 
         // 发送请求到background script处理CORS
-        const response = await browser.runtime.sendMessage({
-            type: 'fetchOriginalTitle',
-            oembedUrl,
-            videoId
-        });
+        const response = await sendMessage('fetchOriginalTitle', { videoId });
 
         if (response.success && response.title) {
             console.log('通过oEmbed API获取到原始标题:', response.title);
             return response.title;
         } else {
-            console.log('oEmbed API获取标题失败:', response.error || '未知错误');
+            console.log('oEmbed API获取标题失败:', response.success ? '未知错误' : response.error);
             return null;
         }
     } catch (error) {
@@ -288,6 +278,32 @@ export function getVideoElement(): HTMLVideoElement | null {
     return document.querySelector('video');
 }
 
+// 会遮挡弹幕的播放器元素：字幕、控制栏、结束画面元素与信息卡片
+const PLAYER_OVERLAY_SELECTORS = [
+    '.ytp-caption-window-container .caption-window',
+    '.ytp-chrome-bottom',
+    '.ytp-ce-element.ytp-ce-element-show',
+    '.ytp-cards-teaser'
+];
+
+/**
+ * 获取播放器上当前可见的遮挡元素区域
+ * 控制栏自动隐藏时不计入
+ * @returns 各元素的视口坐标
+ */
+export function getPlayerOverlayRects(): DOMRect[] {
+    const player = document.querySelector<HTMLElement>('#movie_player');
+    if (!player) return [];
+
+    const controlsHidden = player.classList.contains('ytp-autohide');
+    return PLAYER_OVERLAY_SELECTORS.flatMap((selector) =>
+        Array.from(player.querySelectorAll<HTMLElement>(selector))
+    )
+        .filter((elem) => !(controlsHidden && elem.matches('.ytp-chrome-bottom')))
+        .map((elem) => elem.getBoundingClientRect())
+        .filter((rect) => rect.width > 0 && rect.height > 0);
+}
+
 /**
  * 获取视频时长
  */
@@ -295,3 +311,41 @@ export function getVideoDuration(): number | null {
     const video = getVideoElement();
     return video ? video.duration : null;
 }
+
+/**
+ * 解析时间戳文本（如 1:23、01:02:03）
+ * @returns 秒数，无法解析时返回 null
+ */
+export function parseTimestamp(text: string): number | null {
+    const match = text.trim().match(/^(?:(\d{1,2}):)?(\d{1,2}):(\d{2})$/);
+    if (!match) return null;
+
+    const hours = match[1] ? parseInt(match[1]) : 0;
+    return hours * 3600 + parseInt(match[2]) * 60 + parseInt(match[3]);
+}
+
+/**
+ * 获取页面上的时间标记（章节、简介与已加载评论中的时间戳链接）
+ * @returns 时间标记（秒），已去重并排序
+ */
+export function getTimestampMarkers(): number[] {
+    const markers = new Set<number>();
+
+    // 章节列表
+    document.querySelectorAll('ytd-macro-markers-list-item-renderer #time').forEach((element) => {
+        const time = parseTimestamp(element.textContent || '');
+        if (time !== null) markers.add(time);
+    });
+
+    // 简介与评论中的时间戳链接（&t=123s）
+    document
+        .querySelectorAll<HTMLAnchorElement>(
+            '#description a[href*="t="], ytd-comment-thread-renderer #content-text a[href*="t="]'
+        )
+        .forEach((link) => {
+            const match = link.href.match(/[?&]t=(\d+)s?/);
+            if (match) markers.add(parseInt(match[1]));
+        });
+
+    return [...markers].sort((a, b) => a - b);
+}
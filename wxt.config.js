@@ -9,6 +9,13 @@ export default defineConfig({
             'https://www.bilibili.com/*',
             'https://www.youtube.com/oembed*',
             'https://raw.githubusercontent.com/*'
+        ],
+        // 弹幕中的表情图片由 content script 在 YouTube 页面中加载
+        web_accessible_resources: [
+            {
+                resources: ['emotes/*'],
+                matches: ['*://*.youtube.com/*']
+            }
         ]
     }
 });